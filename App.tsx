@@ -1,64 +1,438 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { Header } from './components/Header';
 import { LiveSession } from './components/LiveSession';
 import { JourneyMapViz } from './components/JourneyMapViz';
 import { ChatRefiner } from './components/ChatRefiner';
-import { JourneyMapData, TranscriptItem } from './types';
-import { analyzeTranscriptForMap, generateFollowUpQuestions, refineMapWithChat } from './services/geminiService';
+import { ProjectBrowser } from './components/ProjectBrowser';
+import { VersionTimeline } from './components/VersionTimeline';
+import { MapDiffView } from './components/MapDiffView';
+import { TemplateEditor } from './components/TemplateEditor';
+import { PrivacyPanel } from './components/PrivacyPanel';
+import { GuideEditor } from './components/GuideEditor';
+import { GuideCoveragePanel } from './components/GuideCoveragePanel';
+import { GuideReport } from './components/GuideReport';
+import { SuggestionsPanel } from './components/SuggestionsPanel';
+import { AuditLogPanel } from './components/AuditLogPanel';
+import { GoogleExportPanel } from './components/GoogleExportPanel';
+import { AnalysisProgress, AuditAction, ConsentRecord, GuideCoverage, InterviewGuide, InterviewSession, JourneyMapData, JourneyTemplate, MapRevisionSource, Participant, Project, RefinementMessage, SaveStatus, SessionLanguage, Suggestion, TranscriptItem } from './types';
+import { analyzeNewTranscriptLines, analyzeTranscriptForMap, generateFollowUpQuestions, refineMapWithChat, synthesizeJourneyMaps, trackGuideCoverage, translateTranscriptLines } from './services/geminiService';
+import { PurgedData, createSession, listTemplates, purgeExpiredData, restoreOrCreateSession, saveProject, saveSession, setLastSessionId } from './services/projectStore';
+import { BUILT_IN_TEMPLATES, findTemplate } from './services/journeyTemplates';
+import { EMPTY_HISTORY, MapHistory, canRedo, canUndo, createRevision, currentMap, historyFromSession, pushLiveRevision, pushRevision } from './services/mapHistory';
+import { applyMapOperations } from './services/mapOperations';
+import { withCopilot } from './services/transcript';
+import { RedactionSettings, getRedactionSettings, saveRedactionSettings } from './services/redaction';
+import { ProviderId, getProviderId, setProviderId } from './services/llmProvider';
+import { EMPTY_COVERAGE, EMPTY_GUIDE, hasGuideItems, mergeCoverage, toggleCoverage, uncheckedLines, uncoveredEntries } from './services/interviewGuide';
+import { MAX_LIVE_MAP_LINES, applyLiveUpdate, emptyLiveMap, getLiveMapEnabled, saveLiveMapEnabled, unmappedLines } from './services/liveMap';
+import { DEFAULT_SESSION_LANGUAGE, MAX_TRANSLATION_LINES, secondExportLanguage, untranslatedLines } from './services/languages';
+import { allowsAiAnalysis, describeConsent, withdrawnScopeLabels } from './services/consent';
+import { getAuditActor, logAudit, saveAuditActor } from './services/auditLog';
+import { retentionLabel } from './services/retention';
+import { isGoogleConfigured } from './services/googleIntegration';
+import { applySuggestionBatch, detectAskedSuggestions, openingSuggestions, updateSuggestion } from './services/suggestions';
+
+const AUTOSAVE_DELAY_MS = 800;
+// Quiet time after the last transcript change before a live map update is requested
+const LIVE_MAP_DELAY_MS = 5000;
+// How long items added by a live update stay highlighted
+const NEW_ITEM_HIGHLIGHT_MS = 2000;
+// Quiet time after the last transcript change before new lines are translated
+const TRANSLATION_DELAY_MS = 2000;
+// Retention also runs while the app stays open, not only when it starts
+const RETENTION_CHECK_MS = 60 * 60_000;
 
 export default function App() {
   const [transcriptHistory, setTranscriptHistory] = useState<TranscriptItem[]>([]);
-  const [journeyMap, setJourneyMap] = useState<JourneyMapData | null>(null);
+  const [participants, setParticipants] = useState<Participant[]>(withCopilot());
+  // Every map revision is kept so refinements can be undone and compared
+  const [mapHistory, setMapHistory] = useState<MapHistory>(EMPTY_HISTORY);
+  const journeyMap = currentMap(mapHistory);
+  const mapHistoryRef = useRef(mapHistory);
+  mapHistoryRef.current = mapHistory;
+  const [refinementThread, setRefinementThread] = useState<RefinementMessage[]>([]);
+  const [reviewMessageId, setReviewMessageId] = useState<string | null>(null);
+  const [compareIndex, setCompareIndex] = useState<number | null>(null);
   const [isMapLoading, setIsMapLoading] = useState(false);
-  const [suggestions, setSuggestions] = useState<string[]>([
-    "Could you walk me through your first experience with us?",
-    "What were you feeling when you first sought help?",
-    "Were there any obstacles in the application process?"
-  ]);
+  // Long transcripts are analysed in parts; the PM sees how far it has got and can cancel
+  const [mapProgress, setMapProgress] = useState<AnalysisProgress | null>(null);
+  const analysisAbortRef = useRef<AbortController | null>(null);
+  const [suggestions, setSuggestions] = useState<Suggestion[]>(() => openingSuggestions(undefined));
+  // Set by the live session while the co-pilot is connected and can ask a question out loud
+  const [askCopilot, setAskCopilot] = useState<((question: string) => void) | null>(null);
+  const [images, setImages] = useState<Record<string, string>>({});
+  const [evidenceIds, setEvidenceIds] = useState<string[]>([]);
+  // Live map building: the map grows as transcript lines come in, up to liveMapThroughId
+  const [liveMapEnabled, setLiveMapEnabled] = useState(getLiveMapEnabled);
+  const [liveMapThroughId, setLiveMapThroughId] = useState<string | undefined>(undefined);
+  const [isLiveMapUpdating, setIsLiveMapUpdating] = useState(false);
+  const [newItemKeys, setNewItemKeys] = useState<string[]>([]);
+  // Last line of a batch that failed, so the same batch is only retried once new lines arrive
+  const liveMapFailedThroughRef = useRef<string | undefined>(undefined);
+
+  // Persistence state
+  const [activeProject, setActiveProject] = useState<Project | null>(null);
+  const [activeSession, setActiveSession] = useState<InterviewSession | null>(null);
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('idle');
+  const [showProjects, setShowProjects] = useState(false);
+  // The project's template decides which stages and lanes a generated map has
+  const [activeTemplate, setActiveTemplate] = useState<JourneyTemplate>(BUILT_IN_TEMPLATES[0]);
+  const [showTemplates, setShowTemplates] = useState(false);
+  // Redaction settings apply to every AI request from this browser, not to one project
+  const [redactionSettings, setRedactionSettings] = useState<RedactionSettings>(getRedactionSettings);
+  const [showPrivacy, setShowPrivacy] = useState(false);
+  const [showAuditLog, setShowAuditLog] = useState(false);
+  const [showGoogleExport, setShowGoogleExport] = useState(false);
+  const [auditActor, setAuditActor] = useState(getAuditActor);
+  const [providerId, setActiveProviderId] = useState<ProviderId>(getProviderId);
+  // The project's interview guide, and how much of it this interview has covered
+  const [guideCoverage, setGuideCoverage] = useState<GuideCoverage>(EMPTY_COVERAGE);
+  const guideCoverageRef = useRef(guideCoverage);
+  guideCoverageRef.current = guideCoverage;
+  const [isCheckingCoverage, setIsCheckingCoverage] = useState(false);
+  const [showGuideEditor, setShowGuideEditor] = useState(false);
+  const [showGuideReport, setShowGuideReport] = useState(false);
+  const activeSessionIdRef = useRef<string | undefined>(undefined);
+  activeSessionIdRef.current = activeSession?.id;
+  const sessionLanguage = activeSession?.language || DEFAULT_SESSION_LANGUAGE;
+  // An interviewee who declined AI analysis keeps the transcript away from the AI provider
+  const aiAllowed = allowsAiAnalysis(activeSession?.consent);
+  const [isTranslating, setIsTranslating] = useState(false);
+  // Lines already sent for translation (by language, id and text), so lines the model skipped are not sent forever
+  const translationAttemptedRef = useRef(new Set<string>());
+  // Skips the autosave triggered by loading a session's own data into state
+  const skipNextSaveRef = useRef(false);
+  // The debounced save still waiting to run, so switching interviews can write it first
+  const pendingSaveRef = useRef<{ sessionId: string; run: () => Promise<void> } | null>(null);
+
+  const loadSession = useCallback((project: Project, session: InterviewSession) => {
+    // Edits made just before switching are saved to the interview they belong to. Reloading the
+    // same interview (after a retention purge) drops them instead, as the stored copy wins.
+    const pending = pendingSaveRef.current;
+    pendingSaveRef.current = null;
+    if (pending && pending.sessionId !== session.id) pending.run();
+    skipNextSaveRef.current = true;
+    setActiveProject(project);
+    setActiveSession(session);
+    setTranscriptHistory(session.transcript);
+    setParticipants(withCopilot(session.participants));
+    setMapHistory(historyFromSession(session));
+    setRefinementThread(session.refinementThread || []);
+    setReviewMessageId(null);
+    setCompareIndex(null);
+    setSuggestions(session.suggestions.length > 0 ? session.suggestions : openingSuggestions(project.guide));
+    setGuideCoverage(session.guideCoverage || EMPTY_COVERAGE);
+    // Sessions mapped before live building existed count as mapped up to their last line
+    setLiveMapThroughId(session.liveMapThroughId ?? (session.journeyMap ? session.transcript[session.transcript.length - 1]?.id : undefined));
+    setNewItemKeys([]);
+    setImages(session.images);
+    setEvidenceIds([]);
+    setSaveStatus('idle');
+    setLastSessionId(session.id);
+    listTemplates()
+      .then(templates => setActiveTemplate(findTemplate(templates, project.templateId)))
+      .catch(e => console.error("Failed to load templates:", e));
+  }, []);
+
+  // Purges what the projects' retention policies no longer allow, and logs each purge
+  const applyRetention = useCallback(async (): Promise<PurgedData[]> => {
+    const purged = await purgeExpiredData();
+    purged.forEach(({ project, session, transcript, audio }) => {
+      const policy = project.retention || {};
+      const what = transcript && audio ? 'transcript and audio' : transcript ? 'transcript' : 'audio';
+      logAudit('purge', `Purged the ${what} of "${session.title}" (${project.name}) under its retention policy (transcripts: ${retentionLabel(policy.transcriptDays)}, audio: ${retentionLabel(policy.audioDays)})`, {
+        projectId: project.id, sessionId: session.id, actor: 'Retention policy',
+      });
+    });
+    return purged;
+  }, []);
+
+  // Apply retention policies, then reopen the last interview on startup
+  useEffect(() => {
+    applyRetention()
+      .catch(e => console.error("Failed to apply retention policies:", e))
+      .then(() => restoreOrCreateSession())
+      .then(({ project, session }) => loadSession(project, session))
+      .catch(e => {
+        console.error("Failed to open project store:", e);
+        setSaveStatus('error');
+      });
+  }, [applyRetention, loadSession]);
+
+  // Keep applying retention in a tab left open; an expired open interview is reloaded without its transcript
+  useEffect(() => {
+    const timer = setInterval(() => {
+      applyRetention()
+        .then(purged => {
+          const open = purged.find(p => p.transcript && p.session.id === activeSessionIdRef.current);
+          if (open) loadSession(open.project, open.session);
+        })
+        .catch(e => console.error("Failed to apply retention policies:", e));
+    }, RETENTION_CHECK_MS);
+    return () => clearInterval(timer);
+  }, [applyRetention, loadSession]);
+
+  // Autosave the open interview whenever its content changes (Debounced)
+  useEffect(() => {
+    if (!activeSession) return;
+    if (skipNextSaveRef.current) {
+      skipNextSaveRef.current = false;
+      return;
+    }
+
+    setSaveStatus('saving');
+    const save = async () => {
+      try {
+        const saved = await saveSession({
+          ...activeSession,
+          transcript: transcriptHistory,
+          participants,
+          journeyMap,
+          mapHistory: mapHistory.revisions,
+          mapHistoryIndex: mapHistory.index,
+          refinementThread,
+          suggestions,
+          images,
+          guideCoverage,
+          liveMapThroughId,
+        });
+        setActiveSession(prev => (prev && prev.id === saved.id ? { ...prev, updatedAt: saved.updatedAt } : prev));
+        setSaveStatus('saved');
+      } catch (e) {
+        console.error("Autosave failed:", e);
+        setSaveStatus('error');
+      }
+    };
+    pendingSaveRef.current = { sessionId: activeSession.id, run: save };
+    const timer = setTimeout(() => {
+      pendingSaveRef.current = null;
+      save();
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+    // activeSession is tracked by the fields the user edits only; its timestamps change on every save
+  }, [activeSession?.id, activeSession?.title, activeSession?.recordingConsent, activeSession?.consent, activeSession?.language, transcriptHistory, participants, mapHistory, refinementThread, suggestions, images, guideCoverage, liveMapThroughId]);
 
   // Periodic analysis for suggestions (Debounced)
   useEffect(() => {
     // Only analyze if we have enough history (e.g., at least 2 turns)
-    if (transcriptHistory.length < 2) return;
+    if (transcriptHistory.length < 2 || !aiAllowed) return;
 
+    const guide = activeProject?.guide;
+    const sessionId = activeSession?.id;
     const timer = setTimeout(async () => {
-      const questions = await generateFollowUpQuestions(transcriptHistory);
-      if (questions && questions.length > 0) {
-        setSuggestions(questions);
+      // Coverage first, so the questions can go after what the guide still has open
+      let coverage = guideCoverageRef.current;
+      if (guide && hasGuideItems(guide) && uncheckedLines(transcriptHistory, coverage).length > 0) {
+        setIsCheckingCoverage(true);
+        try {
+          const checked = await trackGuideCoverage(transcriptHistory, guide, coverage, participants);
+          if (sessionId !== activeSessionIdRef.current) return;
+          // The PM may have ticked items off while the check was running
+          setGuideCoverage(prev => mergeCoverage(prev, checked.items, checked.checkedThroughId));
+          coverage = checked;
+        } catch (e) {
+          console.error("Coverage check failed:", e);
+        } finally {
+          setIsCheckingCoverage(false);
+        }
+      }
+
+      const batch = await generateFollowUpQuestions(transcriptHistory, participants, {
+        guideGaps: uncoveredEntries(guide, coverage),
+        stages: activeTemplate.stages,
+        language: sessionLanguage,
+      });
+      if (sessionId !== activeSessionIdRef.current) return;
+      if (batch.length > 0) {
+        setSuggestions(prev => applySuggestionBatch(prev, batch));
       }
     }, 4000); // Check every few seconds of inactivity or after updates
 
     return () => clearTimeout(timer);
-  }, [transcriptHistory]);
+    // Coverage is read through its ref; ticking an item off should not trigger new requests
+  }, [transcriptHistory, participants, activeProject?.guide, aiAllowed]);
+
+  // Open questions that the interviewer or co-pilot has since asked move to the history
+  useEffect(() => {
+    setSuggestions(prev => detectAskedSuggestions(prev, transcriptHistory, participants));
+  }, [transcriptHistory, participants]);
+
+  const handleUpdateSuggestion = useCallback((id: string, changes: Partial<Suggestion>) => {
+    setSuggestions(prev => updateSuggestion(prev, id, changes));
+  }, []);
+
+  // Stable, so the live session only reports when the connection changes
+  const handleCopilotChange = useCallback((ask: ((question: string) => void) | null) => setAskCopilot(() => ask), []);
+
+  const handleAskCopilot = useCallback((suggestion: Suggestion) => {
+    if (!askCopilot) return;
+    askCopilot(suggestion.text);
+    setSuggestions(prev => updateSuggestion(prev, suggestion.id, { status: 'asked', askedVia: 'copilot' }));
+  }, [askCopilot]);
+
+  // Live map building (Debounced). Only what the new lines add is requested, and it is merged
+  // into the map as it stands when the answer arrives, so the PM's edits meanwhile are kept.
+  useEffect(() => {
+    if (!liveMapEnabled || !aiAllowed || isLiveMapUpdating || isMapLoading || activeSession?.sourceSessionIds) return;
+    const lines = unmappedLines(transcriptHistory, liveMapThroughId).slice(0, MAX_LIVE_MAP_LINES);
+    const throughId = lines[lines.length - 1]?.id;
+    if (!throughId || throughId === liveMapFailedThroughRef.current) return;
+
+    const sessionId = activeSession?.id;
+    const timer = setTimeout(async () => {
+      const base = currentMap(mapHistoryRef.current) || emptyLiveMap(activeTemplate, sessionLanguage.output);
+      setIsLiveMapUpdating(true);
+      try {
+        // Additions are written in the language the map already has
+        const additions = await analyzeNewTranscriptLines(base, lines, transcriptHistory, participants, { ...sessionLanguage, output: base.language || 'en' });
+        if (sessionId !== activeSessionIdRef.current) return;
+        const latest = currentMap(mapHistoryRef.current) || base;
+        const { map, addedKeys } = applyLiveUpdate(latest, additions);
+        if (map !== latest) {
+          setMapHistory(prev => pushLiveRevision(prev, map, 'Built live from the interview'));
+          setNewItemKeys(addedKeys);
+        }
+        setLiveMapThroughId(throughId);
+      } catch (e) {
+        console.error("Live map update failed:", e);
+        liveMapFailedThroughRef.current = throughId;
+      } finally {
+        setIsLiveMapUpdating(false);
+      }
+    }, LIVE_MAP_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [transcriptHistory, participants, liveMapEnabled, aiAllowed, liveMapThroughId, isLiveMapUpdating, isMapLoading, activeSession?.id]);
+
+  // Transcript translations into the output language (Debounced), a batch at a time. Each line is
+  // translated once; an edited line loses its translation and is translated again.
+  useEffect(() => {
+    if (isTranslating || !aiAllowed) return;
+    const attemptKey = (item: TranscriptItem) => `${sessionLanguage.output}|${item.id}|${item.text}`;
+    const lines = untranslatedLines(transcriptHistory, sessionLanguage)
+      .filter(item => !translationAttemptedRef.current.has(attemptKey(item)))
+      .slice(0, MAX_TRANSLATION_LINES);
+    if (lines.length === 0) return;
+
+    const sessionId = activeSession?.id;
+    const language = sessionLanguage;
+    const timer = setTimeout(async () => {
+      lines.forEach(item => translationAttemptedRef.current.add(attemptKey(item)));
+      setIsTranslating(true);
+      try {
+        const translations = await translateTranscriptLines(lines, language, transcriptHistory, participants);
+        if (sessionId !== activeSessionIdRef.current) return;
+        const sent = new Map(lines.map(item => [item.id, item.text]));
+        // Lines edited while the request was running keep no translation
+        setTranscriptHistory(prev => prev.map(item =>
+          translations[item.id] && sent.get(item.id) === item.text
+            ? { ...item, translation: { language: language.output, text: translations[item.id] } }
+            : item
+        ));
+      } catch (e) {
+        console.error("Transcript translation failed:", e);
+      } finally {
+        setIsTranslating(false);
+      }
+    }, TRANSLATION_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [transcriptHistory, participants, sessionLanguage, aiAllowed, isTranslating, activeSession?.id]);
+
+  useEffect(() => {
+    if (newItemKeys.length === 0) return;
+    const timer = setTimeout(() => setNewItemKeys([]), NEW_ITEM_HIGHLIGHT_MS);
+    return () => clearTimeout(timer);
+  }, [newItemKeys]);
+
+  const handleToggleLiveMap = (enabled: boolean) => {
+    setLiveMapEnabled(enabled);
+    saveLiveMapEnabled(enabled);
+  };
+
+  const commitMap = useCallback((map: JourneyMapData, source: MapRevisionSource, label: string) => {
+    setMapHistory(prev => pushRevision(prev, createRevision(map, source, label)));
+  }, []);
+
+  // Audit entries about the open interview
+  const audit = (action: AuditAction, summary: string) =>
+    logAudit(action, summary, { projectId: activeProject?.id, sessionId: activeSession?.id });
+
+  const handleManualEdit = useCallback((map: JourneyMapData) => commitMap(map, 'edit', 'Manual edit'), [commitMap]);
 
   const handleGenerateMap = async () => {
     if (transcriptHistory.length === 0) {
       alert("No transcript available yet. Please start the interview and speak first.");
       return;
     }
+    if (!aiAllowed) {
+      alert("The interviewee did not consent to AI analysis, so this transcript cannot be sent to the AI.");
+      return;
+    }
 
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
     setIsMapLoading(true);
     try {
-      const map = await analyzeTranscriptForMap(transcriptHistory);
+      const map = await analyzeTranscriptForMap(transcriptHistory, activeTemplate, participants, {
+        onProgress: setMapProgress,
+        signal: controller.signal,
+        language: sessionLanguage,
+      });
       if (map) {
-        setJourneyMap(map);
+        commitMap(map, 'generate', journeyMap ? 'Regenerated from transcript' : 'Generated from transcript');
+        audit('generate', `${journeyMap ? 'Regenerated' : 'Generated'} the journey map of "${activeSession?.title}" from ${transcriptHistory.length} transcript lines`);
+        // The live map carries on from the end of what was just analysed
+        setLiveMapThroughId(transcriptHistory[transcriptHistory.length - 1].id);
       } else {
         throw new Error("Result was empty");
       }
     } catch (e: any) {
+      if (controller.signal.aborted) return; // The PM cancelled; the current map stays as it was
       console.error("Map Generation Error:", e);
       alert(`Failed to generate map: ${e.message || "Unknown error"}. Please try again.`);
     } finally {
+      analysisAbortRef.current = null;
+      setMapProgress(null);
       setIsMapLoading(false);
     }
   };
 
+  const handleCancelAnalysis = () => analysisAbortRef.current?.abort();
+
+  const updateThreadMessage = (id: string, update: Partial<RefinementMessage>) => {
+    setRefinementThread(prev => prev.map(m => (m.id === id ? { ...m, ...update } : m)));
+  };
+
   const handleRefineMap = async (prompt: string) => {
     if (!journeyMap) return;
+    if (!aiAllowed) {
+      alert("The interviewee did not consent to AI analysis, so this map cannot be refined by the AI.");
+      return;
+    }
+    const userMessage: RefinementMessage = { id: `${Date.now()}-pm`, role: 'user', text: prompt, createdAt: new Date() };
+    // A new request supersedes any proposal that was never reviewed
+    const thread = [...refinementThread.map(m => (m.status === 'pending' ? { ...m, status: 'discarded' as const } : m)), userMessage];
+    setRefinementThread(thread);
+    setReviewMessageId(null);
+
     setIsMapLoading(true);
     try {
-      const newMap = await refineMapWithChat(journeyMap, prompt);
-      setJourneyMap(newMap);
+      const result = await refineMapWithChat(journeyMap, prompt, thread.slice(0, -1), transcriptHistory, participants);
+      const { applied, rejected } = applyMapOperations(journeyMap, result.operations);
+      const modelMessage: RefinementMessage = {
+        id: `${Date.now()}-model`,
+        role: 'model',
+        text: result.explanation,
+        createdAt: new Date(),
+        operations: applied,
+        rejected,
+        status: applied.length > 0 ? 'pending' : undefined,
+      };
+      setRefinementThread(prev => [...prev, modelMessage]);
+      // Changes are previewed as a diff before they replace the current map
+      if (applied.length > 0) setReviewMessageId(modelMessage.id);
     } catch (e) {
       console.error("Refinement Error:", e);
       alert("Failed to refine map. Please try again.");
@@ -67,6 +441,144 @@ export default function App() {
     }
   };
 
+  // The preview is recomputed against the current map, so edits made since the proposal are kept
+  const reviewMessage = refinementThread.find(m => m.id === reviewMessageId) || null;
+  const refinementPreview = useMemo(
+    () => (reviewMessage && journeyMap ? applyMapOperations(journeyMap, reviewMessage.operations || []).map : null),
+    [reviewMessage, journeyMap]
+  );
+
+  const handleAcceptRefinement = () => {
+    if (!reviewMessage || !refinementPreview) return;
+    const request = refinementThread[refinementThread.indexOf(reviewMessage) - 1];
+    commitMap(refinementPreview, 'refine', `Refined: "${request?.text || reviewMessage.text}"`);
+    audit('refine', `Applied an AI refinement to the map of "${activeSession?.title}": "${request?.text || reviewMessage.text}"`);
+    updateThreadMessage(reviewMessage.id, { status: 'applied' });
+    setReviewMessageId(null);
+  };
+
+  const handleRejectRefinement = () => {
+    if (!reviewMessage) return;
+    updateThreadMessage(reviewMessage.id, { status: 'discarded' });
+    setReviewMessageId(null);
+  };
+
+  const handleSelectTemplate = async (template: JourneyTemplate) => {
+    setActiveTemplate(template);
+    setShowTemplates(false);
+    if (!activeProject) return;
+    try {
+      const saved = await saveProject({ ...activeProject, templateId: template.id });
+      setActiveProject(saved);
+    } catch (e) {
+      console.error("Failed to save project template:", e);
+    }
+  };
+
+  const handleOpenSession = async (project: Project, session: InterviewSession) => {
+    // Never show a transcript its retention policy has expired since the last check
+    let opened = session;
+    try {
+      opened = (await applyRetention()).find(p => p.session.id === session.id)?.session || session;
+    } catch (e) {
+      console.error("Failed to apply retention policies:", e);
+    }
+    loadSession(project, opened);
+    setShowProjects(false);
+  };
+
+  const handleSynthesize = async (project: Project, selected: InterviewSession[]) => {
+    // Interviews without AI analysis consent never reach the model; the open one's consent may be unsaved
+    const sessions = selected.filter(s => allowsAiAnalysis(s.id === activeSession?.id ? activeSession.consent : s.consent));
+    if (sessions.length < 2) {
+      throw new Error("At least two of the selected interviewees must consent to AI analysis");
+    }
+    // Interviews without a map are analyzed with the project's template, in their own languages
+    const template = findTemplate(await listTemplates(), project.templateId);
+    // The open interview may have unsaved changes, so use the live state for it
+    const inputs = sessions.map(s => s.id === activeSession?.id
+      ? { participant: s.title, map: journeyMap, transcript: transcriptHistory, speakers: participants, template, language: sessionLanguage }
+      : { participant: s.title, map: s.journeyMap, transcript: s.transcript, speakers: s.participants, template, language: s.language });
+
+    const map = await synthesizeJourneyMaps(inputs);
+    const session = await createSession(project.id, `Synthesis: ${map.title}`, {
+      journeyMap: map,
+      sourceSessionIds: sessions.map(s => s.id),
+    });
+    logAudit('generate', `Synthesized "${map.title}" from ${sessions.length} interviews: ${sessions.map(s => `"${s.title}"`).join(', ')}`, { projectId: project.id, sessionId: session.id });
+    await handleOpenSession(project, session);
+  };
+
+  const handleRenameSession = () => {
+    if (!activeSession) return;
+    const title = prompt("Rename interview", activeSession.title);
+    if (!title || !title.trim()) return;
+    setActiveSession({ ...activeSession, title: title.trim() });
+  };
+
+  const handleSaveGuide = async (guide: InterviewGuide) => {
+    if (!activeProject) return;
+    try {
+      const saved = await saveProject({ ...activeProject, guide });
+      setActiveProject(saved);
+      setShowGuideEditor(false);
+    } catch (e) {
+      console.error("Failed to save interview guide:", e);
+      alert("Failed to save the interview guide. Please try again.");
+    }
+  };
+
+  // Shows what the guide still had open when the PM ends the live interview
+  const handleSessionEnd = () => {
+    if (hasGuideItems(activeProject?.guide)) setShowGuideReport(true);
+  };
+
+  const handleRecordingConsentChange = (recordingConsent: boolean) => {
+    setActiveSession(prev => prev && { ...prev, recordingConsent });
+  };
+
+  const handleConsentChange = (consent: ConsentRecord) => {
+    setActiveSession(prev => prev && { ...prev, consent });
+    setAuditActor(getAuditActor());
+    const withdrawn = withdrawnScopeLabels(activeSession?.consent, consent);
+    if (withdrawn.length > 0 && consent.scopes.every(s => activeSession?.consent?.scopes.includes(s))) {
+      audit('consent', `The interviewee of "${activeSession?.title}" withdrew consent to ${withdrawn.join(' and ').toLowerCase()}`);
+      return;
+    }
+    audit('consent', `${activeSession?.consent ? 'Updated' : 'Recorded'} consent for "${activeSession?.title}": ${describeConsent(consent)}, taken by ${consent.recordedBy}${consent.intervieweeName ? ` from ${consent.intervieweeName}` : ''}`);
+  };
+
+  const handleDriveFolderChange = async (googleDriveFolderId: string) => {
+    if (!activeProject) return;
+    try {
+      const saved = await saveProject({ ...activeProject, googleDriveFolderId });
+      setActiveProject(saved);
+    } catch (e) {
+      console.error("Failed to save the project's Drive folder:", e);
+    }
+  };
+
+  const handleChangeAuditActor = () => {
+    const name = prompt("Your name, as recorded in the audit log", auditActor);
+    if (!name || !name.trim()) return;
+    saveAuditActor(name);
+    setAuditActor(name.trim());
+  };
+
+  const handleLanguageChange = (language: SessionLanguage) => {
+    setActiveSession(prev => prev && { ...prev, language });
+  };
+
+  const handleRedactionChange = (settings: RedactionSettings) => {
+    saveRedactionSettings(settings);
+    setRedactionSettings(settings);
+  };
+
+  const handleProviderChange = (id: ProviderId) => {
+    setProviderId(id);
+    setActiveProviderId(id);
+  };
+
   const handleTranscriptUpdate = useCallback((text: string) => {
     // We strictly use transcriptHistory for analysis now, but this callback 
     // satisfies the interface if we needed streaming text for other visualizers.
@@ -74,7 +586,98 @@ export default function App() {
 
   return (
     <div className="flex flex-col h-screen bg-gray-50">
-      <Header />
+      <Header
+        projectName={activeProject?.name}
+        sessionTitle={activeSession?.title}
+        saveStatus={saveStatus}
+        onOpenProjects={() => setShowProjects(true)}
+        onRenameSession={handleRenameSession}
+        redactionEnabled={redactionSettings.enabled}
+        isDemoProvider={providerId === 'mock'}
+        onOpenPrivacy={() => setShowPrivacy(true)}
+        userName={auditActor}
+        onChangeUserName={handleChangeAuditActor}
+        onOpenAuditLog={() => setShowAuditLog(true)}
+      />
+      {reviewMessage && refinementPreview && journeyMap && (
+        <MapDiffView
+          title="Review proposed refinement"
+          description={reviewMessage.text}
+          before={journeyMap}
+          after={refinementPreview}
+          onAccept={handleAcceptRefinement}
+          onReject={handleRejectRefinement}
+          onClose={() => setReviewMessageId(null)}
+        />
+      )}
+      {compareIndex !== null && journeyMap && mapHistory.revisions[compareIndex] && (
+        <MapDiffView
+          title={`Changes since "${mapHistory.revisions[compareIndex].label}"`}
+          before={mapHistory.revisions[compareIndex].map}
+          after={journeyMap}
+          onClose={() => setCompareIndex(null)}
+        />
+      )}
+      {showTemplates && (
+        <TemplateEditor
+          selectedTemplateId={activeTemplate.id}
+          onSelect={handleSelectTemplate}
+          onClose={() => setShowTemplates(false)}
+        />
+      )}
+      {showGuideEditor && (
+        <GuideEditor
+          guide={activeProject?.guide || EMPTY_GUIDE}
+          stages={activeTemplate.stages}
+          onSave={handleSaveGuide}
+          onClose={() => setShowGuideEditor(false)}
+        />
+      )}
+      {showGuideReport && activeProject?.guide && (
+        <GuideReport
+          guide={activeProject.guide}
+          coverage={guideCoverage}
+          sessionTitle={activeSession?.title}
+          onClose={() => setShowGuideReport(false)}
+        />
+      )}
+      {showAuditLog && (
+        <AuditLogPanel activeProjectId={activeProject?.id} onClose={() => setShowAuditLog(false)} />
+      )}
+      {showGoogleExport && (
+        <GoogleExportPanel
+          projectName={activeProject?.name}
+          driveFolderId={activeProject?.googleDriveFolderId}
+          onDriveFolderChange={handleDriveFolderChange}
+          sessionTitle={activeSession?.title}
+          sessionDate={activeSession?.createdAt}
+          map={journeyMap}
+          transcript={transcriptHistory}
+          participants={participants}
+          onExported={description => audit('export', description)}
+          onClose={() => setShowGoogleExport(false)}
+        />
+      )}
+      {showPrivacy && (
+        <PrivacyPanel
+          settings={redactionSettings}
+          onChange={handleRedactionChange}
+          transcript={transcriptHistory}
+          participants={participants}
+          providerId={providerId}
+          onProviderChange={handleProviderChange}
+          onClose={() => setShowPrivacy(false)}
+        />
+      )}
+      {showProjects && (
+        <ProjectBrowser
+          activeSessionId={activeSession?.id || null}
+          onOpenSession={handleOpenSession}
+          onSynthesize={handleSynthesize}
+          onProjectSaved={project => setActiveProject(prev => (prev?.id === project.id ? project : prev))}
+          onClose={() => setShowProjects(false)}
+        />
+      )}
       
       <main className="flex-1 flex overflow-hidden p-4 gap-4">
         
@@ -86,26 +689,45 @@ export default function App() {
               onTranscriptUpdate={handleTranscriptUpdate} 
               transcriptHistory={transcriptHistory} 
               setTranscriptHistory={setTranscriptHistory}
+              highlightedIds={evidenceIds}
+              participants={participants}
+              onParticipantsChange={setParticipants}
+              sessionId={activeSession?.id}
+              recordingConsent={!!activeSession?.recordingConsent}
+              onRecordingConsentChange={handleRecordingConsentChange}
+              onSessionEnd={handleSessionEnd}
+              onCopilotChange={handleCopilotChange}
+              language={sessionLanguage}
+              onLanguageChange={handleLanguageChange}
+              consent={activeSession?.consent}
+              onConsentChange={handleConsentChange}
+              onRecordingDeleted={() => audit('delete', `Deleted the audio recording of "${activeSession?.title}"`)}
+              onStoppedForConsent={() => audit('consent', `Stopped the live interview "${activeSession?.title}" because consent to stream it was withdrawn`)}
             />
           </div>
 
+          <GuideCoveragePanel
+            guide={activeProject?.guide}
+            coverage={guideCoverage}
+            isChecking={isCheckingCoverage}
+            onToggleItem={itemId => setGuideCoverage(prev => toggleCoverage(prev, itemId))}
+            onShowEvidence={setEvidenceIds}
+            onEdit={() => setShowGuideEditor(true)}
+            onReport={() => setShowGuideReport(true)}
+          />
+
           {/* AI Suggestions Panel */}
           <div className="bg-gradient-to-br from-ncss-purple to-purple-900 rounded-xl p-4 shadow-md text-white shrink-0">
             <h3 className="font-bold text-sm uppercase tracking-wide opacity-80 mb-3 flex items-center gap-2">
               <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" /></svg>
               AI Co-Pilot Suggestions
             </h3>
-            {suggestions.length > 0 ? (
-              <ul className="space-y-2">
-                {suggestions.map((s, i) => (
-                  <li key={i} className="text-sm bg-white/10 p-2 rounded border border-white/10 hover:bg-white/20 transition-colors cursor-pointer">
-                    "{s}"
-                  </li>
-                ))}
-              </ul>
-            ) : (
-              <p className="text-sm text-white/50 italic">Listening to context for suggestions...</p>
-            )}
+            <SuggestionsPanel
+              suggestions={suggestions}
+              onUpdate={handleUpdateSuggestion}
+              onAskCopilot={askCopilot ? handleAskCopilot : null}
+              onShowEvidence={setEvidenceIds}
+            />
             
             <div className="mt-4 pt-3 border-t border-white/20">
               <button 
@@ -127,17 +749,44 @@ export default function App() {
                   </>
                 )}
               </button>
+              <button
+                onClick={() => setShowTemplates(true)}
+                className="mt-2 w-full text-xs text-white/70 hover:text-white truncate"
+                title={activeTemplate.description}
+              >
+                Template: <span className="font-semibold">{activeTemplate.name}</span> • Change
+              </button>
+              {!activeSession?.sourceSessionIds && (
+                <label className="mt-2 flex items-center justify-center gap-2 text-xs text-white/80 cursor-pointer" title="Adds what each new part of the conversation reveals to the map, without touching your edits">
+                  <input type="checkbox" checked={liveMapEnabled} onChange={e => handleToggleLiveMap(e.target.checked)} className="accent-white" />
+                  Build the map live during the interview
+                  {isLiveMapUpdating && <span className="text-white/50 animate-pulse">updating...</span>}
+                </label>
+              )}
             </div>
           </div>
         </div>
 
         {/* Right Column: Visualization */}
         <div className="flex-1 flex flex-col bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+          <VersionTimeline
+            history={mapHistory}
+            onUndo={() => setMapHistory(prev => (canUndo(prev) ? { ...prev, index: prev.index - 1 } : prev))}
+            onRedo={() => setMapHistory(prev => (canRedo(prev) ? { ...prev, index: prev.index + 1 } : prev))}
+            onJumpTo={index => setMapHistory(prev => ({ ...prev, index }))}
+            onCompare={setCompareIndex}
+          />
           <div className="flex-1 min-h-0 relative">
-             <JourneyMapViz data={journeyMap} isLoading={isMapLoading} />
+             <JourneyMapViz data={journeyMap} isLoading={isMapLoading} images={images} onImagesChange={setImages} onShowEvidence={setEvidenceIds} onMapChange={handleManualEdit} isLive={liveMapEnabled && !activeSession?.sourceSessionIds} newItemKeys={newItemKeys} progress={mapProgress} onCancel={mapProgress ? handleCancelAnalysis : undefined} secondLanguage={journeyMap ? secondExportLanguage(journeyMap.language, sessionLanguage) : null} onExport={description => audit('export', `${description} of "${activeSession?.title}"`)} onOpenGoogleExport={isGoogleConfigured() ? () => setShowGoogleExport(true) : undefined} aiAllowed={aiAllowed} />
           </div>
           {journeyMap && (
-             <ChatRefiner onSendMessage={handleRefineMap} isProcessing={isMapLoading} />
+             <ChatRefiner
+               messages={refinementThread}
+               onSendMessage={handleRefineMap}
+               onReview={setReviewMessageId}
+               isProcessing={isMapLoading}
+               map={journeyMap}
+             />
           )}
         </div>
 
@@ -0,0 +1,101 @@
+import React, { useEffect, useState } from 'react';
+import { AuditAction, AuditEntry, Project } from '../types';
+import { listAuditEntries, listProjects } from '../services/projectStore';
+import { AUDIT_ACTION_LABELS, auditLogCsv } from '../services/auditLog';
+
+interface Props {
+  activeProjectId?: string;
+  onClose: () => void;
+}
+
+const ACTION_STYLES: Record<AuditAction, string> = {
+  consent: 'bg-green-100 text-green-700',
+  generate: 'bg-purple-100 text-ncss-purple',
+  refine: 'bg-blue-100 text-blue-700',
+  export: 'bg-teal-100 text-teal-700',
+  delete: 'bg-red-100 text-red-700',
+  purge: 'bg-amber-100 text-amber-700',
+  retention: 'bg-gray-100 text-gray-700',
+};
+
+export const AuditLogPanel: React.FC<Props> = ({ activeProjectId, onClose }) => {
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [projectId, setProjectId] = useState(activeProjectId || '');
+  const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+
+  useEffect(() => {
+    listProjects().then(setProjects).catch(e => console.error("Failed to load projects:", e));
+  }, []);
+
+  useEffect(() => {
+    setEntries(null);
+    listAuditEntries(projectId || undefined)
+      .then(setEntries)
+      .catch(e => {
+        console.error("Failed to load the audit log:", e);
+        setEntries([]);
+      });
+  }, [projectId]);
+
+  const handleDownload = () => {
+    if (!entries) return;
+    const blob = new Blob([auditLogCsv(entries)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `audit_log_${new Date().toISOString().slice(0, 10)}.csv`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[200] bg-slate-900/40 flex items-center justify-center p-6 no-print" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-3xl max-h-[85vh] flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+          <div>
+            <h2 className="font-semibold text-slate-800">Audit Log</h2>
+            <p className="text-xs text-gray-500">Every entry is kept, including those for deleted interviews and projects.</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-sm font-medium">Close</button>
+        </div>
+
+        <div className="px-4 py-2 border-b border-gray-100 flex items-center gap-2 text-sm">
+          <select value={projectId} onChange={e => setProjectId(e.target.value)} className="border border-gray-300 rounded px-2 py-1 bg-white">
+            <option value="">All projects</option>
+            {projects.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
+          <button
+            onClick={handleDownload}
+            disabled={!entries || entries.length === 0}
+            className="ml-auto px-3 py-1 rounded bg-ncss-teal text-white hover:bg-teal-700 text-xs font-bold disabled:opacity-50"
+          >
+            Download CSV
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {entries === null && <p className="text-center text-gray-400 text-sm italic mt-6">Loading...</p>}
+          {entries?.length === 0 && <p className="text-center text-gray-400 text-sm italic my-6">Nothing has been logged yet.</p>}
+          {entries && entries.length > 0 && (
+            <table className="w-full text-sm">
+              <tbody className="divide-y divide-gray-100">
+                {entries.map(entry => (
+                  <tr key={entry.id} className="align-top">
+                    <td className="px-4 py-2 text-xs text-gray-500 whitespace-nowrap">{new Date(entry.at).toLocaleString()}</td>
+                    <td className="py-2 text-xs font-medium text-slate-700 whitespace-nowrap">{entry.actor}</td>
+                    <td className="px-3 py-2">
+                      <span className={`text-[10px] uppercase tracking-wide px-1.5 py-0.5 rounded font-bold ${ACTION_STYLES[entry.action]}`}>{AUDIT_ACTION_LABELS[entry.action]}</span>
+                    </td>
+                    <td className="pr-4 py-2 text-gray-700">{entry.summary}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,24 +1,98 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { JourneyMapData, RefinementMessage } from '../types';
+import { describeOperation } from '../services/mapOperations';
 
 interface Props {
+  messages: RefinementMessage[];
   onSendMessage: (msg: string) => Promise<void>;
+  onReview: (messageId: string) => void;
   isProcessing: boolean;
+  map?: JourneyMapData | null; // Used for lane labels
 }
 
-export const ChatRefiner: React.FC<Props> = ({ onSendMessage, isProcessing }) => {
+const STATUS_LABELS: Record<NonNullable<RefinementMessage['status']>, { label: string; className: string }> = {
+  pending: { label: 'Awaiting review', className: 'bg-amber-100 text-amber-700' },
+  applied: { label: 'Applied', className: 'bg-green-100 text-green-700' },
+  discarded: { label: 'Rejected', className: 'bg-gray-100 text-gray-500' },
+};
+
+export const ChatRefiner: React.FC<Props> = ({ messages, onSendMessage, onReview, isProcessing, map }) => {
   const [input, setInput] = useState('');
+  const [isThreadOpen, setIsThreadOpen] = useState(true);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [messages, isThreadOpen]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!input.trim() || isProcessing) return;
     const msg = input;
     setInput('');
+    setIsThreadOpen(true);
     await onSendMessage(msg);
   };
 
   return (
-    <div className="bg-white border-t border-gray-200 p-4 no-print">
-      <form onSubmit={handleSubmit} className="flex gap-2">
+    <div className="bg-white border-t border-gray-200 no-print">
+      {messages.length > 0 && (
+        <div className="border-b border-gray-100">
+          <button
+            type="button"
+            onClick={() => setIsThreadOpen(!isThreadOpen)}
+            className="w-full px-4 py-1.5 text-left text-xs font-semibold text-gray-500 uppercase tracking-wide hover:bg-gray-50"
+          >
+            {isThreadOpen ? '▾' : '▸'} Refinement Conversation ({messages.length})
+          </button>
+          {isThreadOpen && (
+            <div ref={scrollRef} className="max-h-56 overflow-y-auto px-4 pb-3 space-y-2">
+              {messages.map(message => (
+                <div key={message.id} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                  <div className={`max-w-[80%] rounded-lg p-2.5 text-sm ${
+                    message.role === 'user'
+                      ? 'bg-slate-800 text-white rounded-br-none'
+                      : 'bg-gray-50 text-gray-800 border border-gray-200 rounded-bl-none'
+                  }`}>
+                    <div>{message.text || (message.role === 'model' ? 'Proposed changes:' : '')}</div>
+
+                    {message.operations && message.operations.length > 0 && (
+                      <ul className="mt-1.5 space-y-0.5 text-xs text-gray-600 list-disc pl-4">
+                        {message.operations.map((op, idx) => <li key={idx}>{describeOperation(op, map || undefined)}</li>)}
+                      </ul>
+                    )}
+
+                    {message.rejected && message.rejected.length > 0 && (
+                      <ul className="mt-1.5 space-y-0.5 text-xs text-amber-700">
+                        {message.rejected.map((r, idx) => (
+                          <li key={idx} title={r.reason}>⚠️ Skipped: {describeOperation(r.operation, map || undefined)} ({r.reason})</li>
+                        ))}
+                      </ul>
+                    )}
+
+                    {message.status && (
+                      <div className="mt-1.5 flex items-center gap-2">
+                        <span className={`text-[10px] uppercase tracking-wide px-1.5 py-0.5 rounded ${STATUS_LABELS[message.status].className}`}>
+                          {STATUS_LABELS[message.status].label}
+                        </span>
+                        {message.status === 'pending' && (
+                          <button type="button" onClick={() => onReview(message.id)} className="text-xs text-ncss-purple font-medium hover:underline">
+                            Review changes
+                          </button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="flex gap-2 p-4">
         <input
           type="text"
           value={input}
@@ -37,4 +111,4 @@ export const ChatRefiner: React.FC<Props> = ({ onSendMessage, isProcessing }) =>
       </form>
     </div>
   );
-};
\ No newline at end of file
+};
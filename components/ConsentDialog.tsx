@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { ConsentRecord, ConsentScope } from '../types';
+import { CONSENT_SCOPES } from '../services/consent';
+import { getAuditActor, saveAuditActor } from '../services/auditLog';
+
+interface Props {
+  consent?: ConsentRecord; // The consent already on record, when it is being changed
+  requiredScopes: ConsentScope[]; // What the action that opened the dialog needs
+  initialScopes?: ConsentScope[];
+  intervieweeName?: string;
+  onConfirm: (consent: ConsentRecord) => void;
+  onCancel: () => void;
+}
+
+// Captures the interviewee's consent before the interview is streamed or recorded
+export const ConsentDialog: React.FC<Props> = ({ consent, requiredScopes, initialScopes, intervieweeName, onConfirm, onCancel }) => {
+  const [scopes, setScopes] = useState<ConsentScope[]>(initialScopes || consent?.scopes || []);
+  const [method, setMethod] = useState<ConsentRecord['method']>(consent?.method || 'verbal');
+  const [interviewee, setInterviewee] = useState(consent?.intervieweeName || intervieweeName || '');
+  const [recordedBy, setRecordedBy] = useState(consent?.recordedBy || getAuditActor());
+  const [note, setNote] = useState(consent?.note || '');
+
+  const missing = CONSENT_SCOPES.filter(s => requiredScopes.includes(s.scope) && !scopes.includes(s.scope));
+  const canConfirm = missing.length === 0 && recordedBy.trim() !== '';
+
+  const toggleScope = (scope: ConsentScope) => {
+    setScopes(prev => (prev.includes(scope) ? prev.filter(s => s !== scope) : [...prev, scope]));
+  };
+
+  const handleConfirm = () => {
+    if (!canConfirm) return;
+    if (!getAuditActor()) saveAuditActor(recordedBy);
+    onConfirm({
+      scopes: CONSENT_SCOPES.map(s => s.scope).filter(scope => scopes.includes(scope)),
+      method,
+      ...(interviewee.trim() ? { intervieweeName: interviewee.trim() } : {}),
+      recordedBy: recordedBy.trim(),
+      recordedAt: new Date(),
+      ...(note.trim() ? { note: note.trim() } : {}),
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[200] bg-slate-900/40 flex items-center justify-center p-6 no-print" onClick={onCancel}>
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-lg max-h-[85vh] flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+          <div>
+            <h2 className="font-semibold text-slate-800">Interviewee Consent</h2>
+            {consent && <p className="text-xs text-gray-500">Recorded {new Date(consent.recordedAt).toLocaleString()} by {consent.recordedBy}</p>}
+          </div>
+          <button onClick={onCancel} className="text-gray-400 hover:text-gray-600 text-sm font-medium">Cancel</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4 text-sm">
+          <p className="text-gray-600">Explain each item to the interviewee and tick only what they agree to.</p>
+
+          <div className="space-y-2">
+            {CONSENT_SCOPES.map(({ scope, label, description }) => (
+              <label key={scope} className="flex items-start gap-2 p-2 rounded border border-gray-200 cursor-pointer hover:bg-gray-50">
+                <input type="checkbox" checked={scopes.includes(scope)} onChange={() => toggleScope(scope)} className="mt-0.5 accent-ncss-purple" />
+                <span>
+                  <span className="font-medium text-slate-800">{label}</span>
+                  {requiredScopes.includes(scope) && <span className="ml-1 text-[10px] uppercase tracking-wide text-ncss-purple">Required</span>}
+                  <span className="block text-xs text-gray-500">{description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="space-y-1">
+              <span className="text-xs font-semibold text-gray-500 uppercase tracking-wide">Interviewee</span>
+              <input value={interviewee} onChange={e => setInterviewee(e.target.value)} placeholder="Name (optional)" className="w-full border border-gray-300 rounded px-2 py-1.5" />
+            </label>
+            <label className="space-y-1">
+              <span className="text-xs font-semibold text-gray-500 uppercase tracking-wide">Taken by</span>
+              <input value={recordedBy} onChange={e => setRecordedBy(e.target.value)} placeholder="Your name" className="w-full border border-gray-300 rounded px-2 py-1.5" />
+            </label>
+          </div>
+
+          <div className="flex items-center gap-4">
+            <span className="text-xs font-semibold text-gray-500 uppercase tracking-wide">Given</span>
+            {(['verbal', 'written'] as const).map(m => (
+              <label key={m} className="flex items-center gap-1.5 cursor-pointer">
+                <input type="radio" checked={method === m} onChange={() => setMethod(m)} className="accent-ncss-purple" />
+                {m === 'verbal' ? 'Verbally' : 'In writing'}
+              </label>
+            ))}
+          </div>
+
+          <input
+            value={note}
+            onChange={e => setNote(e.target.value)}
+            placeholder={method === 'written' ? 'Where the signed form is filed' : 'Note (optional)'}
+            className="w-full border border-gray-300 rounded px-2 py-1.5"
+          />
+
+          {missing.length > 0 && (
+            <p className="text-xs text-amber-700">Without {missing.map(s => s.label.toLowerCase()).join(' and ')} consent, this cannot go ahead.</p>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-100 flex justify-end gap-2">
+          <button onClick={onCancel} className="px-3 py-1.5 rounded border border-gray-300 text-gray-700 hover:bg-gray-50 text-sm">Cancel</button>
+          <button onClick={handleConfirm} disabled={!canConfirm} className="px-4 py-1.5 rounded bg-ncss-purple text-white hover:bg-purple-800 text-sm font-medium disabled:opacity-50">
+            Record Consent
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
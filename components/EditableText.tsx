@@ -0,0 +1,81 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+interface Props {
+  value: string;
+  onCommit: (value: string) => void;
+  placeholder?: string;
+  className?: string;
+  inputClassName?: string;
+  startEditing?: boolean;
+  onCancel?: () => void;
+}
+
+// Click-to-edit text used by the map editor. Enter or blur saves, Escape cancels.
+export const EditableText: React.FC<Props> = ({ value, onCommit, placeholder, className = '', inputClassName = '', startEditing = false, onCancel }) => {
+  const [isEditing, setIsEditing] = useState(startEditing);
+  const [draft, setDraft] = useState(value);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    if (!isEditing) setDraft(value);
+  }, [value, isEditing]);
+
+  useEffect(() => {
+    if (isEditing) {
+      inputRef.current?.focus();
+      inputRef.current?.select();
+    }
+  }, [isEditing]);
+
+  const commit = () => {
+    setIsEditing(false);
+    const next = draft.trim();
+    if (!next) {
+      onCancel?.();
+      return;
+    }
+    if (next !== value) onCommit(next);
+  };
+
+  const cancel = () => {
+    setDraft(value);
+    setIsEditing(false);
+    onCancel?.();
+  };
+
+  if (isEditing) {
+    return (
+      <textarea
+        ref={inputRef}
+        value={draft}
+        rows={Math.min(4, Math.max(1, Math.ceil(draft.length / 32)))}
+        placeholder={placeholder}
+        onChange={e => setDraft(e.target.value)}
+        onBlur={commit}
+        onClick={e => e.stopPropagation()}
+        onKeyDown={e => {
+          if (e.key === 'Enter' && !e.shiftKey) {
+            e.preventDefault();
+            commit();
+          } else if (e.key === 'Escape') {
+            cancel();
+          }
+        }}
+        className={`w-full resize-none border border-ncss-purple/40 rounded px-1.5 py-1 text-sm bg-white focus:outline-none focus:ring-2 focus:ring-ncss-purple/40 ${inputClassName}`}
+      />
+    );
+  }
+
+  return (
+    <span
+      onClick={e => {
+        e.stopPropagation();
+        setIsEditing(true);
+      }}
+      className={`cursor-text hover:bg-ncss-purple/5 rounded ${className}`}
+      title="Click to edit"
+    >
+      {value || <span className="text-gray-400 italic">{placeholder}</span>}
+    </span>
+  );
+};
@@ -0,0 +1,114 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { JourneyStage } from '../types';
+import { SENTIMENT_MAX, SENTIMENT_MIN, formatSentiment, stageSentimentScore } from '../services/journeyMap';
+
+interface Props {
+  stages: JourneyStage[];
+  gap: number; // Grid gap between stage columns in px, so points sit over column centres
+  lowestIndex: number;
+  onShowEvidence: (transcriptIds: string[]) => void;
+}
+
+export const CURVE_HEIGHT = 140;
+const PADDING = 18;
+
+export interface CurvePoint {
+  x: number;
+  y: number;
+  score: number;
+  index: number;
+}
+
+// Places one point over the centre of each stage column that has a score
+export const curvePoints = (stages: JourneyStage[], width: number, gap: number, height = CURVE_HEIGHT): CurvePoint[] => {
+  const columnWidth = (width - gap * (stages.length - 1)) / Math.max(1, stages.length);
+  const range = SENTIMENT_MAX - SENTIMENT_MIN;
+  return stages.flatMap((stage, index) => {
+    const score = stageSentimentScore(stage);
+    if (score === null) return [];
+    return [{
+      x: index * (columnWidth + gap) + columnWidth / 2,
+      y: PADDING + ((SENTIMENT_MAX - score) / range) * (height - PADDING * 2),
+      score,
+      index,
+    }];
+  });
+};
+
+export const zeroLineY = (height = CURVE_HEIGHT) =>
+  PADDING + (SENTIMENT_MAX / (SENTIMENT_MAX - SENTIMENT_MIN)) * (height - PADDING * 2);
+
+// Smooth path through the points using horizontal-tangent cubic segments
+export const curvePath = (points: CurvePoint[]): string =>
+  points.map((p, i) => {
+    if (i === 0) return `M ${p.x} ${p.y}`;
+    const prev = points[i - 1];
+    const midX = (prev.x + p.x) / 2;
+    return `C ${midX} ${prev.y}, ${midX} ${p.y}, ${p.x} ${p.y}`;
+  }).join(' ');
+
+export const scoreColor = (score: number) => (score <= -2 ? '#dc2626' : score >= 2 ? '#16a34a' : '#64748b');
+
+export const EmotionCurve: React.FC<Props> = ({ stages, gap, lowestIndex, onShowEvidence }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(0);
+
+  // The stage columns resize with the window, so measure rather than assume a width
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(entries => setWidth(entries[0].contentRect.width));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  const points = width > 0 ? curvePoints(stages, width, gap) : [];
+
+  return (
+    <div ref={containerRef} className="relative" style={{ height: CURVE_HEIGHT }}>
+      {points.length === 0 && width > 0 && (
+        <p className="absolute inset-0 flex items-center justify-center text-xs text-gray-400 italic">No sentiment scores yet. Regenerate the map to score each stage.</p>
+      )}
+      <svg width={width} height={CURVE_HEIGHT} className="overflow-visible">
+        <line x1={0} x2={width} y1={zeroLineY()} y2={zeroLineY()} stroke="#e5e7eb" strokeDasharray="4 4" />
+        <path d={curvePath(points)} fill="none" stroke="#5b2c83" strokeWidth={3} strokeLinecap="round" />
+        {points.map(point => {
+          const stage = stages[point.index];
+          const isLowest = point.index === lowestIndex && point.score < 0;
+          const tooltip = [
+            `${stage.name}: ${formatSentiment(point.score)}${stage.sentiment ? '' : ' (estimated from emoji)'}`,
+            stage.sentiment?.rationale,
+            stage.sentiment?.quote ? `"${stage.sentiment.quote}"` : undefined,
+          ].filter(Boolean).join('\n');
+          return (
+            <g
+              key={point.index}
+              onClick={() => onShowEvidence(stage.sentiment?.sourceIds || [])}
+              className={stage.sentiment?.sourceIds ? 'cursor-pointer' : 'cursor-help'}
+            >
+              <title>{tooltip}</title>
+              {isLowest && <circle cx={point.x} cy={point.y} r={14} fill="#dc2626" opacity={0.15} />}
+              <circle
+                cx={point.x}
+                cy={point.y}
+                r={7}
+                fill={scoreColor(point.score)}
+                stroke="white"
+                strokeWidth={2}
+                strokeDasharray={stage.sentiment?.basis === 'inferred' || !stage.sentiment ? '2 2' : undefined}
+              />
+              <text x={point.x} y={point.y - 12} textAnchor="middle" className="text-[11px] font-bold" fill={scoreColor(point.score)}>
+                {formatSentiment(point.score)}
+              </text>
+              {isLowest && (
+                <text x={point.x} y={point.y + 24} textAnchor="middle" className="text-[10px] font-bold uppercase tracking-wide" fill="#dc2626">
+                  Lowest point
+                </text>
+              )}
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+};
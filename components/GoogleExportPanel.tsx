@@ -0,0 +1,144 @@
+import React, { useEffect, useState } from 'react';
+import { JourneyMapData, Participant, TranscriptItem } from '../types';
+import {
+  GoogleFile,
+  ensureDriveFolder,
+  exportMapToSheets,
+  exportMapToSlides,
+  exportTranscriptToDoc,
+  isGoogleSignedIn,
+  prepareGoogleSignIn,
+  signOutGoogle,
+} from '../services/googleIntegration';
+
+type ExportKind = 'sheets' | 'slides' | 'doc';
+
+const EXPORT_LABELS: Record<ExportKind, string> = {
+  sheets: 'Google Sheets',
+  slides: 'Google Slides',
+  doc: 'Google Docs',
+};
+
+interface Props {
+  projectName?: string;
+  driveFolderId?: string;
+  onDriveFolderChange: (folderId: string) => void; // Saved on the project so later exports reuse the folder
+  sessionTitle?: string;
+  sessionDate?: Date;
+  map: JourneyMapData | null;
+  transcript: TranscriptItem[];
+  participants: Participant[];
+  onExported: (description: string) => void; // For the audit log
+  onClose: () => void;
+}
+
+export const GoogleExportPanel: React.FC<Props> = ({ projectName, driveFolderId, onDriveFolderChange, sessionTitle, sessionDate, map, transcript, participants, onExported, onClose }) => {
+  const [busy, setBusy] = useState<ExportKind | null>(null);
+  const [files, setFiles] = useState<(GoogleFile & { kind: ExportKind })[]>([]);
+  const [signedIn, setSignedIn] = useState(isGoogleSignedIn());
+
+  useEffect(() => {
+    prepareGoogleSignIn().catch(e => console.error("Failed to load Google sign-in:", e));
+  }, []);
+
+  const title = sessionTitle || 'Interview';
+
+  const runExport = async (kind: ExportKind, exporter: (folderId: string) => Promise<GoogleFile>, description: string) => {
+    setBusy(kind);
+    try {
+      const folderId = await ensureDriveFolder(`AIMS - ${projectName || 'Journey Maps'}`, driveFolderId);
+      if (folderId !== driveFolderId) onDriveFolderChange(folderId);
+      const file = await exporter(folderId);
+      setFiles(prev => [{ ...file, kind }, ...prev]);
+      onExported(description);
+    } catch (e: any) {
+      console.error("Google export failed:", e);
+      alert(`Failed to export to ${EXPORT_LABELS[kind]}: ${e.message || "Unknown error"}`);
+    } finally {
+      setBusy(null);
+      setSignedIn(isGoogleSignedIn());
+    }
+  };
+
+  const handleSignOut = () => {
+    signOutGoogle();
+    setSignedIn(false);
+  };
+
+  const exports: { kind: ExportKind; label: string; description: string; disabled: boolean; run: () => void }[] = [
+    {
+      kind: 'sheets',
+      label: 'Map to Sheets',
+      description: 'One row per item in every stage and lane, for filtering and pivoting',
+      disabled: !map,
+      run: () => map && runExport('sheets', folderId => exportMapToSheets(map, folderId), `Exported the map of "${title}" to Google Sheets`),
+    },
+    {
+      kind: 'slides',
+      label: 'Map to Slides',
+      description: 'An overview slide, then one slide per stage',
+      disabled: !map,
+      run: () => map && runExport('slides', folderId => exportMapToSlides(map, folderId), `Exported the map of "${title}" to Google Slides`),
+    },
+    {
+      kind: 'doc',
+      label: 'Transcript to Docs',
+      description: 'The full transcript with speaker names, and translations where there are any',
+      disabled: transcript.length === 0,
+      run: () => runExport('doc', folderId => exportTranscriptToDoc({ title, transcript, participants, date: sessionDate }, folderId), `Exported the transcript of "${title}" to Google Docs`),
+    },
+  ];
+
+  return (
+    <div className="fixed inset-0 z-[200] bg-slate-900/40 flex items-center justify-center p-6 no-print" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-lg max-h-[85vh] flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+          <div>
+            <h2 className="font-semibold text-slate-800">Export to Google Workspace</h2>
+            <p className="text-xs text-gray-500">Saved to the "AIMS - {projectName || 'Journey Maps'}" folder in your Drive</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-sm font-medium">Close</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3 text-sm">
+          {exports.map(item => (
+            <div key={item.kind} className="flex items-center justify-between gap-3 p-3 rounded border border-gray-200">
+              <div>
+                <div className="font-medium text-slate-800">{item.label}</div>
+                <div className="text-xs text-gray-500">{item.description}</div>
+              </div>
+              <button
+                onClick={item.run}
+                disabled={item.disabled || busy !== null}
+                className="px-3 py-1.5 rounded bg-ncss-teal text-white hover:bg-teal-700 text-xs font-bold disabled:opacity-50 shrink-0"
+              >
+                {busy === item.kind ? 'Exporting...' : 'Export'}
+              </button>
+            </div>
+          ))}
+
+          {files.length > 0 && (
+            <ul className="space-y-1">
+              {files.map(file => (
+                <li key={file.id} className="text-xs">
+                  <span className="text-gray-500">{EXPORT_LABELS[file.kind]}:</span>{' '}
+                  <a href={file.url} target="_blank" rel="noopener noreferrer" className="text-ncss-purple hover:underline">{file.name}</a>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <p className="text-xs text-amber-700">
+            Copies in Google Drive are not covered by the project's retention policy. Delete them there when they are no longer needed.
+          </p>
+        </div>
+
+        {signedIn && (
+          <div className="p-4 border-t border-gray-100 flex justify-end">
+            <button onClick={handleSignOut} className="text-xs text-gray-500 hover:text-red-600 underline">Sign out of Google</button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { GuideCoverage, InterviewGuide } from '../types';
+import { guideEntries, hasGuideItems, stageCoverage } from '../services/interviewGuide';
+
+interface Props {
+  guide?: InterviewGuide;
+  coverage: GuideCoverage;
+  isChecking: boolean;
+  onToggleItem: (itemId: string) => void;
+  onShowEvidence: (ids: string[]) => void;
+  onEdit: () => void;
+  onReport: () => void;
+}
+
+export const GuideCoveragePanel: React.FC<Props> = ({ guide, coverage, isChecking, onToggleItem, onShowEvidence, onEdit, onReport }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  if (!guide || !hasGuideItems(guide)) {
+    return (
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 px-4 py-3 shrink-0 flex items-center justify-between text-sm">
+        <span className="text-gray-500">No interview guide for this project.</span>
+        <button onClick={onEdit} className="text-xs font-medium text-ncss-purple hover:underline">Create Guide</button>
+      </div>
+    );
+  }
+
+  const entries = guideEntries(guide);
+  const coveredCount = entries.filter(e => coverage.items[e.item.id]?.status === 'covered').length;
+  const stages = stageCoverage(guide, coverage);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 shrink-0 text-sm">
+      <div className="px-4 py-3 flex items-center gap-2">
+        <button onClick={() => setIsExpanded(!isExpanded)} className="font-semibold text-slate-800 flex items-center gap-2 flex-1 text-left">
+          <span className="text-xs text-gray-400">{isExpanded ? '▼' : '▶'}</span>
+          Interview Guide
+          <span className="text-xs font-normal text-gray-500">{coveredCount}/{entries.length} covered</span>
+          {isChecking && <span className="text-xs font-normal text-gray-400 animate-pulse">checking...</span>}
+        </button>
+        <button onClick={onReport} className="text-xs font-medium text-gray-600 hover:text-slate-800">Report</button>
+        <button onClick={onEdit} className="text-xs font-medium text-ncss-purple hover:underline">Edit</button>
+      </div>
+
+      {stages.length > 0 && (
+        <div className="px-4 pb-3 flex flex-wrap gap-1">
+          {stages.map(({ stage, covered, total }) => (
+            <span
+              key={stage}
+              className={`text-[11px] px-2 py-0.5 rounded-full border ${covered === total ? 'bg-green-50 border-green-200 text-green-700' : covered > 0 ? 'bg-amber-50 border-amber-200 text-amber-700' : 'bg-gray-50 border-gray-200 text-gray-500'}`}
+              title={`${covered} of ${total} guide items covered`}
+            >
+              {covered === total ? '✓ ' : ''}{stage} {covered}/{total}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {isExpanded && (
+        <div className="border-t border-gray-100 max-h-56 overflow-y-auto px-4 py-2 space-y-3">
+          {guide.sections.filter(section => section.items.length > 0).map(section => (
+            <div key={section.id}>
+              <h4 className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-1">{section.title || section.stage || 'Untitled'}</h4>
+              <ul className="space-y-0.5">
+                {section.items.map(item => {
+                  const status = coverage.items[item.id];
+                  return (
+                    <li key={item.id} className="flex items-start gap-2 text-xs">
+                      <button
+                        onClick={() => onToggleItem(item.id)}
+                        className={`shrink-0 w-4 text-center ${status?.status === 'covered' ? 'text-green-600' : status?.status === 'partial' ? 'text-amber-500' : 'text-gray-300 hover:text-gray-500'}`}
+                        title={status?.status === 'covered' ? 'Covered. Click to mark as not covered' : 'Mark as covered'}
+                      >
+                        {status?.status === 'covered' ? '✓' : status?.status === 'partial' ? '◐' : '○'}
+                      </button>
+                      <span className={`flex-1 ${status?.status === 'covered' ? 'text-gray-400' : 'text-gray-700'}`}>
+                        {item.kind === 'topic' && <span className="text-amber-700 font-medium">Must cover: </span>}
+                        {item.text}
+                      </span>
+                      {status?.sourceIds && status.sourceIds.length > 0 && (
+                        <button onClick={() => onShowEvidence(status.sourceIds!)} className="shrink-0 text-gray-400 hover:text-ncss-purple" title="Show where it was addressed in the transcript">
+                          ↗
+                        </button>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { GuideItem, GuideItemKind, GuideSection, InterviewGuide } from '../types';
+import { cleanGuide, guideFromStages, newGuideId } from '../services/interviewGuide';
+
+interface Props {
+  guide: InterviewGuide;
+  stages: string[]; // From the project's journey template
+  onSave: (guide: InterviewGuide) => void;
+  onClose: () => void;
+}
+
+const KIND_LABELS: Record<GuideItemKind, string> = {
+  question: 'Question',
+  topic: 'Must cover',
+};
+
+const moveInList = <T,>(list: T[], from: number, to: number): T[] => {
+  if (to < 0 || to >= list.length) return list;
+  const next = [...list];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+};
+
+export const GuideEditor: React.FC<Props> = ({ guide, stages, onSave, onClose }) => {
+  const [draft, setDraft] = useState<InterviewGuide>(guide);
+  const [isDirty, setIsDirty] = useState(false);
+
+  const update = (sections: GuideSection[]) => {
+    setDraft({ sections });
+    setIsDirty(true);
+  };
+
+  const updateSection = (index: number, changes: Partial<GuideSection>) =>
+    update(draft.sections.map((section, i) => (i === index ? { ...section, ...changes } : section)));
+
+  const updateItem = (sectionIndex: number, itemIndex: number, changes: Partial<GuideItem>) =>
+    updateSection(sectionIndex, { items: draft.sections[sectionIndex].items.map((item, j) => (j === itemIndex ? { ...item, ...changes } : item)) });
+
+  const handleAddSection = () =>
+    update([...draft.sections, { id: newGuideId('section'), title: '', items: [] }]);
+
+  const handleAddItem = (sectionIndex: number, kind: GuideItemKind) =>
+    updateSection(sectionIndex, { items: [...draft.sections[sectionIndex].items, { id: newGuideId('item'), kind, text: '' }] });
+
+  const handleRemoveSection = (index: number) => {
+    const section = draft.sections[index];
+    if (section.items.length > 0 && !confirm(`Remove the "${section.title || 'Untitled'}" section and its ${section.items.length} items?`)) return;
+    update(draft.sections.filter((_, i) => i !== index));
+  };
+
+  const handleStartFromStages = () => update(guideFromStages(stages).sections);
+
+  const handleClose = () => {
+    if (isDirty && !confirm("Discard unsaved changes to the interview guide?")) return;
+    onClose();
+  };
+
+  const itemCount = draft.sections.reduce((sum, section) => sum + section.items.length, 0);
+
+  return (
+    <div className="fixed inset-0 z-[200] bg-slate-900/40 flex items-center justify-center p-6 no-print" onClick={handleClose}>
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-3xl max-h-[85vh] flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+          <div>
+            <h2 className="font-semibold text-slate-800">Interview Guide</h2>
+            <p className="text-xs text-gray-500">Used for every interview in this project. Must-cover topics are tracked during the session.</p>
+          </div>
+          <button onClick={handleClose} className="text-gray-400 hover:text-gray-600 text-sm font-medium">Close</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4 text-sm">
+          {draft.sections.length === 0 && (
+            <div className="text-center text-gray-400 italic py-6 space-y-3">
+              <p>No sections yet.</p>
+              {stages.length > 0 && (
+                <button onClick={handleStartFromStages} className="not-italic px-3 py-1.5 rounded border border-gray-300 text-gray-700 hover:bg-gray-50">
+                  Start with one section per journey stage
+                </button>
+              )}
+            </div>
+          )}
+
+          {draft.sections.map((section, i) => (
+            <section key={section.id} className="border border-gray-100 rounded-lg p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={section.title}
+                  onChange={e => updateSection(i, { title: e.target.value })}
+                  placeholder="Section title (e.g., 'Applying for help')"
+                  className="flex-1 font-medium border border-gray-200 rounded px-2 py-1"
+                />
+                <select
+                  value={section.stage || ''}
+                  onChange={e => updateSection(i, { stage: e.target.value || undefined })}
+                  className="text-xs border border-gray-200 rounded px-1 py-1 bg-white max-w-[10rem]"
+                  title="Journey stage this section explores"
+                >
+                  <option value="">No stage</option>
+                  {stages.map(stage => <option key={stage} value={stage}>{stage}</option>)}
+                  {section.stage && !stages.includes(section.stage) && <option value={section.stage}>{section.stage} (not in template)</option>}
+                </select>
+                <div className="flex gap-0.5 text-xs">
+                  <button onClick={() => update(moveInList(draft.sections, i, i - 1))} disabled={i === 0} className="px-1 text-gray-400 hover:text-slate-800 disabled:opacity-30" title="Move up">▲</button>
+                  <button onClick={() => update(moveInList(draft.sections, i, i + 1))} disabled={i === draft.sections.length - 1} className="px-1 text-gray-400 hover:text-slate-800 disabled:opacity-30" title="Move down">▼</button>
+                  <button onClick={() => handleRemoveSection(i)} className="px-1 text-gray-300 hover:text-red-500" title="Remove section">✕</button>
+                </div>
+              </div>
+
+              <ol className="space-y-1 pl-2">
+                {section.items.map((item, j) => (
+                  <li key={item.id} className="flex items-center gap-2">
+                    <select
+                      value={item.kind}
+                      onChange={e => updateItem(i, j, { kind: e.target.value as GuideItemKind })}
+                      className={`text-xs border rounded px-1 py-1 bg-white ${item.kind === 'topic' ? 'border-amber-300 text-amber-700' : 'border-gray-200'}`}
+                    >
+                      {Object.entries(KIND_LABELS).map(([kind, label]) => <option key={kind} value={kind}>{label}</option>)}
+                    </select>
+                    <input
+                      type="text"
+                      value={item.text}
+                      onChange={e => updateItem(i, j, { text: e.target.value })}
+                      placeholder={item.kind === 'topic' ? "Topic, e.g. 'How they first heard of the scheme'" : 'Question to ask'}
+                      className="flex-1 border border-gray-200 rounded px-2 py-1"
+                    />
+                    <div className="flex gap-0.5 text-xs">
+                      <button onClick={() => updateSection(i, { items: moveInList(section.items, j, j - 1) })} disabled={j === 0} className="px-1 text-gray-400 hover:text-slate-800 disabled:opacity-30" title="Move up">▲</button>
+                      <button onClick={() => updateSection(i, { items: moveInList(section.items, j, j + 1) })} disabled={j === section.items.length - 1} className="px-1 text-gray-400 hover:text-slate-800 disabled:opacity-30" title="Move down">▼</button>
+                      <button onClick={() => updateSection(i, { items: section.items.filter((_, k) => k !== j) })} className="px-1 text-gray-300 hover:text-red-500" title="Remove">✕</button>
+                    </div>
+                  </li>
+                ))}
+              </ol>
+              <div className="flex gap-2 pl-2 text-xs">
+                <button onClick={() => handleAddItem(i, 'question')} className="px-2 py-0.5 rounded border border-dashed border-gray-300 text-gray-500 hover:text-ncss-purple">+ Question</button>
+                <button onClick={() => handleAddItem(i, 'topic')} className="px-2 py-0.5 rounded border border-dashed border-amber-300 text-amber-700 hover:bg-amber-50">+ Must-cover topic</button>
+              </div>
+            </section>
+          ))}
+
+          <button onClick={handleAddSection} className="px-3 py-1 rounded border border-gray-300 text-gray-700 hover:bg-gray-50">+ Section</button>
+        </div>
+
+        <div className="p-4 border-t border-gray-100 flex justify-between items-center gap-2">
+          <span className="text-xs text-gray-500">{draft.sections.length} sections • {itemCount} items</span>
+          <button
+            onClick={() => onSave(cleanGuide(draft))}
+            disabled={!isDirty}
+            className="px-4 py-2 rounded-lg text-sm font-medium bg-slate-800 text-white hover:bg-slate-700 disabled:opacity-50"
+          >
+            Save Guide
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+import React from 'react';
+import { GuideCoverage, InterviewGuide } from '../types';
+import { GuideEntry, guideEntries } from '../services/interviewGuide';
+
+interface Props {
+  guide: InterviewGuide;
+  coverage: GuideCoverage;
+  sessionTitle?: string;
+  onClose: () => void;
+}
+
+const groupBySection = (entries: GuideEntry[]) => {
+  const groups = new Map<string, GuideEntry[]>();
+  entries.forEach(entry => groups.set(entry.section.id, [...(groups.get(entry.section.id) || []), entry]));
+  return Array.from(groups.values());
+};
+
+// End-of-interview summary of the guide items that were never (or only partly) addressed
+export const GuideReport: React.FC<Props> = ({ guide, coverage, sessionTitle, onClose }) => {
+  const entries = guideEntries(guide);
+  const missed = entries.filter(e => !coverage.items[e.item.id]);
+  const partial = entries.filter(e => coverage.items[e.item.id]?.status === 'partial');
+  const coveredCount = entries.length - missed.length - partial.length;
+
+  const renderGroups = (list: GuideEntry[]) => groupBySection(list).map(group => (
+    <div key={group[0].section.id}>
+      <h4 className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-1">{group[0].section.title || group[0].section.stage || 'Untitled'}</h4>
+      <ul className="space-y-1 mb-3">
+        {group.map(({ item }) => (
+          <li key={item.id} className="text-sm text-gray-700">
+            {item.kind === 'topic' && <span className="text-amber-700 font-medium">Must cover: </span>}
+            {item.text}
+          </li>
+        ))}
+      </ul>
+    </div>
+  ));
+
+  return (
+    <div className="fixed inset-0 z-[200] bg-slate-900/40 flex items-center justify-center p-6 no-print" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-xl max-h-[85vh] flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+          <div>
+            <h2 className="font-semibold text-slate-800">Guide Coverage Report</h2>
+            {sessionTitle && <p className="text-xs text-gray-500">{sessionTitle}</p>}
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-sm font-medium">Close</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          <div className="flex gap-3 text-center text-xs">
+            <div className="flex-1 rounded-lg bg-green-50 text-green-700 p-2"><div className="text-lg font-bold">{coveredCount}</div>covered</div>
+            <div className="flex-1 rounded-lg bg-amber-50 text-amber-700 p-2"><div className="text-lg font-bold">{partial.length}</div>touched on</div>
+            <div className="flex-1 rounded-lg bg-red-50 text-red-700 p-2"><div className="text-lg font-bold">{missed.length}</div>never addressed</div>
+          </div>
+
+          {missed.length === 0 && partial.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center italic">Every item in the guide was covered.</p>
+          ) : (
+            <>
+              {missed.length > 0 && (
+                <section>
+                  <h3 className="font-semibold text-sm text-red-700 mb-2">Never addressed</h3>
+                  {renderGroups(missed)}
+                </section>
+              )}
+              {partial.length > 0 && (
+                <section>
+                  <h3 className="font-semibold text-sm text-amber-700 mb-2">Only touched on</h3>
+                  {renderGroups(partial)}
+                </section>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,29 @@
 import React from 'react';
+import { SaveStatus } from '../types';
 
-export const Header: React.FC = () => {
+interface Props {
+  projectName?: string;
+  sessionTitle?: string;
+  saveStatus: SaveStatus;
+  onOpenProjects: () => void;
+  onRenameSession: () => void;
+  redactionEnabled: boolean;
+  isDemoProvider: boolean;
+  onOpenPrivacy: () => void;
+  userName: string; // Recorded in the audit log
+  onChangeUserName: () => void;
+  onOpenAuditLog: () => void;
+}
+
+const SAVE_STATUS_LABELS: Record<SaveStatus, string> = {
+  idle: '',
+  saving: 'Saving...',
+  saved: 'All changes saved',
+  error: 'Save failed',
+};
+
+export const Header: React.FC<Props> = ({ projectName, sessionTitle, saveStatus, onOpenProjects, onRenameSession, redactionEnabled, isDemoProvider, onOpenPrivacy, userName, onChangeUserName, onOpenAuditLog }) => {
+  const initials = userName.split(/\s+/).filter(Boolean).slice(0, 2).map(w => w[0].toUpperCase()).join('') || '?';
   return (
     <header className="bg-white border-b border-gray-200 h-16 flex items-center px-6 justify-between shrink-0 no-print">
       <div className="flex items-center space-x-3">
@@ -12,15 +35,57 @@ export const Header: React.FC = () => {
           <p className="text-xs text-gray-500 uppercase tracking-wider">Social Service Digital Unit</p>
         </div>
       </div>
+
+      <div className="flex items-center gap-3 text-sm">
+        <button
+          onClick={onOpenProjects}
+          className="px-3 py-1.5 rounded-md border border-gray-200 text-gray-700 hover:bg-gray-50 font-medium"
+        >
+          Projects
+        </button>
+        <button
+          onClick={onOpenPrivacy}
+          className={`px-3 py-1.5 rounded-md border font-medium ${redactionEnabled ? 'border-green-200 text-green-700 hover:bg-green-50' : 'border-red-200 text-red-600 hover:bg-red-50'}`}
+          title={redactionEnabled ? 'Personal data is redacted before it is sent to the AI' : 'Redaction is off: transcripts are sent to the AI as they are'}
+        >
+          {redactionEnabled ? 'Redaction On' : 'Redaction Off'}
+        </button>
+        <button
+          onClick={onOpenAuditLog}
+          className="px-3 py-1.5 rounded-md border border-gray-200 text-gray-700 hover:bg-gray-50 font-medium"
+          title="Who generated, refined, exported or deleted what, and when"
+        >
+          Audit Log
+        </button>
+        {isDemoProvider && (
+          <button onClick={onOpenPrivacy} className="text-[10px] uppercase tracking-wide bg-amber-100 text-amber-700 px-1.5 py-0.5 rounded font-bold" title="The offline demo provider returns sample data">
+            Demo data
+          </button>
+        )}
+        {sessionTitle && (
+          <button onClick={onRenameSession} className="text-left" title="Rename interview">
+            <div className="text-xs text-gray-500">{projectName}</div>
+            <div className="font-semibold text-slate-800 leading-tight">{sessionTitle}</div>
+          </button>
+        )}
+        <span className={`text-xs ${saveStatus === 'error' ? 'text-red-600' : 'text-gray-400'}`}>
+          {SAVE_STATUS_LABELS[saveStatus]}
+        </span>
+      </div>
+
       <div className="flex items-center space-x-4">
         <div className="flex -space-x-2 overflow-hidden">
           <img className="inline-block h-8 w-8 rounded-full ring-2 ring-white" src="https://picsum.photos/32/32?random=1" alt="PM" />
           <img className="inline-block h-8 w-8 rounded-full ring-2 ring-white" src="https://picsum.photos/32/32?random=2" alt="Social Worker" />
         </div>
-        <div className="h-8 w-8 rounded-full bg-ncss-red text-white flex items-center justify-center font-bold" title="Logged in as JD">
-          JD
-        </div>
+        <button
+          onClick={onChangeUserName}
+          className="h-8 w-8 rounded-full bg-ncss-red text-white flex items-center justify-center font-bold"
+          title={userName ? `Recorded in the audit log as ${userName}. Click to change.` : 'Set your name for the audit log'}
+        >
+          {initials}
+        </button>
       </div>
     </header>
   );
-};
\ No newline at end of file
+};
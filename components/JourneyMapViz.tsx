@@ -1,22 +1,406 @@
-import React, { useState } from 'react';
-import { JourneyMapData } from '../types';
-import { generateTouchpointImage } from '../services/geminiService';
+import React, { useEffect, useState } from 'react';
+import { AnalysisProgress, JourneyItem, JourneyMapData, JourneyStage, LaneDefinition, LanguageCode } from '../types';
+import { generateTouchpointImage, translateTexts } from '../services/geminiService';
+import { languageLabel } from '../services/languages';
+import {
+  EMOTION_OPTIONS,
+  ItemLaneKey,
+  addItem,
+  addStage,
+  SENTIMENT_MAX,
+  SENTIMENT_MIN,
+  blueprintLineBefore,
+  countStageItems,
+  formatSentiment,
+  getLaneItems,
+  itemTexts,
+  lowestStageIndex,
+  mapLanes,
+  mentionCount,
+  moveItem,
+  moveStage,
+  removeItem,
+  removeStage,
+  renameStage,
+  setMapTitle,
+  setStageEmotion,
+  setStageSentimentScore,
+  stageSentimentScore,
+  updateItemText,
+} from '../services/journeyMap';
+import { liveItemKey } from '../services/liveMap';
+import { EditableText } from './EditableText';
+import { CURVE_HEIGHT, EmotionCurve, curvePath, curvePoints, scoreColor, zeroLineY } from './EmotionCurve';
 
 interface Props {
   data: JourneyMapData | null;
   isLoading: boolean;
+  images: Record<string, string>;
+  onImagesChange: React.Dispatch<React.SetStateAction<Record<string, string>>>;
+  onShowEvidence: (transcriptIds: string[]) => void;
+  onMapChange: (map: JourneyMapData) => void;
+  isLive?: boolean; // The map is being built while the interview runs
+  newItemKeys?: string[]; // Items the latest live update added, animated in
+  progress?: AnalysisProgress | null; // Set while a transcript is analysed
+  onCancel?: () => void;
+  secondLanguage?: LanguageCode | null; // Offered as the second language of a bilingual report
+  onExport?: (description: string) => void; // For the audit log, e.g. "Downloaded the report"
+  onOpenGoogleExport?: () => void; // Only set when Google Workspace export is configured
+  aiAllowed?: boolean; // False when the interviewee did not consent to AI analysis
 }
 
-export const JourneyMapViz: React.FC<Props> = ({ data, isLoading }) => {
-  const [images, setImages] = useState<Record<string, string>>({});
+const DRAG_MIME = 'application/x-journey-item';
+
+// Kept in px rather than a Tailwind class so the emotion curve can line up with the columns
+const GRID_GAP_PX = 16;
+
+interface DraggedItem {
+  stageIndex: number;
+  lane: ItemLaneKey;
+  itemIndex: number;
+}
+
+// Shows "3/5" on synthesized maps: how many of the interviews mentioned an item
+const MentionBadge: React.FC<{ item: JourneyItem; total: number }> = ({ item, total }) => {
+  if (!total || !item.participants) return null;
+  return (
+    <span
+      className="ml-auto shrink-0 text-[10px] font-bold bg-ncss-purple/10 text-ncss-purple px-1.5 py-0.5 rounded-full cursor-help"
+      title={`Mentioned by: ${item.participants.join(', ') || 'no participant'}`}
+    >
+      {mentionCount(item)}/{total}
+    </span>
+  );
+};
+
+// Marks where an item came from: a quote from the transcript or the model's inference
+const EvidenceTag: React.FC<{ item: JourneyItem }> = ({ item }) => {
+  if (item.basis === 'evidenced') {
+    return (
+      <span className="shrink-0 text-[10px] font-bold text-ncss-teal cursor-help" title={`"${item.quote}"`}>
+        ❝
+      </span>
+    );
+  }
+  if (item.basis === 'inferred') {
+    return (
+      <span className="shrink-0 text-[10px] uppercase tracking-wide text-amber-700 bg-amber-50 border border-amber-200 px-1 rounded cursor-help" title="Inferred by the AI; not directly stated in the transcript">
+        Inferred
+      </span>
+    );
+  }
+  return null;
+};
+
+// Item lanes are styled by tone: neutral notes, negative problems, positive ideas
+const TONE_STYLES: Record<NonNullable<LaneDefinition['tone']>, { header: string; cell: string; item: string; icon?: string; iconClass?: string; exportCell: string; exportIcon?: string }> = {
+  neutral: {
+    header: '',
+    cell: 'p-4 bg-white rounded-lg shadow-sm border border-gray-100 space-y-2',
+    item: 'bg-gray-50 rounded border border-gray-100',
+    exportCell: 'bg-gray-50 border-gray-100',
+  },
+  negative: {
+    header: 'text-ncss-red',
+    cell: 'p-4 rounded-lg space-y-2',
+    item: 'bg-red-50 rounded-md border border-red-100',
+    icon: '⚠️',
+    iconClass: 'text-red-500',
+    exportCell: 'bg-red-50 border-red-100',
+    exportIcon: '<span class="text-red-500 shrink-0">⚠️</span>',
+  },
+  positive: {
+    header: 'text-green-600',
+    cell: 'p-4 rounded-lg space-y-2',
+    item: 'bg-green-50 rounded-md border border-green-100',
+    icon: '💡',
+    iconClass: 'text-green-500',
+    exportCell: 'bg-green-50 border-green-100',
+    exportIcon: '<span class="text-green-600 shrink-0">💡</span>',
+  },
+};
+
+// Row heights in the downloaded report, so headers line up with the stage columns
+const EXPORT_HEIGHTS: Record<LaneDefinition['kind'], string> = { items: 'h-32', touchpoints: 'h-48', emotion: 'h-24' };
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const JourneyMapViz: React.FC<Props> = ({ data, isLoading, images, onImagesChange, onShowEvidence, onMapChange, isLive = false, newItemKeys = [], progress, onCancel, secondLanguage, onExport, onOpenGoogleExport, aiAllowed = true }) => {
   const [loadingImage, setLoadingImage] = useState<string | null>(null);
+  const [isTranslatingReport, setIsTranslatingReport] = useState(false);
+  const [selectedItemKey, setSelectedItemKey] = useState<string | null>(null);
+
+  // Inline editing state
+  const [isEditing, setIsEditing] = useState(false);
+  const [addingToCell, setAddingToCell] = useState<string | null>(null); // `${stageIndex}:${lane}`
+  const [dropTargetCell, setDropTargetCell] = useState<string | null>(null);
+
+  // Item keys are positional, so a new or refined map invalidates the selection
+  useEffect(() => {
+    setSelectedItemKey(null);
+    onShowEvidence([]);
+  }, [data, onShowEvidence]);
+
+  // Clicking an item highlights its supporting lines in the transcript; clicking again clears it
+  const handleSelectItem = (key: string, item: JourneyItem) => {
+    if (selectedItemKey === key) {
+      setSelectedItemKey(null);
+      onShowEvidence([]);
+      return;
+    }
+    setSelectedItemKey(key);
+    onShowEvidence(item.sourceIds || []);
+  };
+
+  const itemSelectionProps = (stageIndex: number, lane: ItemLaneKey, idx: number, item: JourneyItem) => {
+    const key = `${stageIndex}:${lane}:${idx}`;
+    return {
+      onClick: () => { if (!isEditing) handleSelectItem(key, item); },
+      title: item.quote ? `"${item.quote}"` : undefined,
+      selectedClass: selectedItemKey === key ? 'ring-2 ring-ncss-teal' : '',
+      dashedClass: item.basis === 'inferred' ? 'border-dashed' : '',
+    };
+  };
+
+  // --- Editing Handlers ---
+
+  const handleRenameStage = (stageIndex: number, name: string) => {
+    if (!data) return;
+    const oldName = data.stages[stageIndex].name;
+    onMapChange(renameStage(data, stageIndex, name));
+    // Images are keyed by stage name, so carry the visualization over
+    if (images[oldName]) {
+      onImagesChange(prev => {
+        const { [oldName]: image, ...rest } = prev;
+        return { ...rest, [name]: image };
+      });
+    }
+  };
+
+  const handleRemoveStage = (stageIndex: number) => {
+    if (!data) return;
+    const stage = data.stages[stageIndex];
+    const itemCount = countStageItems(data, stage);
+    if (itemCount > 0 && !confirm(`Remove the "${stage.name}" stage and its ${itemCount} items?`)) return;
+    onMapChange(removeStage(data, stageIndex));
+  };
+
+  const handleAddStage = () => {
+    if (!data) return;
+    onMapChange(addStage(data, `New Stage ${data.stages.length + 1}`));
+  };
+
+  const handleDragStart = (e: React.DragEvent, dragged: DraggedItem) => {
+    e.dataTransfer.setData(DRAG_MIME, JSON.stringify(dragged));
+    e.dataTransfer.effectAllowed = 'move';
+  };
+
+  const cellDropProps = (stageIndex: number, lane: ItemLaneKey) => {
+    const cellKey = `${stageIndex}:${lane}`;
+    if (!isEditing) return { dropClass: '' };
+    return {
+      onDragOver: (e: React.DragEvent) => {
+        if (!e.dataTransfer.types.includes(DRAG_MIME)) return;
+        e.preventDefault();
+        setDropTargetCell(cellKey);
+      },
+      onDragLeave: () => setDropTargetCell(prev => (prev === cellKey ? null : prev)),
+      onDrop: (e: React.DragEvent) => {
+        e.preventDefault();
+        setDropTargetCell(null);
+        const raw = e.dataTransfer.getData(DRAG_MIME);
+        if (!raw || !data) return;
+        const from: DraggedItem = JSON.parse(raw);
+        onMapChange(moveItem(data, from, { stageIndex, lane }));
+      },
+      dropClass: dropTargetCell === cellKey ? 'ring-2 ring-ncss-purple/40 bg-ncss-purple/5' : '',
+    };
+  };
+
+  // Item text plus, in edit mode, the delete control. Dragging is handled by the item wrapper.
+  const renderItemContent = (stageIndex: number, lane: ItemLaneKey, idx: number, item: JourneyItem) => {
+    if (!isEditing || !data) return <span>{item.text}</span>;
+    return (
+      <>
+        <EditableText
+          value={item.text}
+          className="flex-1"
+          onCommit={text => onMapChange(updateItemText(data, stageIndex, lane, idx, text))}
+        />
+        <button
+          type="button"
+          onClick={e => { e.stopPropagation(); onMapChange(removeItem(data, stageIndex, lane, idx)); }}
+          className="shrink-0 text-gray-300 hover:text-red-500 text-xs no-print"
+          title="Delete item"
+        >
+          ✕
+        </button>
+      </>
+    );
+  };
+
+  const itemDragProps = (stageIndex: number, lane: ItemLaneKey, itemIndex: number) =>
+    isEditing ? { draggable: true, onDragStart: (e: React.DragEvent) => handleDragStart(e, { stageIndex, lane, itemIndex }) } : {};
+
+  const renderAddItem = (stageIndex: number, lane: ItemLaneKey) => {
+    if (!isEditing || !data) return null;
+    const cellKey = `${stageIndex}:${lane}`;
+    if (addingToCell === cellKey) {
+      return (
+        <EditableText
+          value=""
+          startEditing
+          placeholder="New item..."
+          onCommit={text => {
+            onMapChange(addItem(data, stageIndex, lane, text));
+            setAddingToCell(null);
+          }}
+          onCancel={() => setAddingToCell(null)}
+        />
+      );
+    }
+    return (
+      <button
+        type="button"
+        onClick={() => setAddingToCell(cellKey)}
+        className="w-full text-xs text-gray-400 hover:text-ncss-purple border border-dashed border-gray-200 hover:border-ncss-purple/40 rounded py-1 no-print"
+      >
+        + Add
+      </button>
+    );
+  };
+
+  const newItemClass = (stage: JourneyStage, lane: ItemLaneKey, item: JourneyItem) =>
+    newItemKeys.includes(liveItemKey(stage.name, lane, item.text)) ? 'map-item-new' : '';
+
+  // While the map is built live, empty cells show which lanes the conversation has not reached
+  const renderEmptyHint = (items: JourneyItem[]) =>
+    isLive && !isEditing && items.length === 0 ? <p className="text-xs text-gray-400 italic no-print">Nothing yet</p> : null;
+
+  // --- Lane Cells ---
+
+  const renderItemLaneCell = (lane: LaneDefinition, stage: JourneyStage, i: number) => {
+    const drop = cellDropProps(i, lane.key);
+    const tone = TONE_STYLES[lane.tone || 'neutral'];
+    return (
+      <div key={i} {...drop} className={`${tone.cell} ${drop.dropClass}`}>
+        {getLaneItems(stage, lane.key).map((item, idx) => {
+          const sel = itemSelectionProps(i, lane.key, idx, item);
+          return (
+            <div key={idx} {...itemDragProps(i, lane.key, idx)} onClick={sel.onClick} title={sel.title} className={`flex items-start gap-2 text-sm text-gray-700 p-2 cursor-pointer ${tone.item} ${sel.dashedClass} ${sel.selectedClass} ${newItemClass(stage, lane.key, item)}`}>
+              {tone.icon && <span className={`${tone.iconClass} mt-0.5`}>{tone.icon}</span>}
+              {renderItemContent(i, lane.key, idx, item)}
+              <EvidenceTag item={item} />
+              <MentionBadge item={item} total={data?.participants?.length || 0} />
+            </div>
+          );
+        })}
+        {renderEmptyHint(getLaneItems(stage, lane.key))}
+        {renderAddItem(i, lane.key)}
+      </div>
+    );
+  };
+
+  // Touchpoints render as chips; the first touchpoint lane also carries the stage visualization
+  const renderTouchpointCell = (lane: LaneDefinition, stage: JourneyStage, i: number, showImage: boolean) => {
+    const drop = cellDropProps(i, lane.key);
+    const touchpoints = getLaneItems(stage, lane.key);
+    return (
+      <div key={i} {...drop} className={`p-4 space-y-3 relative group rounded-lg ${drop.dropClass}`}>
+        <div className="text-sm text-ncss-purple font-medium mb-2 flex flex-wrap gap-x-2 gap-y-1">
+          {touchpoints.map((tp, idx) => {
+            const sel = itemSelectionProps(i, lane.key, idx, tp);
+            return (
+              <span key={idx} {...itemDragProps(i, lane.key, idx)} onClick={sel.onClick} title={sel.title} className={`inline-flex items-center gap-1 rounded px-1 cursor-pointer ${isEditing ? 'bg-ncss-purple/5 border border-ncss-purple/10' : ''} ${sel.selectedClass} ${newItemClass(stage, lane.key, tp)}`}>
+                {renderItemContent(i, lane.key, idx, tp)}
+                <EvidenceTag item={tp} />
+                <MentionBadge item={tp} total={data?.participants?.length || 0} />
+              </span>
+            );
+          })}
+        </div>
+        {renderEmptyHint(touchpoints)}
+        {renderAddItem(i, lane.key)}
+
+        {/* Image Generation Slot */}
+        {showImage && (
+          <div className="relative w-full aspect-video bg-gray-100 rounded-lg overflow-hidden border border-gray-200 flex items-center justify-center group-hover:shadow-md transition-shadow">
+             {images[stage.name] ? (
+                <img src={images[stage.name]} alt={stage.name} className="w-full h-full object-cover" />
+             ) : (
+                <div className="text-center p-2">
+                  <button
+                    type="button"
+                    onClick={() => handleGenerateImage(stage.name, `Scene showing: ${itemTexts(stage.userActions)[0]} with touchpoints: ${itemTexts(touchpoints).join(', ')}`)}
+                    className="text-xs bg-white text-ncss-teal border border-ncss-teal px-2 py-1 rounded hover:bg-ncss-teal hover:text-white transition-colors no-print cursor-pointer"
+                    disabled={loadingImage === stage.name}
+                  >
+                    {loadingImage === stage.name ? 'Generating...' : 'Visualize'}
+                  </button>
+                </div>
+             )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderEmotionCell = (stage: JourneyStage, i: number) => (
+    <div key={i} className="p-4 flex items-center justify-center">
+      {isEditing && data ? (
+        <div className="flex flex-col items-center gap-2">
+          <select
+            value={stage.emotions}
+            onChange={e => onMapChange(setStageEmotion(data, i, e.target.value))}
+            className="text-3xl bg-white border border-gray-200 rounded-lg px-2 py-1 cursor-pointer"
+            title="Change emotion"
+          >
+            {Array.from(new Set([stage.emotions, ...EMOTION_OPTIONS])).map(emoji => (
+              <option key={emoji} value={emoji}>{emoji}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-2 text-xs text-gray-500 no-print">
+            Score
+            <input
+              type="range"
+              min={SENTIMENT_MIN}
+              max={SENTIMENT_MAX}
+              step={1}
+              value={stageSentimentScore(stage) ?? 0}
+              onChange={e => onMapChange(setStageSentimentScore(data, i, Number(e.target.value)))}
+              className="accent-ncss-purple"
+            />
+            <span className="w-6 font-bold text-slate-700">{formatSentiment(stageSentimentScore(stage))}</span>
+          </label>
+        </div>
+      ) : (
+        <div className="text-4xl filter drop-shadow-sm hover:scale-110 transition-transform cursor-help" title={stage.emotions}>
+          {stage.emotions}
+        </div>
+      )}
+    </div>
+  );
+
+  const renderLaneCell = (lane: LaneDefinition, stage: JourneyStage, i: number) => {
+    if (lane.kind === 'emotion') return renderEmotionCell(stage, i);
+    if (lane.kind === 'touchpoints') {
+      const firstTouchpointLane = mapLanes(data!).find(l => l.kind === 'touchpoints');
+      return renderTouchpointCell(lane, stage, i, firstTouchpointLane?.key === lane.key);
+    }
+    return renderItemLaneCell(lane, stage, i);
+  };
 
   const handleGenerateImage = async (stageName: string, prompt: string) => {
     if (loadingImage) return;
+    if (!aiAllowed) {
+      alert("The interviewee did not consent to AI analysis, so this map cannot be sent to the AI.");
+      return;
+    }
     setLoadingImage(stageName);
     const imgData = await generateTouchpointImage(prompt);
     if (imgData) {
-      setImages(prev => ({ ...prev, [stageName]: imgData }));
+      onImagesChange(prev => ({ ...prev, [stageName]: imgData }));
     }
     setLoadingImage(null);
   };
@@ -24,18 +408,100 @@ export const JourneyMapViz: React.FC<Props> = ({ data, isLoading }) => {
   const handlePrint = () => {
     try {
       window.print();
+      onExport?.('Printed the map');
     } catch (e) {
       alert("Print blocked. Please use the 'Download Report' button instead.");
     }
   };
 
-  const handleDownloadHTML = () => {
+  // Bilingual reports show each text's translation (keyed by the original text) beneath it
+  const handleDownloadHTML = (translations?: Map<string, string>, translationLanguage?: LanguageCode) => {
     if (!data) return;
+    const translated = (text: string) => {
+      const translation = translations?.get(text);
+      return translation ? `<span class="block text-xs font-normal italic text-gray-500" lang="${translationLanguage}">${escapeHtml(translation)}</span>` : '';
+    };
+
+    const totalParticipants = data.participants?.length || 0;
+    const exportBadge = (item: JourneyItem) => (totalParticipants && item.participants
+      ? ` <span class="text-xs font-bold text-purple-700" title="${escapeHtml(item.participants.join(', '))}">(${mentionCount(item)}/${totalParticipants})</span>`
+      : '') + (item.basis === 'inferred'
+      ? ` <span class="text-[10px] uppercase text-amber-700">(inferred)</span>`
+      : item.quote ? ` <span class="text-teal-600 cursor-help" title="${escapeHtml(item.quote)}">❝</span>` : '');
+
+    const lanes = mapLanes(data);
+    const firstTouchpointLane = lanes.find(l => l.kind === 'touchpoints');
+    // Blueprint lines are drawn in every column; only the row-header column carries the label
+    const exportLine = (index: number, labelled: boolean) => {
+      const line = blueprintLineBefore(lanes, index);
+      if (!line) return '';
+      return `<div class="h-4 border-t-2 border-dashed border-purple-300 text-[10px] text-purple-700 tracking-widest">${labelled ? escapeHtml(line) : ''}</div>`;
+    };
+    // The report uses fixed 300px columns with a 24px gap, so the whole curve is drawn once from the first column
+    const EXPORT_COLUMN_PX = 300;
+    const EXPORT_GAP_PX = 24;
+    const exportCurve = (stageIndex: number) => {
+      if (stageIndex > 0) return `<div style="height:${CURVE_HEIGHT}px"></div>`;
+      const stageCount = data.stages.length;
+      const width = stageCount * EXPORT_COLUMN_PX + (stageCount - 1) * EXPORT_GAP_PX;
+      const points = curvePoints(data.stages, width, EXPORT_GAP_PX);
+      const lowest = lowestStageIndex(data);
+      return `
+                  <div class="relative" style="height:${CURVE_HEIGHT}px">
+                    <svg width="${width}" height="${CURVE_HEIGHT}" style="position:absolute;left:0;top:0;overflow:visible">
+                      <line x1="0" x2="${width}" y1="${zeroLineY()}" y2="${zeroLineY()}" stroke="#e5e7eb" stroke-dasharray="4 4" />
+                      <path d="${curvePath(points)}" fill="none" stroke="#5b2c83" stroke-width="3" stroke-linecap="round" />
+                      ${points.map(p => `
+                        <g>
+                          <title>${escapeHtml(`${data.stages[p.index].name}: ${formatSentiment(p.score)}${data.stages[p.index].sentiment?.rationale ? ` - ${data.stages[p.index].sentiment!.rationale}` : ''}`)}</title>
+                          ${p.index === lowest && p.score < 0 ? `<circle cx="${p.x}" cy="${p.y}" r="14" fill="#dc2626" opacity="0.15" />` : ''}
+                          <circle cx="${p.x}" cy="${p.y}" r="7" fill="${scoreColor(p.score)}" stroke="white" stroke-width="2" />
+                          <text x="${p.x}" y="${p.y - 12}" text-anchor="middle" font-size="11" font-weight="bold" fill="${scoreColor(p.score)}">${formatSentiment(p.score)}</text>
+                          ${p.index === lowest && p.score < 0 ? `<text x="${p.x}" y="${p.y + 24}" text-anchor="middle" font-size="10" font-weight="bold" fill="#dc2626">LOWEST POINT</text>` : ''}
+                        </g>
+                      `).join('')}
+                    </svg>
+                  </div>`;
+    };
+    const exportCell = (lane: LaneDefinition, stage: JourneyStage) => {
+      const items = getLaneItems(stage, lane.key);
+      if (lane.kind === 'emotion') {
+        return `
+                  <div class="h-24 flex items-center justify-center bg-white rounded-lg border border-gray-100 shadow-sm">
+                    <span class="text-5xl" title="${escapeHtml(stage.sentiment?.rationale || stage.emotions)}">${stage.emotions || ''}</span>
+                    ${stageSentimentScore(stage) !== null ? `<span class="ml-3 text-lg font-bold" style="color:${scoreColor(stageSentimentScore(stage)!)}">${formatSentiment(stageSentimentScore(stage))}</span>` : ''}
+                  </div>`;
+      }
+      if (lane.kind === 'touchpoints') {
+        return `
+                  <div class="h-48 bg-white p-4 rounded-lg border border-gray-200 relative shadow-sm">
+                    <div class="text-sm font-semibold text-purple-700 mb-2 h-10 overflow-hidden text-ellipsis">
+                      ${items.map(t => `${t.text}${exportBadge(t)}${translated(t.text)}`).join(translations ? '' : ', ')}
+                    </div>
+                    ${lane.key === firstTouchpointLane?.key ? `<div class="w-full h-28 bg-gray-100 rounded overflow-hidden flex items-center justify-center">
+                      ${images[stage.name]
+                        ? `<img src="${images[stage.name]}" class="w-full h-full object-cover" />`
+                        : `<span class="text-xs text-gray-400">No visualization generated</span>`
+                      }
+                    </div>` : ''}
+                  </div>`;
+      }
+      const tone = TONE_STYLES[lane.tone || 'neutral'];
+      return `
+                  <div class="h-32 ${tone.exportCell} p-4 rounded-lg border overflow-y-auto text-sm">
+                    ${items.map(item => `
+                      <div class="flex gap-2 mb-2 text-gray-800">
+                        ${tone.exportIcon || '<span class="text-gray-400 shrink-0">•</span>'}
+                        <span>${item.text}${exportBadge(item)}${translated(item.text)}</span>
+                      </div>
+                    `).join('')}
+                  </div>`;
+    };
 
     // Use default empty arrays in the template string to prevent .join() on undefined errors
     const htmlContent = `
       <!DOCTYPE html>
-      <html lang="en">
+      <html lang="${data.language || 'en'}">
       <head>
         <meta charset="utf-8">
         <title>${data.title} - Journey Map</title>
@@ -49,8 +515,9 @@ export const JourneyMapViz: React.FC<Props> = ({ data, isLoading }) => {
       <body class="bg-gray-50 p-8 font-sans text-slate-800">
         <div class="max-w-[1600px] mx-auto bg-white p-8 rounded-xl shadow-sm border border-gray-200">
           <div class="border-b border-gray-200 pb-6 mb-6">
-            <h1 class="text-3xl font-bold text-ncss-purple mb-2">${data.title}</h1>
+            <h1 class="text-3xl font-bold text-ncss-purple mb-2">${data.title}${translated(data.title)}</h1>
             <p class="text-sm text-gray-500 uppercase tracking-wider">NCSS AIMS 2.0 Generated Report</p>
+            ${totalParticipants ? `<p class="text-sm text-gray-600 mt-2">Synthesized from ${totalParticipants} interviews: ${data.participants!.join(', ')}</p>` : ''}
           </div>
 
           <div class="overflow-x-auto pb-4">
@@ -58,64 +525,16 @@ export const JourneyMapViz: React.FC<Props> = ({ data, isLoading }) => {
               
               <!-- Row Headers -->
               <div class="pt-12 space-y-6 font-bold text-gray-400 text-right pr-4 text-sm uppercase tracking-wide">
-                <div class="h-32">User Actions</div>
-                <div class="h-48">Touchpoints</div>
-                <div class="h-24">Thinking/Feeling</div>
-                <div class="h-32 text-red-500">Pain Points</div>
-                <div class="h-32 text-green-600">Opportunities</div>
+                ${lanes.map((lane, i) => exportLine(i, true) + `<div class="${EXPORT_HEIGHTS[lane.kind]} ${lane.tone === 'negative' ? 'text-red-500' : lane.tone === 'positive' ? 'text-green-600' : ''}">${escapeHtml(lane.label)}</div>` + (lane.kind === 'emotion' ? `<div style="height:${CURVE_HEIGHT}px">Emotion Curve</div>` : '')).join('')}
               </div>
 
               <!-- Stage Columns -->
-              ${(data.stages || []).map((stage) => `
+              ${(data.stages || []).map((stage, stageIndex) => `
                 <div class="flex flex-col gap-6">
                   <div class="font-bold text-xl text-slate-800 pb-2 border-b-4 border-teal-500">
-                    ${stage.name || 'Stage'}
-                  </div>
-
-                  <!-- User Actions -->
-                  <div class="h-32 bg-gray-50 p-4 rounded-lg border border-gray-100 overflow-y-auto text-sm">
-                    <ul class="list-disc pl-4 space-y-1">
-                      ${(stage.userActions || []).map(a => `<li class="text-gray-700">${a}</li>`).join('')}
-                    </ul>
-                  </div>
-
-                  <!-- Touchpoints & Image -->
-                  <div class="h-48 bg-white p-4 rounded-lg border border-gray-200 relative shadow-sm">
-                    <div class="text-sm font-semibold text-purple-700 mb-2 h-10 overflow-hidden text-ellipsis">
-                      ${(stage.touchpoints || []).join(', ')}
-                    </div>
-                    <div class="w-full h-28 bg-gray-100 rounded overflow-hidden flex items-center justify-center">
-                      ${images[stage.name] 
-                        ? `<img src="${images[stage.name]}" class="w-full h-full object-cover" />`
-                        : `<span class="text-xs text-gray-400">No visualization generated</span>`
-                      }
-                    </div>
-                  </div>
-
-                  <!-- Emotions -->
-                  <div class="h-24 flex items-center justify-center bg-white rounded-lg border border-gray-100 shadow-sm">
-                    <span class="text-5xl" title="${stage.emotions}">${stage.emotions || ''}</span>
-                  </div>
-
-                  <!-- Pain Points -->
-                  <div class="h-32 bg-red-50 p-4 rounded-lg border border-red-100 overflow-y-auto text-sm">
-                    ${(stage.painPoints || []).map(p => `
-                      <div class="flex gap-2 mb-2 text-gray-800">
-                        <span class="text-red-500 shrink-0">⚠️</span>
-                        <span>${p}</span>
-                      </div>
-                    `).join('')}
-                  </div>
-
-                  <!-- Opportunities -->
-                  <div class="h-32 bg-green-50 p-4 rounded-lg border border-green-100 overflow-y-auto text-sm">
-                    ${(stage.opportunities || []).map(o => `
-                      <div class="flex gap-2 mb-2 text-gray-800">
-                        <span class="text-green-600 shrink-0">💡</span>
-                        <span>${o}</span>
-                      </div>
-                    `).join('')}
+                    ${stage.name || 'Stage'}${translated(stage.name)}
                   </div>
+                  ${lanes.map((lane, i) => exportLine(i, false) + exportCell(lane, stage) + (lane.kind === 'emotion' ? exportCurve(stageIndex) : '')).join('')}
                 </div>
               `).join('')}
 
@@ -134,11 +553,37 @@ export const JourneyMapViz: React.FC<Props> = ({ data, isLoading }) => {
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `${data.title.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.html`;
+    a.download = `${data.title.replace(/[^a-z0-9]/gi, '_').toLowerCase()}${translationLanguage ? `_${translationLanguage.toLowerCase()}` : ''}.html`;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
+    onExport?.(translationLanguage ? `Downloaded the ${languageLabel(translationLanguage)} bilingual report` : 'Downloaded the report');
+  };
+
+  const handleDownloadBilingual = async () => {
+    if (!data || !secondLanguage) return;
+    if (!aiAllowed) {
+      alert("The interviewee did not consent to AI analysis, so this map cannot be sent to the AI.");
+      return;
+    }
+    const lanes = mapLanes(data).filter(l => l.kind !== 'emotion');
+    const texts = Array.from(new Set([
+      data.title,
+      ...data.stages.map(s => s.name),
+      ...data.stages.flatMap(stage => lanes.flatMap(lane => itemTexts(getLaneItems(stage, lane.key)))),
+    ].filter(text => text.trim())));
+
+    setIsTranslatingReport(true);
+    try {
+      const translations = await translateTexts(texts, secondLanguage, data.language || 'en');
+      handleDownloadHTML(new Map(texts.map((text, i) => [text, translations[i]])), secondLanguage);
+    } catch (e) {
+      console.error("Report translation failed:", e);
+      alert("Failed to translate the report. Please try again.");
+    } finally {
+      setIsTranslatingReport(false);
+    }
   };
 
   if (isLoading) {
@@ -146,7 +591,27 @@ export const JourneyMapViz: React.FC<Props> = ({ data, isLoading }) => {
       <div className="h-full flex items-center justify-center bg-gray-50/50">
         <div className="flex flex-col items-center space-y-4">
           <div className="w-12 h-12 border-4 border-ncss-teal border-t-transparent rounded-full animate-spin"></div>
-          <p className="text-ncss-teal font-medium">Analyzing transcript & building map...</p>
+          <p className="text-ncss-teal font-medium">
+            {progress && progress.total > 1
+              ? progress.phase === 'reading'
+                ? `Reading part ${progress.done + 1} of ${progress.total} of the transcript...`
+                : `Merging findings: stage ${progress.done + 1} of ${progress.total}...`
+              : 'Analyzing transcript & building map...'}
+          </p>
+          {progress && progress.total > 1 && (
+            <div className="w-64 h-1.5 bg-gray-200 rounded-full overflow-hidden">
+              {/* Reading the parts is most of the work; merging fills the last fifth */}
+              <div
+                className="h-full bg-ncss-teal transition-all"
+                style={{ width: `${progress.phase === 'reading' ? (progress.done / progress.total) * 80 : 80 + (progress.done / progress.total) * 20}%` }}
+              ></div>
+            </div>
+          )}
+          {onCancel && (
+            <button type="button" onClick={onCancel} className="text-sm text-gray-500 hover:text-red-600 underline">
+              Cancel
+            </button>
+          )}
         </div>
       </div>
     );
@@ -160,15 +625,51 @@ export const JourneyMapViz: React.FC<Props> = ({ data, isLoading }) => {
     );
   }
 
+  const totalParticipants = data.participants?.length || 0;
+
   return (
     <div className="h-full flex flex-col overflow-hidden printable-area bg-white relative">
       {/* Header with higher z-index to ensure button is clickable */}
       <div className="flex justify-between items-center p-4 border-b border-gray-100 bg-white shrink-0 relative z-[100]">
-        <h2 className="text-xl font-bold text-gray-800">{data.title || 'Untitled Journey'}</h2>
+        <div>
+          <h2 className="text-xl font-bold text-gray-800">
+            {isEditing
+              ? <EditableText value={data.title} onCommit={title => onMapChange(setMapTitle(data, title))} />
+              : (data.title || 'Untitled Journey')}
+          </h2>
+          {isLive && (
+            <p className="text-xs text-green-700 flex items-center gap-1 no-print">
+              <span className="w-2 h-2 rounded-full bg-green-500 animate-pulse"></span>
+              Building live from the interview
+            </p>
+          )}
+          {totalParticipants > 0 && (
+            <p className="text-xs text-gray-500" title={data.participants!.join(', ')}>
+              Synthesized from {totalParticipants} interviews
+            </p>
+          )}
+        </div>
         <div className="flex space-x-2 no-print">
+           {isEditing && (
+             <button
+               type="button"
+               onClick={handleAddStage}
+               className="flex items-center gap-1 bg-white border border-gray-300 hover:bg-gray-50 text-gray-700 px-3 py-2 rounded-md shadow-sm text-sm font-medium transition-all cursor-pointer active:scale-95"
+             >
+               + Stage
+             </button>
+           )}
+           <button
+             type="button"
+             onClick={() => { setIsEditing(!isEditing); setAddingToCell(null); }}
+             className={`flex items-center gap-2 px-3 py-2 rounded-md shadow-sm text-sm font-medium transition-all cursor-pointer active:scale-95 border ${isEditing ? 'bg-ncss-purple text-white border-ncss-purple hover:bg-purple-800' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'}`}
+             title={isEditing ? 'Finish editing' : 'Edit map directly'}
+           >
+             {isEditing ? 'Done' : 'Edit'}
+           </button>
            <button 
              type="button"
-             onClick={handleDownloadHTML}
+             onClick={() => handleDownloadHTML()}
              className="flex items-center gap-2 bg-ncss-teal hover:bg-teal-700 text-white px-4 py-2 rounded-md shadow-sm text-sm font-bold transition-all cursor-pointer active:scale-95"
            >
              <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -176,6 +677,27 @@ export const JourneyMapViz: React.FC<Props> = ({ data, isLoading }) => {
              </svg>
              Download Report
            </button>
+           {secondLanguage && (
+             <button
+               type="button"
+               onClick={handleDownloadBilingual}
+               disabled={isTranslatingReport}
+               className="flex items-center gap-2 bg-white border border-ncss-teal text-ncss-teal hover:bg-teal-50 px-3 py-2 rounded-md shadow-sm text-sm font-medium transition-all cursor-pointer active:scale-95 disabled:opacity-50 disabled:cursor-wait"
+               title={`Download the report with a ${languageLabel(secondLanguage)} translation under every text`}
+             >
+               {isTranslatingReport ? 'Translating...' : `+ ${languageLabel(secondLanguage)}`}
+             </button>
+           )}
+           {onOpenGoogleExport && (
+             <button
+               type="button"
+               onClick={onOpenGoogleExport}
+               className="flex items-center gap-2 bg-white border border-gray-300 hover:bg-gray-50 text-gray-700 px-3 py-2 rounded-md shadow-sm text-sm font-medium transition-all cursor-pointer active:scale-95"
+               title="Export the map to Google Sheets or Slides, and the transcript to Google Docs"
+             >
+               Google Workspace
+             </button>
+           )}
            <button 
              type="button"
              className="flex items-center gap-2 bg-white border border-gray-300 hover:bg-gray-50 text-gray-700 px-3 py-2 rounded-md shadow-sm text-sm font-medium transition-all cursor-pointer active:scale-95" 
@@ -190,92 +712,53 @@ export const JourneyMapViz: React.FC<Props> = ({ data, isLoading }) => {
       </div>
 
       <div className="flex-1 overflow-x-auto overflow-y-auto bg-gray-50 p-6 print:bg-white print:p-0 z-10">
-        <div className="min-w-max grid grid-cols-[150px_repeat(5,minmax(280px,1fr))] gap-4">
+        <div
+          className="min-w-max grid"
+          style={{ gap: GRID_GAP_PX, gridTemplateColumns: `150px repeat(${Math.max(1, (data.stages || []).length)}, minmax(280px, 1fr))` }}
+        >
           
           {/* Header Row */}
           <div className="font-bold text-gray-400 text-sm uppercase tracking-wider py-2">Stage</div>
           {(data.stages || []).map((stage, i) => (
             <div key={i} className="font-bold text-slate-800 text-lg py-2 border-b-4 border-ncss-teal/50">
-              {stage.name}
-            </div>
-          ))}
-
-          {/* User Actions Lane */}
-          <div className="font-semibold text-gray-600 text-sm py-4 border-r border-gray-200 pr-4">User Actions</div>
-          {(data.stages || []).map((stage, i) => (
-            <div key={i} className="p-4 bg-white rounded-lg shadow-sm border border-gray-100 space-y-2">
-              {(stage.userActions || []).map((action, idx) => (
-                <div key={idx} className="text-sm text-gray-700 bg-gray-50 p-2 rounded border border-gray-100">
-                  {action}
-                </div>
-              ))}
-            </div>
-          ))}
-
-          {/* Touchpoints Visual Lane */}
-          <div className="font-semibold text-gray-600 text-sm py-4 border-r border-gray-200 pr-4">Touchpoints</div>
-          {(data.stages || []).map((stage, i) => (
-            <div key={i} className="p-4 space-y-3 relative group">
-              <div className="text-sm text-ncss-purple font-medium mb-2">
-                {(stage.touchpoints || []).join(", ")}
-              </div>
-              
-              {/* Image Generation Slot */}
-              <div className="relative w-full aspect-video bg-gray-100 rounded-lg overflow-hidden border border-gray-200 flex items-center justify-center group-hover:shadow-md transition-shadow">
-                 {images[stage.name] ? (
-                    <img src={images[stage.name]} alt={stage.name} className="w-full h-full object-cover" />
-                 ) : (
-                    <div className="text-center p-2">
-                      <button 
-                        type="button"
-                        onClick={() => handleGenerateImage(stage.name, `Scene showing: ${(stage.userActions || [])[0]} with touchpoints: ${(stage.touchpoints || []).join(', ')}`)}
-                        className="text-xs bg-white text-ncss-teal border border-ncss-teal px-2 py-1 rounded hover:bg-ncss-teal hover:text-white transition-colors no-print cursor-pointer"
-                        disabled={loadingImage === stage.name}
-                      >
-                        {loadingImage === stage.name ? 'Generating...' : 'Visualize'}
-                      </button>
-                    </div>
-                 )}
-              </div>
-            </div>
-          ))}
-
-          {/* Emotions Lane */}
-          <div className="font-semibold text-gray-600 text-sm py-4 border-r border-gray-200 pr-4">Thinking & Feeling</div>
-          {(data.stages || []).map((stage, i) => (
-            <div key={i} className="p-4 flex items-center justify-center">
-              <div className="text-4xl filter drop-shadow-sm hover:scale-110 transition-transform cursor-help" title={stage.emotions}>
-                {stage.emotions}
-              </div>
-            </div>
-          ))}
-
-          {/* Pain Points Lane */}
-          <div className="font-semibold text-gray-600 text-sm py-4 border-r border-gray-200 pr-4 text-ncss-red">Pain Points</div>
-          {(data.stages || []).map((stage, i) => (
-            <div key={i} className="p-4">
-               {(stage.painPoints || []).map((pt, idx) => (
-                <div key={idx} className="flex items-start gap-2 mb-2 text-sm text-gray-700 bg-red-50 p-2 rounded-md border border-red-100">
-                  <span className="text-red-500 mt-0.5">⚠️</span> {pt}
+              {isEditing ? (
+                <div className="flex items-center gap-1">
+                  <EditableText value={stage.name} className="flex-1" onCommit={name => handleRenameStage(i, name)} />
+                  <div className="flex gap-0.5 text-xs font-normal no-print">
+                    <button type="button" onClick={() => onMapChange(moveStage(data, i, i - 1))} disabled={i === 0} className="px-1 text-gray-400 hover:text-slate-800 disabled:opacity-30" title="Move stage left">◀</button>
+                    <button type="button" onClick={() => onMapChange(moveStage(data, i, i + 1))} disabled={i === data.stages.length - 1} className="px-1 text-gray-400 hover:text-slate-800 disabled:opacity-30" title="Move stage right">▶</button>
+                    <button type="button" onClick={() => handleRemoveStage(i)} className="px-1 text-gray-300 hover:text-red-500" title="Remove stage">✕</button>
+                  </div>
                 </div>
-              ))}
+              ) : stage.name}
             </div>
           ))}
 
-          {/* Opportunities Lane */}
-          <div className="font-semibold text-gray-600 text-sm py-4 border-r border-gray-200 pr-4 text-green-600">Opportunities</div>
-          {(data.stages || []).map((stage, i) => (
-            <div key={i} className="p-4">
-               {(stage.opportunities || []).map((opt, idx) => (
-                <div key={idx} className="flex items-start gap-2 mb-2 text-sm text-gray-700 bg-green-50 p-2 rounded-md border border-green-100">
-                   <span className="text-green-500 mt-0.5">💡</span> {opt}
+          {mapLanes(data).map((lane, laneIndex, lanes) => (
+            <React.Fragment key={lane.key}>
+              {blueprintLineBefore(lanes, laneIndex) && (
+                <div className="col-span-full flex items-center gap-2 text-[10px] font-bold uppercase tracking-widest text-ncss-purple/70">
+                  <span>{blueprintLineBefore(lanes, laneIndex)}</span>
+                  <div className="flex-1 border-t-2 border-dashed border-ncss-purple/40"></div>
                 </div>
-              ))}
-            </div>
+              )}
+              <div className={`font-semibold text-gray-600 text-sm py-4 border-r border-gray-200 pr-4 ${TONE_STYLES[lane.tone || 'neutral'].header}`} title={lane.description}>
+                {lane.label}
+              </div>
+              {(data.stages || []).map((stage, i) => renderLaneCell(lane, stage, i))}
+              {lane.kind === 'emotion' && (
+                <>
+                  <div className="font-semibold text-gray-600 text-sm py-4 border-r border-gray-200 pr-4" title={`Sentiment from ${SENTIMENT_MIN} to +${SENTIMENT_MAX}`}>Emotion Curve</div>
+                  <div style={{ gridColumn: '2 / -1' }}>
+                    <EmotionCurve stages={data.stages} gap={GRID_GAP_PX} lowestIndex={lowestStageIndex(data)} onShowEvidence={onShowEvidence} />
+                  </div>
+                </>
+              )}
+            </React.Fragment>
           ))}
 
         </div>
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -1,41 +1,287 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { ConnectionState, TranscriptItem } from '../types';
+import { ConnectionState, ConsentRecord, InterviewRecording, LanguageCode, Participant, SessionLanguage, TranscriptItem } from '../types';
 import { LiveApiService } from '../services/geminiService';
+import { ROLE_LABELS, linkImportedSpeakers, speakerLabel, speakerOf } from '../services/transcript';
+import { TranscriptEditor } from './TranscriptEditor';
+import { ConsentDialog } from './ConsentDialog';
+import { TRANSCRIPT_FILE_ACCEPT, TRANSCRIPT_FORMAT_LABELS, formatOffset, parseTranscript, readTranscriptFile } from '../services/transcriptImport';
 import { LiveServerMessage } from '@google/genai';
+import { PlaybackSettings, getPlaybackSettings, savePlaybackSettings } from '../services/audioPlayback';
+import { LIVE_VOICES, LiveVoice } from '../services/liveProtocol';
+import { LANGUAGES, OUTPUT_LANGUAGES, languageName } from '../services/languages';
+import { LIVE_CONSENT_SCOPES, describeConsent, hasConsent, hasLiveConsent, withdrawConsent } from '../services/consent';
+import { RecordingPosition, isRecordingSupported, seekRecording } from '../services/audioRecording';
+import { deleteRecording, getRecording, saveRecordingTake } from '../services/projectStore';
+import { INPUT_WARNING_MESSAGES, InputLevelMonitor, InputWarning, getMicrophoneId, listMicrophones, meterLevel, saveMicrophoneId } from '../services/audioCapture';
+
+// Recent turns sent to the co-pilot when Gemini could not resume the session after a drop
+const REJOIN_CONTEXT_TURNS = 30;
+
+const rejoinContext = (transcript: TranscriptItem[], participants: Participant[]) =>
+  `The connection dropped and you are rejoining an interview that is already in progress. Do not give a preamble or greet anyone again; keep listening as before.
+  The conversation so far:
+  ${transcript.slice(-REJOIN_CONTEXT_TURNS).map(item => `${speakerLabel(item, participants)}: ${item.text}`).join('\n')}`;
+
+// Transcription arrives about a second after the words were spoken
+const TRANSCRIPTION_LAG_S = 1;
+
+const recordingOffsets = (start: RecordingPosition | null, end: RecordingPosition | null): Partial<TranscriptItem> =>
+  start ? {
+    recordingTakeId: start.takeId,
+    startTime: Math.max(0, start.time - TRANSCRIPTION_LAG_S),
+    ...(end?.takeId === start.takeId ? { endTime: end.time } : {}),
+  } : {};
 
 interface LiveSessionProps {
   onTranscriptUpdate: (text: string) => void;
   transcriptHistory: TranscriptItem[];
   setTranscriptHistory: React.Dispatch<React.SetStateAction<TranscriptItem[]>>;
+  highlightedIds: string[]; // Transcript lines supporting the selected map item
+  participants: Participant[];
+  onParticipantsChange: (participants: Participant[]) => void;
+  sessionId?: string;
+  recordingConsent: boolean;
+  onRecordingConsentChange: (consent: boolean) => void;
+  onSessionEnd?: () => void; // The PM ended the live interview
+  onCopilotChange?: (ask: ((question: string) => void) | null) => void; // Lets suggestions be asked by the co-pilot while connected
+  language: SessionLanguage;
+  onLanguageChange: (language: SessionLanguage) => void;
+  consent?: ConsentRecord;
+  onConsentChange: (consent: ConsentRecord) => void;
+  onRecordingDeleted?: () => void;
+  onStoppedForConsent?: () => void; // Consent needed to stream the interview was withdrawn while connected
 }
 
-export const LiveSession: React.FC<LiveSessionProps> = ({ onTranscriptUpdate, transcriptHistory, setTranscriptHistory }) => {
+export const LiveSession: React.FC<LiveSessionProps> = ({ onTranscriptUpdate, transcriptHistory, setTranscriptHistory, highlightedIds, participants, onParticipantsChange, sessionId, recordingConsent, onRecordingConsentChange, onSessionEnd, onCopilotChange, language, onLanguageChange, consent, onConsentChange, onRecordingDeleted, onStoppedForConsent }) => {
   const [connectionState, setConnectionState] = useState<ConnectionState>(ConnectionState.DISCONNECTED);
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
+  const inSession = connectionState === ConnectionState.CONNECTED || connectionState === ConnectionState.RECONNECTING;
   const liveService = useRef<LiveApiService>(new LiveApiService());
   const scrollRef = useRef<HTMLDivElement>(null);
   
   // Manual Input State
   const [showPasteInput, setShowPasteInput] = useState(false);
   const [pastedText, setPastedText] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isEditingTranscript, setIsEditingTranscript] = useState(false);
   
   // Ref for the debounce timer to commit text during pauses
   const debounceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
+  // Read by the reconnect handlers, which are set up once on mount
+  const transcriptRef = useRef(transcriptHistory);
+  transcriptRef.current = transcriptHistory;
+  const participantsRef = useRef(participants);
+  participantsRef.current = participants;
+  const sessionIdRef = useRef(sessionId);
+  sessionIdRef.current = sessionId;
+  const languageRef = useRef(language);
+  languageRef.current = language;
+
   // Temporary buffers for streaming text
   const currentInputRef = useRef<string>('');
   const currentOutputRef = useRef<string>('');
+  // Where the recording was when each streaming turn started
+  const inputStartRef = useRef<RecordingPosition | null>(null);
+  const outputStartRef = useRef<RecordingPosition | null>(null);
   // We use a state to force re-render for streaming text visualization
   const [liveInputText, setLiveInputText] = useState('');
   const [liveOutputText, setLiveOutputText] = useState('');
 
+  // Co-pilot voice output
+  const [playback, setPlayback] = useState<PlaybackSettings>(getPlaybackSettings);
+  const [isCopilotSpeaking, setIsCopilotSpeaking] = useState(false);
+
+  // Microphone input
+  const [microphones, setMicrophones] = useState<MediaDeviceInfo[]>([]);
+  const [microphoneId, setMicrophoneId] = useState<string>(() => getMicrophoneId() || '');
+  const [inputLevel, setInputLevel] = useState(0);
+  const [inputWarning, setInputWarning] = useState<InputWarning | null>(null);
+  const levelMonitorRef = useRef(new InputLevelMonitor());
+
+  // Local recording of the interview audio
+  const [recording, setRecording] = useState<InterviewRecording | null>(null);
+  const [recordingTime, setRecordingTime] = useState<number | null>(null);
+  const recordingSessionRef = useRef(sessionId);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const playingRef = useRef<{ blob: Blob; url: string } | null>(null);
+  const [isPlaybackVisible, setIsPlaybackVisible] = useState(false);
+
+  const releasePlayback = () => {
+    audioRef.current?.pause();
+    audioRef.current?.removeAttribute('src');
+    if (playingRef.current) URL.revokeObjectURL(playingRef.current.url);
+    playingRef.current = null;
+    setIsPlaybackVisible(false);
+  };
+
+  useEffect(() => {
+    setRecording(null);
+    releasePlayback();
+    if (sessionId) getRecording(sessionId).then(setRecording).catch(e => console.error("Failed to load recording:", e));
+  }, [sessionId]);
+
+  // The REC timer; also notices when recording is switched on after connecting
+  useEffect(() => {
+    if (!inSession) {
+      setRecordingTime(null);
+      return;
+    }
+    const timer = setInterval(() => setRecordingTime(liveService.current.recorder.position()?.time ?? null), 1000);
+    return () => clearInterval(timer);
+  }, [inSession]);
+
+  // Why the consent dialog is open: to start the interview, to switch recording on, or to review it
+  const [consentRequest, setConsentRequest] = useState<'connect' | 'record' | 'review' | null>(null);
+
+  const beginRecording = () => {
+    onRecordingConsentChange(true);
+    recordingSessionRef.current = sessionId;
+    if (inSession) liveService.current.startRecording();
+  };
+
+  const endRecording = async () => {
+    onRecordingConsentChange(false);
+    await liveService.current.stopRecording();
+    setRecordingTime(null);
+  };
+
+  const handleRecordToggle = async () => {
+    if (recordingConsent) {
+      await endRecording();
+      return;
+    }
+    if (!hasConsent(consent, 'recording')) {
+      setConsentRequest('record');
+      return;
+    }
+    beginRecording();
+  };
+
+  const handleWithdrawRecordingConsent = async () => {
+    if (!consent || !confirm("Record that the interviewee withdrew consent to audio recording? Recording stops; delete the existing recording separately if they ask for it.")) return;
+    if (recordingConsent) await endRecording();
+    onConsentChange(withdrawConsent(consent, 'recording'));
+  };
+
+  const handleConsentConfirm = async (record: ConsentRecord) => {
+    const request = consentRequest;
+    setConsentRequest(null);
+    onConsentChange(record);
+    const canRecord = hasConsent(record, 'recording') && isRecordingSupported() && !!sessionId;
+    if (!canRecord && recordingConsent) await endRecording();
+    // Audio must stop reaching the model as soon as transcription or analysis is withdrawn
+    if (connectionState !== ConnectionState.DISCONNECTED && !hasLiveConsent(record)) {
+      await handleDisconnect();
+      onStoppedForConsent?.();
+      return;
+    }
+    if (request === 'record' && canRecord) beginRecording();
+    if (request === 'connect' && hasLiveConsent(record)) {
+      if (canRecord) onRecordingConsentChange(true);
+      await startInterview(canRecord);
+    }
+  };
+
+  const handleDeleteRecording = async () => {
+    if (!sessionId || !confirm("Delete the audio recording of this interview? The transcript is kept.")) return;
+    try {
+      releasePlayback();
+      await deleteRecording(sessionId);
+      setRecording(null);
+      onRecordingDeleted?.();
+    } catch (e) {
+      console.error("Failed to delete recording:", e);
+      alert("Failed to delete the recording. Please try again.");
+    }
+  };
+
+  // Plays the recording from where the transcript turn starts
+  const playMoment = async (item: TranscriptItem) => {
+    const take = recording?.takes.find(t => t.id === item.recordingTakeId);
+    const audio = audioRef.current;
+    if (!take || item.startTime === undefined || !audio) return;
+    // A take still being recorded is saved again every few seconds, each time as a new blob
+    if (playingRef.current?.blob !== take.blob) {
+      if (playingRef.current) URL.revokeObjectURL(playingRef.current.url);
+      playingRef.current = { blob: take.blob, url: URL.createObjectURL(take.blob) };
+      audio.src = playingRef.current.url;
+    }
+    setIsPlaybackVisible(true);
+    try {
+      await seekRecording(audio, item.startTime);
+      await audio.play();
+    } catch (e) {
+      console.error("Recording playback failed:", e);
+    }
+  };
+
+  const refreshMicrophones = () => listMicrophones().then(setMicrophones).catch(() => setMicrophones([]));
+
+  useEffect(() => {
+    refreshMicrophones();
+    navigator.mediaDevices?.addEventListener('devicechange', refreshMicrophones);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refreshMicrophones);
+  }, []);
+
+  const handleMicrophoneChange = (deviceId: string) => {
+    setMicrophoneId(deviceId);
+    saveMicrophoneId(deviceId);
+    if (inSession) {
+      levelMonitorRef.current = new InputLevelMonitor();
+      setInputWarning(null);
+      liveService.current.switchMicrophone(deviceId).catch(err => {
+        console.error("Microphone switch failed:", err);
+        alert("Could not switch to that microphone. It may be in use by another app.");
+      });
+    }
+  };
+
+  const updatePlayback = (changes: Partial<PlaybackSettings>) => {
+    const next = { ...playback, ...changes };
+    setPlayback(next);
+    savePlaybackSettings(next);
+    liveService.current.player.setVolume(next.volume);
+    liveService.current.player.setMuted(next.muted);
+  };
+
   // Cleanup on unmount
   useEffect(() => {
+    liveService.current.player.onSpeakingChange = setIsCopilotSpeaking;
+    liveService.current.onInputLevel = level => {
+      setInputLevel(meterLevel(level.rms));
+      setInputWarning(levelMonitorRef.current.update(level));
+    };
+    liveService.current.recorder.onTake = take => {
+      const recordingSessionId = recordingSessionRef.current;
+      if (!recordingSessionId) return;
+      saveRecordingTake(recordingSessionId, take)
+        .then(saved => { if (recordingSessionId === sessionIdRef.current) setRecording(saved); })
+        .catch(e => console.error("Failed to save recording:", e));
+    };
+    liveService.current.onReconnecting = attempt => {
+      setConnectionState(ConnectionState.RECONNECTING);
+      setReconnectAttempt(attempt);
+      // Keep what was said up to the drop; the rest of the sentence may never be transcribed
+      commitPartialTurns();
+    };
+    liveService.current.onReconnected = resumed => {
+      setConnectionState(ConnectionState.CONNECTED);
+      if (!resumed) liveService.current.sendContext(rejoinContext(transcriptRef.current, participantsRef.current));
+    };
     return () => {
       liveService.current.disconnect();
+      releasePlayback();
       if (debounceTimerRef.current) clearTimeout(debounceTimerRef.current);
     };
   }, []);
 
+  // The co-pilot can only be asked to speak while it is connected
+  useEffect(() => {
+    if (!onCopilotChange) return;
+    onCopilotChange(connectionState === ConnectionState.CONNECTED ? question => liveService.current.askQuestion(question) : null);
+  }, [connectionState, onCopilotChange]);
+
   // Auto-scroll transcript
   useEffect(() => {
     if (scrollRef.current) {
@@ -43,43 +289,101 @@ export const LiveSession: React.FC<LiveSessionProps> = ({ onTranscriptUpdate, tr
     }
   }, [transcriptHistory, liveInputText, liveOutputText, showPasteInput]);
 
+  // Bring the evidence for the selected map item into view
+  useEffect(() => {
+    if (highlightedIds.length === 0 || !scrollRef.current) return;
+    const first = scrollRef.current.querySelector<HTMLElement>(`[data-transcript-id="${CSS.escape(highlightedIds[0])}"]`);
+    first?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [highlightedIds]);
+
   const commitInputToHistory = () => {
     if (debounceTimerRef.current) clearTimeout(debounceTimerRef.current);
     
     if (currentInputRef.current.trim()) {
+      const offsets = recordingOffsets(inputStartRef.current, liveService.current.recorder.position());
       setTranscriptHistory(prev => [
         ...prev, 
-        { id: Date.now().toString() + '-user', speaker: 'user', text: currentInputRef.current.trim(), timestamp: new Date() }
+        { id: Date.now().toString() + '-user', speaker: 'user', text: currentInputRef.current.trim(), timestamp: new Date(), language: languageRef.current.interview, ...offsets }
       ]);
       currentInputRef.current = '';
       setLiveInputText('');
     }
   };
 
+  const commitOutputToHistory = () => {
+    if (currentOutputRef.current.trim()) {
+      const offsets = recordingOffsets(outputStartRef.current, liveService.current.recorder.position());
+      setTranscriptHistory(prev => [
+        ...prev, 
+        { id: Date.now().toString() + '-agent', speaker: 'model', text: currentOutputRef.current.trim(), timestamp: new Date(), language: languageRef.current.interview, ...offsets }
+      ]);
+      currentOutputRef.current = '';
+      setLiveOutputText('');
+    }
+  };
+
+  const commitPartialTurns = () => {
+    commitInputToHistory();
+    commitOutputToHistory();
+  };
+
+  // Speaker names from the file become participants so roles can be set once per person
+  const appendImported = (items: TranscriptItem[]) => {
+    const linked = linkImportedSpeakers(items, participants);
+    if (linked.participants.length !== participants.length) onParticipantsChange(linked.participants);
+    setTranscriptHistory(prev => [...prev, ...linked.items]);
+  };
+
+  // Pasted text is parsed like an imported file, so "Speaker: text" lines keep their structure
   const handleManualSubmit = () => {
     if (!pastedText.trim()) return;
-    
-    setTranscriptHistory(prev => [
-      ...prev,
-      { 
-        id: Date.now().toString() + '-manual', 
-        speaker: 'user', 
-        text: pastedText.trim(), 
-        timestamp: new Date() 
-      }
-    ]);
+    appendImported(parseTranscript(pastedText).items);
     setPastedText('');
     setShowPasteInput(false);
   };
 
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow importing the same file again
+    if (!file) return;
+    try {
+      const { format, items, speakers } = await readTranscriptFile(file);
+      if (transcriptHistory.length > 0 && !confirm(`Append ${items.length} lines from "${file.name}" to the current transcript?`)) return;
+      appendImported(items);
+      alert(`Imported ${items.length} lines (${TRANSCRIPT_FORMAT_LABELS[format]})${speakers.length > 0 ? ` from ${speakers.length} speakers: ${speakers.join(', ')}` : ''}.`);
+    } catch (err: any) {
+      console.error("Transcript import failed:", err);
+      alert(`Failed to import transcript: ${err.message || "Unknown error"}`);
+    }
+  };
+
+  const renderSpeaker = (item: TranscriptItem) => {
+    const speaker = speakerOf(item, participants);
+    if (speaker) return speaker.role === 'copilot' ? 'Co-Interviewer (Gemini)' : `${speaker.name} · ${ROLE_LABELS[speaker.role]}`;
+    return item.speakerName || 'Interviewee / User';
+  };
+
+  // Nothing is streamed until the interviewee's consent is on record
   const handleConnect = async () => {
+    if (!hasLiveConsent(consent)) {
+      setConsentRequest('connect');
+      return;
+    }
+    await startInterview(recordingConsent);
+  };
+
+  const startInterview = async (record: boolean) => {
     setConnectionState(ConnectionState.CONNECTING);
+    levelMonitorRef.current = new InputLevelMonitor();
+    recordingSessionRef.current = sessionId;
     try {
       await liveService.current.connect(
         () => {
           setConnectionState(ConnectionState.CONNECTED);
+          // Device labels become readable once microphone permission is granted
+          refreshMicrophones();
           // Trigger the kickoff preamble
-          liveService.current.sendText("Please start the session with a brief, warm preamble for a social service journey mapping interview and ask the first opening question.");
+          liveService.current.sendText(`Please start the session with a brief, warm preamble for a social service journey mapping interview and ask the first opening question${language.interview === 'en' ? '' : `, all in ${languageName(language.interview)}`}.`);
         },
         (msg: LiveServerMessage) => {
           const content = msg.serverContent;
@@ -87,6 +391,7 @@ export const LiveSession: React.FC<LiveSessionProps> = ({ onTranscriptUpdate, tr
           if (content?.inputTranscription) {
             const text = content.inputTranscription.text;
             if (text) {
+              if (!currentInputRef.current) inputStartRef.current = liveService.current.recorder.position();
               currentInputRef.current += text;
               setLiveInputText(currentInputRef.current);
               onTranscriptUpdate(text); 
@@ -101,6 +406,7 @@ export const LiveSession: React.FC<LiveSessionProps> = ({ onTranscriptUpdate, tr
           if (content?.outputTranscription) {
             const text = content.outputTranscription.text;
             if (text) {
+              if (!currentOutputRef.current) outputStartRef.current = liveService.current.recorder.position();
               currentOutputRef.current += text;
               setLiveOutputText(currentOutputRef.current);
             }
@@ -108,23 +414,20 @@ export const LiveSession: React.FC<LiveSessionProps> = ({ onTranscriptUpdate, tr
 
           if (content?.turnComplete) {
             // If turn completes, force commit immediately
-            commitInputToHistory();
-
-            if (currentOutputRef.current.trim()) {
-              setTranscriptHistory(prev => [
-                ...prev, 
-                { id: Date.now().toString() + '-agent', speaker: 'model', text: currentOutputRef.current.trim(), timestamp: new Date() }
-              ]);
-              currentOutputRef.current = '';
-              setLiveOutputText('');
-            }
+            commitPartialTurns();
           }
         },
         (err) => {
           console.error("Live API Error:", err);
           setConnectionState(ConnectionState.ERROR);
+          commitPartialTurns();
         },
-        () => setConnectionState(ConnectionState.DISCONNECTED)
+        () => {
+          // An error has already been shown; keep it
+          setConnectionState(prev => prev === ConnectionState.ERROR ? prev : ConnectionState.DISCONNECTED);
+          commitPartialTurns();
+        },
+        { voice: playback.voice, deviceId: microphoneId || undefined, record: record && isRecordingSupported(), language: language.interview }
       );
     } catch (e) {
       console.error("Connection Failed:", e);
@@ -141,16 +444,46 @@ export const LiveSession: React.FC<LiveSessionProps> = ({ onTranscriptUpdate, tr
     setLiveOutputText('');
     currentInputRef.current = '';
     currentOutputRef.current = '';
+    setInputLevel(0);
+    setInputWarning(null);
+    onSessionEnd?.();
   };
 
   return (
     <div className="flex flex-col h-full bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+      {consentRequest && (
+        <ConsentDialog
+          consent={consent}
+          requiredScopes={consentRequest === 'connect' ? LIVE_CONSENT_SCOPES : consentRequest === 'record' ? ['recording'] : []}
+          initialScopes={consentRequest === 'record' ? [...(consent?.scopes || []), 'recording'] : undefined}
+          intervieweeName={participants.find(p => p.role === 'interviewee')?.name}
+          onConfirm={handleConsentConfirm}
+          onCancel={() => setConsentRequest(null)}
+        />
+      )}
       <div className="p-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
         <h2 className="font-semibold text-slate-800 flex items-center gap-2">
-          <span className={`w-2 h-2 rounded-full ${connectionState === ConnectionState.CONNECTED ? 'bg-green-500 animate-pulse' : 'bg-gray-300'}`}></span>
+          <span className={`w-2 h-2 rounded-full ${connectionState === ConnectionState.CONNECTED ? 'bg-green-500 animate-pulse' : connectionState === ConnectionState.RECONNECTING ? 'bg-amber-500 animate-pulse' : 'bg-gray-300'}`}></span>
           Live Session
         </h2>
         <div className="flex gap-2">
+          <button
+            onClick={() => { setIsEditingTranscript(!isEditingTranscript); setShowPasteInput(false); }}
+            disabled={connectionState !== ConnectionState.DISCONNECTED}
+            className={`text-xs px-3 py-1 rounded font-medium border transition-colors disabled:opacity-50 ${isEditingTranscript ? 'bg-gray-200 text-gray-800 border-gray-300' : 'bg-white text-gray-600 border-gray-200 hover:bg-gray-50'}`}
+            title="Set speaker roles, fix transcription errors, split, merge or delete turns"
+          >
+            {isEditingTranscript ? 'Done Editing' : 'Edit'}
+          </button>
+          <input ref={fileInputRef} type="file" accept={TRANSCRIPT_FILE_ACCEPT} onChange={handleImportFile} className="hidden" />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={connectionState !== ConnectionState.DISCONNECTED}
+            className="text-xs px-3 py-1 rounded font-medium border bg-white text-gray-600 border-gray-200 hover:bg-gray-50 disabled:opacity-50"
+            title="Import a .vtt, .srt or .txt transcript (Teams, Zoom, Otter)"
+          >
+            Import File
+          </button>
            <button 
             onClick={() => setShowPasteInput(!showPasteInput)}
             className={`text-xs px-3 py-1 rounded font-medium border transition-colors ${showPasteInput ? 'bg-gray-200 text-gray-800 border-gray-300' : 'bg-white text-gray-600 border-gray-200 hover:bg-gray-50'}`}
@@ -158,7 +491,7 @@ export const LiveSession: React.FC<LiveSessionProps> = ({ onTranscriptUpdate, tr
             {showPasteInput ? 'Cancel Paste' : 'Paste Text'}
           </button>
           
-          {connectionState === ConnectionState.CONNECTED ? (
+          {inSession ? (
              <button onClick={handleDisconnect} className="text-xs bg-red-100 text-red-700 px-3 py-1 rounded hover:bg-red-200 font-medium">
                End Session
              </button>
@@ -170,13 +503,156 @@ export const LiveSession: React.FC<LiveSessionProps> = ({ onTranscriptUpdate, tr
         </div>
       </div>
 
+      <div className="px-4 py-2 border-b border-gray-100 flex items-center gap-3 text-xs text-gray-600">
+        <span className={`flex items-center gap-1.5 font-medium ${isCopilotSpeaking ? 'text-ncss-teal' : 'text-gray-400'}`}>
+          <span className={`w-1.5 h-1.5 rounded-full ${isCopilotSpeaking ? 'bg-ncss-teal animate-pulse' : 'bg-gray-300'}`}></span>
+          {isCopilotSpeaking ? 'Co-pilot speaking' : 'Co-pilot voice'}
+        </span>
+        <select
+          value={playback.voice}
+          onChange={e => updatePlayback({ voice: e.target.value as LiveVoice })}
+          disabled={connectionState !== ConnectionState.DISCONNECTED}
+          className="border border-gray-200 rounded px-1 py-0.5 bg-white disabled:opacity-50"
+          title={connectionState === ConnectionState.DISCONNECTED ? 'Voice of the AI co-pilot' : 'The voice can be changed between sessions'}
+        >
+          {LIVE_VOICES.map(v => <option key={v.name} value={v.name}>{v.name} ({v.description})</option>)}
+        </select>
+        <div className="ml-auto flex items-center gap-2">
+          <button
+            onClick={() => updatePlayback({ muted: !playback.muted })}
+            className={`px-1.5 py-0.5 rounded border ${playback.muted ? 'border-red-200 text-red-600 bg-red-50' : 'border-gray-200 hover:bg-gray-50'}`}
+            title={playback.muted ? 'Unmute the co-pilot' : 'Mute the co-pilot (it still listens and transcribes)'}
+          >
+            {playback.muted ? '🔇 Muted' : '🔊'}
+          </button>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={playback.volume}
+            onChange={e => updatePlayback({ volume: Number(e.target.value), muted: false })}
+            className="w-20 accent-ncss-purple"
+            title={`Volume ${Math.round(playback.volume * 100)}%`}
+          />
+        </div>
+      </div>
+
+      <div className="px-4 py-2 border-b border-gray-100 flex items-center gap-3 text-xs text-gray-600">
+        <span className="font-medium">🌐 Interview in</span>
+        <select
+          value={language.interview}
+          onChange={e => onLanguageChange({ ...language, interview: e.target.value as LanguageCode })}
+          disabled={connectionState !== ConnectionState.DISCONNECTED}
+          className="border border-gray-200 rounded px-1 py-0.5 bg-white disabled:opacity-50"
+          title={connectionState === ConnectionState.DISCONNECTED ? 'Language the interviewee speaks; the co-pilot speaks it too' : 'The interview language can be changed between sessions'}
+        >
+          {LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.label}</option>)}
+        </select>
+        <span className="font-medium">Map in</span>
+        <select
+          value={language.output}
+          onChange={e => onLanguageChange({ ...language, output: e.target.value as LanguageCode })}
+          className="border border-gray-200 rounded px-1 py-0.5 bg-white"
+          title="Language of the journey map, suggestions for the PM and transcript translations"
+        >
+          {OUTPUT_LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.label}</option>)}
+        </select>
+        <button
+          onClick={() => setConsentRequest('review')}
+          className={`ml-auto px-1.5 py-0.5 rounded border ${hasLiveConsent(consent) ? 'border-green-200 text-green-700 hover:bg-green-50' : 'border-amber-200 text-amber-700 hover:bg-amber-50'}`}
+          title={consent ? `Consent: ${describeConsent(consent)}, taken by ${consent.recordedBy}` : 'No consent recorded for this interview yet'}
+        >
+          {consent ? '✓ Consent' : 'Consent needed'}
+        </button>
+      </div>
+
+      <div className="px-4 py-2 border-b border-gray-100 flex items-center gap-3 text-xs text-gray-600">
+        <span className="font-medium">🎙️ Mic</span>
+        <select
+          value={microphoneId}
+          onChange={e => handleMicrophoneChange(e.target.value)}
+          disabled={connectionState === ConnectionState.CONNECTING}
+          className="border border-gray-200 rounded px-1 py-0.5 bg-white disabled:opacity-50 min-w-0 max-w-[14rem] truncate"
+          title="Microphone used for the interview"
+        >
+          <option value="">System default</option>
+          {microphones.filter(m => m.deviceId && m.deviceId !== 'default').map((m, i) => (
+            <option key={m.deviceId} value={m.deviceId}>{m.label || `Microphone ${i + 1}`}</option>
+          ))}
+        </select>
+        <button
+          onClick={handleRecordToggle}
+          disabled={!isRecordingSupported() || !sessionId}
+          className={`px-1.5 py-0.5 rounded border disabled:opacity-50 ${recordingConsent ? 'border-red-200 text-red-600 bg-red-50' : 'border-gray-200 hover:bg-gray-50'}`}
+          title={recordingConsent ? 'Stop recording' : 'Record the interview audio on this device, with the interviewee\'s consent'}
+        >
+          {recordingTime !== null ? `● REC ${formatOffset(recordingTime)}` : recordingConsent ? '● Record: on' : '○ Record'}
+        </button>
+        {hasConsent(consent, 'recording') && (
+          <button
+            onClick={handleWithdrawRecordingConsent}
+            className="text-gray-400 hover:text-red-600 underline"
+            title="The interviewee no longer agrees to being recorded"
+          >
+            Withdraw
+          </button>
+        )}
+        <div className="ml-auto flex-1 max-w-[10rem] h-2 bg-gray-100 rounded-full overflow-hidden" title="Microphone input level">
+          <div
+            className={`h-full transition-[width] duration-100 ${inputWarning === 'clipping' ? 'bg-red-500' : 'bg-ncss-teal'}`}
+            style={{ width: `${inSession ? Math.round(inputLevel * 100) : 0}%` }}
+          ></div>
+        </div>
+      </div>
+
+      {recording && recording.takes.length > 0 && (
+        <div className="px-4 py-2 border-b border-gray-100 flex items-center gap-3 text-xs text-gray-600">
+          <span className="font-medium whitespace-nowrap" title="Click a transcript turn to play that moment">
+            🎧 {formatOffset(recording.takes.reduce((sum, take) => sum + take.duration, 0))} recorded{recording.takes.length > 1 ? ` in ${recording.takes.length} parts` : ''}
+          </span>
+          <audio ref={audioRef} controls className={`h-7 flex-1 min-w-0 ${isPlaybackVisible ? '' : 'hidden'}`} />
+          {!isPlaybackVisible && <span className="flex-1 text-gray-400">Click a transcript turn to play it.</span>}
+          <button
+            onClick={handleDeleteRecording}
+            disabled={recordingTime !== null}
+            className="text-red-600 hover:underline disabled:opacity-50 disabled:no-underline whitespace-nowrap"
+            title={recordingTime !== null ? 'Stop recording first' : 'Delete the audio; the transcript is kept'}
+          >
+            Delete recording
+          </button>
+        </div>
+      )}
+
+      {connectionState === ConnectionState.RECONNECTING && (
+        <div className="px-4 py-2 bg-amber-50 border-b border-amber-200 text-xs text-amber-800">
+          📶 Connection lost. Reconnecting{reconnectAttempt > 1 ? ` (attempt ${reconnectAttempt})` : ''}... Keep talking; audio is kept and sent to the co-pilot once the connection is back.
+        </div>
+      )}
+
+      {connectionState === ConnectionState.CONNECTED && inputWarning && (
+        <div className="px-4 py-2 bg-amber-50 border-b border-amber-200 text-xs text-amber-800">
+          ⚠️ {INPUT_WARNING_MESSAGES[inputWarning]}
+        </div>
+      )}
+
+      {isEditingTranscript ? (
+        <div className="flex-1 min-h-0">
+          <TranscriptEditor
+            transcript={transcriptHistory}
+            participants={participants}
+            onTranscriptChange={setTranscriptHistory}
+            onParticipantsChange={onParticipantsChange}
+          />
+        </div>
+      ) : (
       <div className="flex-1 overflow-y-auto" ref={scrollRef}>
         {showPasteInput && (
           <div className="p-4 bg-gray-50 border-b border-gray-200 sticky top-0 z-10 shadow-sm">
             <textarea
               value={pastedText}
               onChange={(e) => setPastedText(e.target.value)}
-              placeholder="Paste existing transcript or notes here..."
+              placeholder={"Paste existing transcript or notes here...\nLines like \"Interviewer: ...\" are split by speaker."}
               className="w-full h-32 p-3 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-ncss-purple focus:outline-none focus:border-ncss-purple mb-2 resize-none bg-white"
             />
             <button 
@@ -193,25 +669,35 @@ export const LiveSession: React.FC<LiveSessionProps> = ({ onTranscriptUpdate, tr
           {transcriptHistory.length === 0 && !liveInputText && !showPasteInput && (
             <div className="text-center text-gray-400 mt-10 text-sm italic">
               Waiting for input...
-              <br/>Start live interview or paste text.
+              <br/>Start live interview, import a transcript file or paste text.
             </div>
           )}
           
           {/* Committed History */}
-          {transcriptHistory.map((item) => (
-            <div key={item.id} className={`flex ${item.speaker === 'user' ? 'justify-start' : 'justify-end'}`}>
-              <div className={`max-w-[85%] rounded-lg p-3 text-sm ${
+          {transcriptHistory.map((item) => {
+            const playable = item.startTime !== undefined && !!recording?.takes.some(t => t.id === item.recordingTakeId);
+            return (
+            <div key={item.id} data-transcript-id={item.id} className={`flex ${item.speaker === 'user' ? 'justify-start' : 'justify-end'}`}>
+              <div
+                onClick={playable ? () => playMoment(item) : undefined}
+                title={playable ? 'Play this moment of the recording' : undefined}
+                className={`max-w-[85%] rounded-lg p-3 text-sm transition-shadow ${playable ? 'cursor-pointer hover:shadow-md' : ''} ${
                 item.speaker === 'user' 
                   ? 'bg-gray-100 text-gray-800 rounded-bl-none' 
                   : 'bg-ncss-teal/10 text-ncss-teal rounded-br-none border border-ncss-teal/20'
-              }`}>
-                <div className="text-xs font-bold mb-1 opacity-70">
-                  {item.speaker === 'user' ? 'Interviewee / User' : 'Co-Interviewer (Gemini)'}
+              } ${highlightedIds.includes(item.id) ? 'ring-2 ring-amber-400' : ''}`}>
+                <div className="text-xs font-bold mb-1 opacity-70 flex gap-2">
+                  <span>{renderSpeaker(item)}</span>
+                  {item.startTime !== undefined && <span className="font-normal">{playable ? '▶ ' : ''}{formatOffset(item.startTime)}</span>}
                 </div>
                 {item.text}
+                {item.translation?.language === language.output && (
+                  <p className="mt-1 pt-1 border-t border-gray-200 text-xs italic text-gray-500" lang={item.translation.language}>{item.translation.text}</p>
+                )}
               </div>
             </div>
-          ))}
+            );
+          })}
 
           {/* Live Streaming Buffers */}
           {liveInputText && (
@@ -234,6 +720,7 @@ export const LiveSession: React.FC<LiveSessionProps> = ({ onTranscriptUpdate, tr
           )}
         </div>
       </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
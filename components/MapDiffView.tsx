@@ -0,0 +1,110 @@
+import React, { useMemo } from 'react';
+import { JourneyMapData } from '../types';
+import { formatSentiment, laneLabel, mapLanes } from '../services/journeyMap';
+import { StageDiffStatus, diffJourneyMaps, hasChanges } from '../services/mapHistory';
+
+interface Props {
+  title: string;
+  before: JourneyMapData;
+  after: JourneyMapData;
+  onClose: () => void;
+  onAccept?: () => void; // When set, the view acts as an accept/reject preview
+  onReject?: () => void; // Defaults to closing the view
+  acceptLabel?: string;
+  description?: string;
+}
+
+const STATUS_STYLES: Record<StageDiffStatus, string> = {
+  added: 'border-green-300 bg-green-50',
+  removed: 'border-red-300 bg-red-50',
+  changed: 'border-amber-300 bg-amber-50/50',
+  unchanged: 'border-gray-200 bg-white opacity-60',
+};
+
+export const MapDiffView: React.FC<Props> = ({ title, before, after, onClose, onAccept, onReject, acceptLabel = 'Accept Changes', description }) => {
+  const diff = useMemo(() => diffJourneyMaps(before, after), [before, after]);
+  const removedStages = diff.stages.filter(s => s.status === 'removed');
+  // A lane may only exist in the older version if the template changed
+  const labelFor = (lane: string) => (mapLanes(after).some(l => l.key === lane) ? laneLabel(after, lane) : laneLabel(before, lane));
+
+  return (
+    <div className="fixed inset-0 z-[200] bg-slate-900/40 flex items-center justify-center p-6 no-print" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-6xl max-h-[85vh] flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+          <div>
+            <h2 className="font-semibold text-slate-800">{title}</h2>
+            <p className="text-xs text-gray-500">
+              <span className="text-green-700 font-medium">+{diff.addedCount} added</span>
+              {' • '}
+              <span className="text-red-700 font-medium">−{diff.removedCount} removed</span>
+              {diff.titleChanged && <> • Title: "{diff.titleChanged.from}" → "{diff.titleChanged.to}"</>}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-sm font-medium">Close</button>
+        </div>
+
+        {description && (
+          <div className="px-4 py-2 border-b border-gray-100 text-sm text-slate-700">{description}</div>
+        )}
+
+        {removedStages.length > 0 && (
+          <div className="px-4 py-2 bg-red-50 border-b border-red-100 text-sm text-red-700">
+            ⚠️ {removedStages.length} stage{removedStages.length === 1 ? ' was' : 's were'} removed: {removedStages.map(s => s.name).join(', ')}
+          </div>
+        )}
+
+        <div className="flex-1 overflow-auto p-4">
+          {!hasChanges(diff) ? (
+            <p className="text-center text-gray-400 text-sm italic mt-6">No differences between these versions.</p>
+          ) : (
+            <div className="flex gap-3 min-w-max">
+              {diff.stages.map((stage, i) => (
+                <div key={i} className={`w-64 shrink-0 rounded-lg border p-3 text-sm ${STATUS_STYLES[stage.status]}`}>
+                  <div className="font-bold text-slate-800 mb-1">
+                    {stage.previousName && <span className="line-through text-gray-400 font-normal mr-1">{stage.previousName}</span>}
+                    {stage.name}
+                  </div>
+                  <div className="text-[10px] uppercase tracking-wide text-gray-500 mb-2">{stage.status}</div>
+                  {stage.emotion && (
+                    <div className="mb-2 text-gray-700">Emotion: {stage.emotion.from} → {stage.emotion.to}</div>
+                  )}
+                  {stage.sentiment && (
+                    <div className="mb-2 text-gray-700">Sentiment: {formatSentiment(stage.sentiment.from)} → {formatSentiment(stage.sentiment.to)}</div>
+                  )}
+                  {diff.laneKeys.map(lane => {
+                    const { added, removed } = stage.lanes[lane];
+                    if (added.length === 0 && removed.length === 0) return null;
+                    return (
+                      <div key={lane} className="mb-2">
+                        <div className="text-xs font-semibold text-gray-500">{labelFor(lane)}</div>
+                        <ul className="space-y-0.5">
+                          {removed.map((text, idx) => (
+                            <li key={`r${idx}`} className="text-red-700 line-through">− {text}</li>
+                          ))}
+                          {added.map((text, idx) => (
+                            <li key={`a${idx}`} className="text-green-700">+ {text}</li>
+                          ))}
+                        </ul>
+                      </div>
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {onAccept && (
+          <div className="p-4 border-t border-gray-100 flex justify-end gap-2">
+            <button onClick={onReject || onClose} className="px-4 py-2 rounded-lg text-sm font-medium border border-gray-300 text-gray-700 hover:bg-gray-50">
+              Reject
+            </button>
+            <button onClick={onAccept} className="px-4 py-2 rounded-lg text-sm font-medium bg-ncss-purple text-white hover:bg-purple-800">
+              {acceptLabel}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,154 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Participant, TranscriptItem } from '../types';
+import { REDACTION_RULE_LABELS, RedactionRule, RedactionSettings, Redactor, splitPlaceholders } from '../services/redaction';
+import { speakerLabel } from '../services/transcript';
+import { PROVIDER_LABELS, ProviderId } from '../services/llmProvider';
+
+interface Props {
+  settings: RedactionSettings;
+  onChange: (settings: RedactionSettings) => void;
+  transcript: TranscriptItem[];
+  participants: Participant[];
+  providerId: ProviderId;
+  onProviderChange: (id: ProviderId) => void;
+  onClose: () => void;
+}
+
+const RULES = Object.keys(REDACTION_RULE_LABELS) as RedactionRule[];
+
+// Renders redacted text with the placeholders highlighted
+const RedactedText: React.FC<{ text: string }> = ({ text }) => (
+  <>
+    {splitPlaceholders(text).map((part, i) =>
+      i % 2 === 1 ? (
+        <span key={i} className="bg-slate-800 text-white rounded px-1 font-mono text-[11px]">{part}</span>
+      ) : (
+        <React.Fragment key={i}>{part}</React.Fragment>
+      )
+    )}
+  </>
+);
+
+export const PrivacyPanel: React.FC<Props> = ({ settings, onChange, transcript, participants, providerId, onProviderChange, onClose }) => {
+  const [termsDraft, setTermsDraft] = useState(settings.customTerms.join('\n'));
+
+  useEffect(() => setTermsDraft(settings.customTerms.join('\n')), [settings.customTerms]);
+
+  // Same redactor the AI requests use, so the preview is exactly what the provider receives
+  const { redactor, lines } = useMemo(() => {
+    const redactor = new Redactor(settings, participants, transcript);
+    return {
+      redactor,
+      lines: transcript.map(item => ({
+        id: item.id,
+        speaker: redactor.redact(speakerLabel(item, participants)),
+        text: redactor.redact(item.text),
+      })),
+    };
+  }, [settings, participants, transcript]);
+
+  const findings = settings.enabled ? redactor.findings : [];
+
+  const commitTerms = () => {
+    const customTerms = termsDraft.split('\n').map(t => t.trim()).filter(Boolean);
+    if (customTerms.join('\n') !== settings.customTerms.join('\n')) onChange({ ...settings, customTerms });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[200] bg-slate-900/40 flex items-center justify-center p-6 no-print" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-5xl max-h-[85vh] flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+          <h2 className="font-semibold text-slate-800">Privacy &amp; AI Provider</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-sm font-medium">Close</button>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          {/* Settings */}
+          <div className="w-80 shrink-0 border-r border-gray-100 overflow-y-auto p-4 space-y-4 text-sm">
+            <div className="space-y-1.5">
+              <div className="text-xs font-semibold text-gray-500 uppercase tracking-wide">AI provider</div>
+              <select
+                value={providerId}
+                onChange={e => onProviderChange(e.target.value as ProviderId)}
+                className="w-full border border-gray-300 rounded px-2 py-1.5 bg-white"
+              >
+                {(Object.keys(PROVIDER_LABELS) as ProviderId[]).map(id => <option key={id} value={id}>{PROVIDER_LABELS[id]}</option>)}
+              </select>
+              {providerId === 'mock' && (
+                <p className="text-xs text-amber-700">Maps, questions and images are sample data. Nothing is sent over the network.</p>
+              )}
+            </div>
+
+            <label className="flex items-center gap-2 font-medium text-slate-800">
+              <input type="checkbox" checked={settings.enabled} onChange={e => onChange({ ...settings, enabled: e.target.checked })} />
+              Redact transcripts before sending them to the AI
+            </label>
+            {!settings.enabled && (
+              <p className="text-xs text-red-600">⚠️ Transcripts and maps are sent to the AI provider as they are, including any personal data.</p>
+            )}
+
+            <div className="space-y-1.5">
+              <div className="text-xs font-semibold text-gray-500 uppercase tracking-wide">Detect</div>
+              {RULES.map(rule => (
+                <label key={rule} className={`flex items-center gap-2 ${settings.enabled ? '' : 'opacity-50'}`}>
+                  <input
+                    type="checkbox"
+                    checked={settings.rules[rule]}
+                    disabled={!settings.enabled}
+                    onChange={e => onChange({ ...settings, rules: { ...settings.rules, [rule]: e.target.checked } })}
+                  />
+                  {REDACTION_RULE_LABELS[rule]}
+                </label>
+              ))}
+            </div>
+
+            <div className="space-y-1.5">
+              <div className="text-xs font-semibold text-gray-500 uppercase tracking-wide">Always redact</div>
+              <textarea
+                value={termsDraft}
+                onChange={e => setTermsDraft(e.target.value)}
+                onBlur={commitTerms}
+                disabled={!settings.enabled}
+                rows={6}
+                placeholder={"One per line, e.g.\nJunjie\nCase 2024-0193\nBlk 123 Ang Mo Kio"}
+                className="w-full border border-gray-300 rounded p-2 text-sm focus:outline-none focus:ring-2 focus:ring-ncss-purple/40 disabled:bg-gray-50"
+              />
+              <p className="text-xs text-gray-500">Children's names, case numbers, addresses, schools. Matched as whole words, ignoring case.</p>
+            </div>
+
+            <p className="text-xs text-gray-500 border-t border-gray-100 pt-3">
+              Redaction applies to map generation, follow-up questions, chat refinement, synthesis and image prompts.
+              Placeholders in the AI's answers are replaced with the real values on this device.
+              Live co-pilot audio is streamed as sound and cannot be redacted.
+            </p>
+          </div>
+
+          {/* Redacted preview */}
+          <div className="flex-1 flex flex-col min-w-0">
+            <div className="px-4 py-2 border-b border-gray-100 text-xs text-gray-500 flex flex-wrap gap-2 items-center">
+              <span className="font-semibold uppercase tracking-wide">What the AI sees</span>
+              {findings.length === 0 ? (
+                <span>No personal data detected.</span>
+              ) : (
+                findings.map(f => (
+                  <span key={f.placeholder} className="bg-gray-100 rounded px-1.5 py-0.5" title={`Replaced in requests by ${f.placeholder}`}>
+                    <span className="font-mono">{f.placeholder}</span> = {f.value}
+                  </span>
+                ))
+              )}
+            </div>
+            <div className="flex-1 overflow-y-auto p-4 space-y-2 text-sm">
+              {lines.length === 0 && <p className="text-center text-gray-400 italic mt-6">The transcript is empty.</p>}
+              {lines.map(line => (
+                <p key={line.id} className="leading-relaxed">
+                  <span className="font-semibold text-gray-600"><RedactedText text={line.speaker} />: </span>
+                  <RedactedText text={line.text} />
+                </p>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
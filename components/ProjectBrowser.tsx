@@ -0,0 +1,263 @@
+import React, { useEffect, useState } from 'react';
+import { InterviewSession, Project, RetentionPolicy } from '../types';
+import {
+  createProject,
+  createSession,
+  deleteProject,
+  deleteSession,
+  listProjects,
+  listSessions,
+  saveProject,
+} from '../services/projectStore';
+import { RETENTION_OPTIONS, retentionLabel } from '../services/retention';
+import { logAudit } from '../services/auditLog';
+import { allowsAiAnalysis } from '../services/consent';
+
+interface Props {
+  activeSessionId: string | null;
+  onOpenSession: (project: Project, session: InterviewSession) => void;
+  onSynthesize: (project: Project, sessions: InterviewSession[]) => Promise<void>;
+  onProjectSaved: (project: Project) => void; // Keeps the open project in step with changes made here
+  onClose: () => void;
+}
+
+export const ProjectBrowser: React.FC<Props> = ({ activeSessionId, onOpenSession, onSynthesize, onProjectSaved, onClose }) => {
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [sessionsByProject, setSessionsByProject] = useState<Record<string, InterviewSession[]>>({});
+  const [expandedProjectId, setExpandedProjectId] = useState<string | null>(null);
+  const [newProjectName, setNewProjectName] = useState('');
+  const [selectedSessionIds, setSelectedSessionIds] = useState<string[]>([]);
+  const [isSynthesizing, setIsSynthesizing] = useState(false);
+
+  const refresh = async () => {
+    const all = await listProjects();
+    setProjects(all);
+    const entries = await Promise.all(all.map(async p => [p.id, await listSessions(p.id)] as const));
+    setSessionsByProject(Object.fromEntries(entries));
+  };
+
+  useEffect(() => {
+    refresh().catch(e => console.error("Failed to load projects:", e));
+  }, []);
+
+  useEffect(() => {
+    // Expand the project that owns the open session by default
+    if (expandedProjectId || !activeSessionId) return;
+    const owner = Object.entries(sessionsByProject).find(([, sessions]: [string, InterviewSession[]]) => sessions.some(s => s.id === activeSessionId));
+    if (owner) setExpandedProjectId(owner[0]);
+  }, [sessionsByProject, activeSessionId, expandedProjectId]);
+
+  const handleCreateProject = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newProjectName.trim()) return;
+    const project = await createProject(newProjectName);
+    const session = await createSession(project.id);
+    setNewProjectName('');
+    onOpenSession(project, session);
+  };
+
+  const handleNewSession = async (project: Project) => {
+    const session = await createSession(project.id);
+    onOpenSession(project, session);
+  };
+
+  const toggleSelected = (sessionId: string) => {
+    setSelectedSessionIds(prev => prev.includes(sessionId) ? prev.filter(id => id !== sessionId) : [...prev, sessionId]);
+  };
+
+  const handleExpand = (projectId: string | null) => {
+    // Synthesis only combines interviews from the same project
+    setSelectedSessionIds([]);
+    setExpandedProjectId(projectId);
+  };
+
+  const handleSynthesize = async (project: Project) => {
+    const selected = (sessionsByProject[project.id] || []).filter(s => selectedSessionIds.includes(s.id));
+    if (selected.length < 2) return;
+    setIsSynthesizing(true);
+    try {
+      await onSynthesize(project, selected);
+      setSelectedSessionIds([]);
+    } catch (e: any) {
+      console.error("Synthesis Error:", e);
+      alert(`Failed to synthesize interviews: ${e.message || "Unknown error"}. Please try again.`);
+    } finally {
+      setIsSynthesizing(false);
+    }
+  };
+
+  const handleRenameProject = async (project: Project) => {
+    const name = prompt("Rename project", project.name);
+    if (!name || !name.trim()) return;
+    onProjectSaved(await saveProject({ ...project, name: name.trim() }));
+    await refresh();
+  };
+
+  const handleRetentionChange = async (project: Project, changes: RetentionPolicy) => {
+    const retention = { ...project.retention, ...changes };
+    try {
+      onProjectSaved(await saveProject({ ...project, retention }));
+      logAudit('retention', `Set the retention policy of "${project.name}": transcripts ${retentionLabel(retention.transcriptDays)}, audio ${retentionLabel(retention.audioDays)}`, { projectId: project.id });
+      await refresh();
+    } catch (e) {
+      console.error("Failed to save retention policy:", e);
+      alert("Failed to save the retention policy. Please try again.");
+    }
+  };
+
+  const handleDeleteProject = async (project: Project) => {
+    if (sessionsByProject[project.id]?.some(s => s.id === activeSessionId)) {
+      alert("This project contains the open interview. Open another project first.");
+      return;
+    }
+    if (!confirm(`Delete "${project.name}" and all of its interviews? This cannot be undone.`)) return;
+    await deleteProject(project.id);
+    logAudit('delete', `Deleted project "${project.name}" and its ${sessionsByProject[project.id]?.length || 0} interviews`, { projectId: project.id });
+    await refresh();
+  };
+
+  const handleDeleteSession = async (session: InterviewSession) => {
+    if (session.id === activeSessionId) {
+      alert("You cannot delete the interview that is currently open.");
+      return;
+    }
+    if (!confirm(`Delete "${session.title}"? This cannot be undone.`)) return;
+    await deleteSession(session.id);
+    logAudit('delete', `Deleted interview "${session.title}"`, { projectId: session.projectId, sessionId: session.id });
+    await refresh();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[200] bg-slate-900/40 flex items-center justify-center p-6 no-print" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-2xl max-h-[80vh] flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+          <h2 className="font-semibold text-slate-800">Projects & Interviews</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-sm font-medium">Close</button>
+        </div>
+
+        <form onSubmit={handleCreateProject} className="p-4 border-b border-gray-100 flex gap-2">
+          <input
+            type="text"
+            value={newProjectName}
+            onChange={e => setNewProjectName(e.target.value)}
+            placeholder="New project name (e.g., 'Eldercare Intake Study')"
+            className="flex-1 border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-ncss-purple/50"
+          />
+          <button type="submit" disabled={!newProjectName.trim()} className="bg-ncss-purple text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-purple-800 disabled:opacity-50">
+            Create
+          </button>
+        </form>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          {projects.length === 0 && (
+            <p className="text-center text-gray-400 text-sm italic mt-6">No saved projects yet.</p>
+          )}
+
+          {projects.map(project => {
+            const sessions = sessionsByProject[project.id] || [];
+            const isExpanded = expandedProjectId === project.id;
+            return (
+              <div key={project.id} className="border border-gray-200 rounded-lg overflow-hidden">
+                <div className="flex items-center justify-between p-3 bg-white">
+                  <button onClick={() => handleExpand(isExpanded ? null : project.id)} className="flex-1 text-left">
+                    <div className="font-semibold text-slate-800 text-sm">{project.name}</div>
+                    <div className="text-xs text-gray-500">
+                      {sessions.length} interview{sessions.length === 1 ? '' : 's'} • Updated {new Date(project.updatedAt).toLocaleString()}
+                    </div>
+                  </button>
+                  <div className="flex gap-2 text-xs">
+                    <button onClick={() => handleNewSession(project)} className="px-2 py-1 rounded bg-ncss-teal text-white hover:bg-teal-700 font-medium">+ Interview</button>
+                    <button onClick={() => handleRenameProject(project)} className="px-2 py-1 rounded border border-gray-200 text-gray-600 hover:bg-gray-50">Rename</button>
+                    <button onClick={() => handleDeleteProject(project)} className="px-2 py-1 rounded border border-red-100 text-red-600 hover:bg-red-50">Delete</button>
+                  </div>
+                </div>
+
+                {isExpanded && (
+                  <ul className="border-t border-gray-100 bg-gray-50 divide-y divide-gray-100">
+                    <li className="p-3 flex flex-wrap items-center gap-2 text-xs text-gray-600 bg-white">
+                      <span className="font-semibold">Retention:</span>
+                      <label className="flex items-center gap-1">
+                        delete transcripts after
+                        <select
+                          value={project.retention?.transcriptDays ?? ''}
+                          onChange={e => handleRetentionChange(project, { transcriptDays: e.target.value ? Number(e.target.value) : undefined })}
+                          className="border border-gray-200 rounded px-1 py-0.5 bg-white"
+                        >
+                          {RETENTION_OPTIONS.map(o => <option key={o.label} value={o.days ?? ''}>{o.label}</option>)}
+                        </select>
+                      </label>
+                      <label className="flex items-center gap-1">
+                        audio after
+                        <select
+                          value={project.retention?.audioDays ?? ''}
+                          onChange={e => handleRetentionChange(project, { audioDays: e.target.value ? Number(e.target.value) : undefined })}
+                          className="border border-gray-200 rounded px-1 py-0.5 bg-white"
+                        >
+                          {RETENTION_OPTIONS.map(o => <option key={o.label} value={o.days ?? ''}>{o.label}</option>)}
+                        </select>
+                      </label>
+                      <span className="text-gray-400" title="Counted from the day of each interview. Maps are kept without their quotes.">Applied when the app starts, when an interview is opened and every hour</span>
+                    </li>
+                    {sessions.length === 0 && (
+                      <li className="p-3 text-xs text-gray-400 italic">No interviews in this project yet.</li>
+                    )}
+                    {sessions.map(session => (
+                      <li key={session.id} className="p-3 flex items-center justify-between gap-3">
+                        <input
+                          type="checkbox"
+                          checked={selectedSessionIds.includes(session.id)}
+                          onChange={() => toggleSelected(session.id)}
+                          disabled={(session.transcript.length === 0 && !session.journeyMap) || !allowsAiAnalysis(session.consent)}
+                          title={allowsAiAnalysis(session.consent) ? 'Include in synthesis' : 'The interviewee did not consent to AI analysis'}
+                          className="accent-ncss-purple"
+                        />
+                        <div className="flex-1">
+                          <div className="text-sm text-slate-800 font-medium flex items-center gap-2">
+                            {session.title}
+                            {session.sourceSessionIds && (
+                              <span className="text-[10px] uppercase tracking-wide bg-purple-100 text-ncss-purple px-1.5 py-0.5 rounded">Synthesis of {session.sourceSessionIds.length}</span>
+                            )}
+                            {session.id === activeSessionId && (
+                              <span className="text-[10px] uppercase tracking-wide bg-green-100 text-green-700 px-1.5 py-0.5 rounded">Open</span>
+                            )}
+                          </div>
+                          <div className="text-xs text-gray-500">
+                            {session.purgedAt ? `Transcript purged ${new Date(session.purgedAt).toLocaleDateString()}` : `${session.transcript.length} turns`} • {session.journeyMap ? `${session.journeyMap.stages.length} stage map` : 'No map yet'} • {new Date(session.updatedAt).toLocaleString()}
+                          </div>
+                        </div>
+                        <div className="flex gap-2 text-xs">
+                          <button
+                            onClick={() => onOpenSession(project, session)}
+                            disabled={session.id === activeSessionId}
+                            className="px-2 py-1 rounded bg-slate-800 text-white hover:bg-slate-700 disabled:opacity-50"
+                          >
+                            Open
+                          </button>
+                          <button onClick={() => handleDeleteSession(session)} className="px-2 py-1 rounded border border-red-100 text-red-600 hover:bg-red-50">Delete</button>
+                        </div>
+                      </li>
+                    ))}
+                    {sessions.length > 1 && (
+                      <li className="p-3 flex items-center justify-between bg-white">
+                        <span className="text-xs text-gray-500">
+                          Select two or more interviews to build one consolidated map for this client segment.
+                        </span>
+                        <button
+                          onClick={() => handleSynthesize(project)}
+                          disabled={selectedSessionIds.length < 2 || isSynthesizing}
+                          className="text-xs px-3 py-1.5 rounded bg-ncss-purple text-white hover:bg-purple-800 font-medium disabled:opacity-50 shrink-0"
+                        >
+                          {isSynthesizing ? 'Synthesizing...' : `Synthesize ${selectedSessionIds.length || ''} Interviews`}
+                        </button>
+                      </li>
+                    )}
+                  </ul>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { Suggestion, SuggestionStatus } from '../types';
+
+interface Props {
+  suggestions: Suggestion[];
+  onUpdate: (id: string, changes: Partial<Suggestion>) => void;
+  onAskCopilot: ((suggestion: Suggestion) => void) | null; // Only while the live co-pilot is connected
+  onShowEvidence: (ids: string[]) => void;
+}
+
+const STATUS_LABELS: Record<SuggestionStatus, string> = {
+  open: 'Open',
+  asked: 'Asked',
+  skipped: 'Skipped',
+  superseded: 'Not used',
+};
+
+const TYPE_LABELS: Record<Suggestion['type'], string> = {
+  question: '❓ Question',
+  insight: '💡 Insight',
+};
+
+export const SuggestionsPanel: React.FC<Props> = ({ suggestions, onUpdate, onAskCopilot, onShowEvidence }) => {
+  const [showHistory, setShowHistory] = useState(false);
+
+  // Pinned first, then newest
+  const open = suggestions.filter(s => s.status === 'open').sort((a, b) => Number(!!b.pinned) - Number(!!a.pinned));
+  const history = suggestions.filter(s => s.status !== 'open').reverse();
+
+  const renderMeta = (s: Suggestion) => (
+    <div className="flex items-center gap-1.5 text-[11px] text-white/60 mb-1">
+      <span>{TYPE_LABELS[s.type]}</span>
+      {s.target && <span className="px-1.5 rounded bg-white/10 truncate max-w-[10rem]" title={`Targets: ${s.target}`}>{s.target}</span>}
+      {s.pinned && <span title="Pinned">📌</span>}
+    </div>
+  );
+
+  return (
+    <div>
+      {open.length > 0 ? (
+        <ul className="space-y-2">
+          {open.map(s => (
+            <li key={s.id} className="group text-sm bg-white/10 p-2 rounded border border-white/10 hover:bg-white/20 transition-colors">
+              {renderMeta(s)}
+              <p>{s.type === 'question' ? `"${s.text}"` : s.text}</p>
+              <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mt-1.5 text-[11px] text-white/70">
+                {s.type === 'question' && onAskCopilot && (
+                  <button onClick={() => onAskCopilot(s)} className="font-semibold text-white hover:underline" title="The co-pilot asks the interviewee this question out loud">
+                    🔊 Ask via co-pilot
+                  </button>
+                )}
+                {s.type === 'question' && (
+                  <button onClick={() => onUpdate(s.id, { status: 'asked', askedVia: 'interviewer' })} className="hover:text-white">✓ Asked</button>
+                )}
+                <button onClick={() => onUpdate(s.id, { status: 'skipped' })} className="hover:text-white">{s.type === 'question' ? 'Skip' : 'Dismiss'}</button>
+                <button onClick={() => onUpdate(s.id, { pinned: !s.pinned })} className="hover:text-white">{s.pinned ? 'Unpin' : 'Pin'}</button>
+                {s.sourceId && (
+                  <button onClick={() => onShowEvidence([s.sourceId!])} className="ml-auto hover:text-white" title="Show the transcript moment that prompted this">↗ Moment</button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-white/50 italic">Listening to context for suggestions...</p>
+      )}
+
+      {history.length > 0 && (
+        <div className="mt-3">
+          <button onClick={() => setShowHistory(!showHistory)} className="text-xs text-white/70 hover:text-white">
+            {showHistory ? '▼' : '▶'} History ({history.length})
+          </button>
+          {showHistory && (
+            <ul className="mt-2 space-y-1 max-h-48 overflow-y-auto pr-1">
+              {history.map(s => (
+                <li key={s.id} className="text-xs bg-white/5 p-1.5 rounded flex items-start gap-2">
+                  <span className={`shrink-0 px-1 rounded ${s.status === 'asked' ? 'bg-green-400/20 text-green-100' : 'bg-white/10 text-white/60'}`}>
+                    {STATUS_LABELS[s.status]}{s.askedVia === 'copilot' ? ' (co-pilot)' : ''}
+                  </span>
+                  <span className="flex-1 text-white/80">{s.text}</span>
+                  {(s.askedId || s.sourceId) && (
+                    <button
+                      onClick={() => onShowEvidence([s.askedId || s.sourceId!])}
+                      className="shrink-0 text-white/50 hover:text-white"
+                      title={s.askedId ? 'Show where it was asked' : 'Show the moment that prompted it'}
+                    >
+                      ↗
+                    </button>
+                  )}
+                  {s.status !== 'asked' && (
+                    <button onClick={() => onUpdate(s.id, { status: 'open' })} className="shrink-0 text-white/50 hover:text-white" title="Put back on the panel">↺</button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
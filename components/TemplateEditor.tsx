@@ -0,0 +1,320 @@
+import React, { useEffect, useState } from 'react';
+import { JourneyTemplate, LaneDefinition } from '../types';
+import { BLUEPRINT_LANES, DEFAULT_LANES, laneKeyFromLabel } from '../services/journeyMap';
+import { duplicateTemplate, validateTemplate } from '../services/journeyTemplates';
+import { deleteTemplate, listTemplates, saveTemplate } from '../services/projectStore';
+
+interface Props {
+  selectedTemplateId: string;
+  onSelect: (template: JourneyTemplate) => void;
+  onClose: () => void;
+}
+
+const TONE_LABELS: Record<NonNullable<LaneDefinition['tone']>, string> = {
+  neutral: 'Neutral',
+  negative: 'Problems (red)',
+  positive: 'Ideas (green)',
+};
+
+const moveInList = <T,>(list: T[], from: number, to: number): T[] => {
+  if (to < 0 || to >= list.length) return list;
+  const next = [...list];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+};
+
+export const TemplateEditor: React.FC<Props> = ({ selectedTemplateId, onSelect, onClose }) => {
+  const [templates, setTemplates] = useState<JourneyTemplate[]>([]);
+  const [draft, setDraft] = useState<JourneyTemplate | null>(null);
+  const [isDirty, setIsDirty] = useState(false);
+  const [newStage, setNewStage] = useState('');
+  const [newLane, setNewLane] = useState('');
+
+  const refresh = async () => {
+    const all = await listTemplates();
+    setTemplates(all);
+    return all;
+  };
+
+  useEffect(() => {
+    refresh()
+      .then(all => setDraft(all.find(t => t.id === selectedTemplateId) || all[0] || null))
+      .catch(e => console.error("Failed to load templates:", e));
+  }, [selectedTemplateId]);
+
+  const readOnly = !draft || !!draft.builtIn;
+  const problems = draft ? validateTemplate(draft) : [];
+
+  const update = (changes: Partial<JourneyTemplate>) => {
+    if (!draft || readOnly) return;
+    setDraft({ ...draft, ...changes });
+    setIsDirty(true);
+  };
+
+  const handlePick = (template: JourneyTemplate) => {
+    if (isDirty && !confirm("Discard unsaved changes to this template?")) return;
+    setDraft(template);
+    setIsDirty(false);
+  };
+
+  const handleDuplicate = () => {
+    if (!draft) return;
+    setDraft(duplicateTemplate(draft));
+    setIsDirty(true);
+  };
+
+  const handleSave = async () => {
+    if (!draft || problems.length > 0) return;
+    try {
+      const saved = await saveTemplate(draft);
+      await refresh();
+      setDraft(saved);
+      setIsDirty(false);
+    } catch (e: any) {
+      alert(`Failed to save template: ${e.message || "Unknown error"}`);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!draft || readOnly) return;
+    if (!confirm(`Delete the "${draft.name}" template? Existing maps keep their lanes.`)) return;
+    await deleteTemplate(draft.id);
+    const all = await refresh();
+    setDraft(all[0] || null);
+    setIsDirty(false);
+  };
+
+  // --- Stages ---
+
+  const handleAddStage = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft || !newStage.trim()) return;
+    update({ stages: [...draft.stages, newStage.trim()] });
+    setNewStage('');
+  };
+
+  // --- Lanes ---
+
+  const updateLane = (index: number, changes: Partial<LaneDefinition>) => {
+    if (!draft) return;
+    update({ lanes: draft.lanes.map((lane, i) => (i === index ? { ...lane, ...changes } : lane)) });
+  };
+
+  const handleAddLane = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft || !newLane.trim()) return;
+    const base = laneKeyFromLabel(newLane);
+    let key = base;
+    for (let n = 2; draft.lanes.some(l => l.key === key); n++) key = `${base}_${n}`;
+    update({ lanes: [...draft.lanes, { key, label: newLane.trim(), kind: 'items' }] });
+    setNewLane('');
+  };
+
+  // Standard and blueprint lanes that are not in the template yet can be added back with one click
+  const missingDefaultLanes = draft ? [...DEFAULT_LANES, ...BLUEPRINT_LANES].filter(d => !draft.lanes.some(l => l.key === d.key)) : [];
+
+  return (
+    <div className="fixed inset-0 z-[200] bg-slate-900/40 flex items-center justify-center p-6 no-print" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-4xl max-h-[85vh] flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+          <h2 className="font-semibold text-slate-800">Journey Templates</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-sm font-medium">Close</button>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          {/* Template list */}
+          <ul className="w-60 shrink-0 border-r border-gray-100 overflow-y-auto divide-y divide-gray-100">
+            {templates.map(template => (
+              <li key={template.id}>
+                <button
+                  onClick={() => handlePick(template)}
+                  className={`w-full text-left p-3 text-sm hover:bg-gray-50 ${draft?.id === template.id ? 'bg-ncss-purple/5' : ''}`}
+                >
+                  <div className="font-medium text-slate-800 flex items-center gap-2">
+                    {template.name}
+                    {template.id === selectedTemplateId && (
+                      <span className="text-[10px] uppercase tracking-wide bg-green-100 text-green-700 px-1.5 py-0.5 rounded">In use</span>
+                    )}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {template.builtIn ? 'Built-in' : 'Team template'} • {template.stages.length} stages • {template.lanes.length} lanes
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          {/* Template details */}
+          {draft ? (
+            <div className="flex-1 overflow-y-auto p-4 space-y-5 text-sm">
+              <div className="space-y-2">
+                <input
+                  type="text"
+                  value={draft.name}
+                  onChange={e => update({ name: e.target.value })}
+                  disabled={readOnly}
+                  className="w-full font-semibold text-slate-800 border border-gray-300 rounded-lg px-3 py-2 disabled:bg-gray-50 disabled:border-gray-100"
+                />
+                <input
+                  type="text"
+                  value={draft.description || ''}
+                  onChange={e => update({ description: e.target.value })}
+                  disabled={readOnly}
+                  placeholder="Description"
+                  className="w-full text-gray-600 border border-gray-300 rounded-lg px-3 py-1.5 disabled:bg-gray-50 disabled:border-gray-100"
+                />
+                {readOnly && (
+                  <p className="text-xs text-gray-500">Built-in templates cannot be changed. Duplicate this one to adapt it for your team.</p>
+                )}
+              </div>
+
+              <section>
+                <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2">Stages</h3>
+                <ol className="space-y-1">
+                  {draft.stages.map((stage, i) => (
+                    <li key={i} className="flex items-center gap-2">
+                      <span className="w-5 text-right text-xs text-gray-400">{i + 1}.</span>
+                      <input
+                        type="text"
+                        value={stage}
+                        onChange={e => update({ stages: draft.stages.map((s, j) => (j === i ? e.target.value : s)) })}
+                        disabled={readOnly}
+                        className="flex-1 border border-gray-200 rounded px-2 py-1 disabled:bg-white disabled:border-transparent"
+                      />
+                      {!readOnly && (
+                        <div className="flex gap-0.5 text-xs">
+                          <button onClick={() => update({ stages: moveInList(draft.stages, i, i - 1) })} disabled={i === 0} className="px-1 text-gray-400 hover:text-slate-800 disabled:opacity-30" title="Move up">▲</button>
+                          <button onClick={() => update({ stages: moveInList(draft.stages, i, i + 1) })} disabled={i === draft.stages.length - 1} className="px-1 text-gray-400 hover:text-slate-800 disabled:opacity-30" title="Move down">▼</button>
+                          <button onClick={() => update({ stages: draft.stages.filter((_, j) => j !== i) })} className="px-1 text-gray-300 hover:text-red-500" title="Remove stage">✕</button>
+                        </div>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+                {!readOnly && (
+                  <form onSubmit={handleAddStage} className="flex gap-2 mt-2">
+                    <input
+                      type="text"
+                      value={newStage}
+                      onChange={e => setNewStage(e.target.value)}
+                      placeholder="New stage name"
+                      className="flex-1 border border-gray-300 rounded px-2 py-1"
+                    />
+                    <button type="submit" disabled={!newStage.trim()} className="px-3 py-1 rounded border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50">+ Stage</button>
+                  </form>
+                )}
+              </section>
+
+              <section>
+                <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2">Lanes</h3>
+                <ol className="space-y-2">
+                  {draft.lanes.map((lane, i) => (
+                    <li key={lane.key} className="border border-gray-100 rounded-lg p-2 space-y-1">
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="text"
+                          value={lane.label}
+                          onChange={e => updateLane(i, { label: e.target.value })}
+                          disabled={readOnly}
+                          className="flex-1 font-medium border border-gray-200 rounded px-2 py-1 disabled:bg-white disabled:border-transparent"
+                        />
+                        {lane.kind === 'items' ? (
+                          <select
+                            value={lane.tone || 'neutral'}
+                            onChange={e => updateLane(i, { tone: e.target.value as LaneDefinition['tone'] })}
+                            disabled={readOnly}
+                            className="text-xs border border-gray-200 rounded px-1 py-1 bg-white"
+                          >
+                            {Object.entries(TONE_LABELS).map(([tone, label]) => <option key={tone} value={tone}>{label}</option>)}
+                          </select>
+                        ) : (
+                          <span className="text-[10px] uppercase tracking-wide text-gray-400">{lane.kind === 'emotion' ? 'Emotion' : 'Touchpoints'}</span>
+                        )}
+                        {lane.zone && lane.zone !== 'customer' && (
+                          <span className="text-[10px] uppercase tracking-wide bg-purple-100 text-ncss-purple px-1.5 py-0.5 rounded" title="Service blueprint lane">{lane.zone}</span>
+                        )}
+                        {!readOnly && (
+                          <div className="flex gap-0.5 text-xs">
+                            <button onClick={() => update({ lanes: moveInList(draft.lanes, i, i - 1) })} disabled={i === 0} className="px-1 text-gray-400 hover:text-slate-800 disabled:opacity-30" title="Move up">▲</button>
+                            <button onClick={() => update({ lanes: moveInList(draft.lanes, i, i + 1) })} disabled={i === draft.lanes.length - 1} className="px-1 text-gray-400 hover:text-slate-800 disabled:opacity-30" title="Move down">▼</button>
+                            <button onClick={() => update({ lanes: draft.lanes.filter((_, j) => j !== i) })} className="px-1 text-gray-300 hover:text-red-500" title="Remove lane">✕</button>
+                          </div>
+                        )}
+                      </div>
+                      <input
+                        type="text"
+                        value={lane.description || ''}
+                        onChange={e => updateLane(i, { description: e.target.value })}
+                        disabled={readOnly}
+                        placeholder="What the AI should put in this lane"
+                        className="w-full text-xs text-gray-600 border border-gray-200 rounded px-2 py-1 disabled:bg-white disabled:border-transparent"
+                      />
+                    </li>
+                  ))}
+                </ol>
+                {!readOnly && (
+                  <div className="mt-2 space-y-2">
+                    <form onSubmit={handleAddLane} className="flex gap-2">
+                      <input
+                        type="text"
+                        value={newLane}
+                        onChange={e => setNewLane(e.target.value)}
+                        placeholder="Custom lane (e.g., 'Policies', 'Caregiver Involvement')"
+                        className="flex-1 border border-gray-300 rounded px-2 py-1"
+                      />
+                      <button type="submit" disabled={!newLane.trim()} className="px-3 py-1 rounded border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50">+ Lane</button>
+                    </form>
+                    {missingDefaultLanes.length > 0 && (
+                      <div className="flex flex-wrap gap-2 text-xs">
+                        {missingDefaultLanes.map(lane => (
+                          <button key={lane.key} onClick={() => update({ lanes: [...draft.lanes, lane] })} className="px-2 py-0.5 rounded border border-dashed border-gray-300 text-gray-500 hover:text-ncss-purple">
+                            + {lane.label}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </section>
+
+              {problems.length > 0 && !readOnly && (
+                <ul className="text-xs text-amber-700 space-y-0.5">
+                  {problems.map(p => <li key={p}>⚠️ {p}</li>)}
+                </ul>
+              )}
+            </div>
+          ) : (
+            <p className="flex-1 text-center text-gray-400 text-sm italic mt-6">No templates available.</p>
+          )}
+        </div>
+
+        {draft && (
+          <div className="p-4 border-t border-gray-100 flex justify-between gap-2">
+            <div className="flex gap-2">
+              <button onClick={handleDuplicate} className="px-3 py-2 rounded-lg text-sm font-medium border border-gray-300 text-gray-700 hover:bg-gray-50">Duplicate</button>
+              {!readOnly && (
+                <button onClick={handleDelete} className="px-3 py-2 rounded-lg text-sm font-medium border border-red-100 text-red-600 hover:bg-red-50">Delete</button>
+              )}
+            </div>
+            <div className="flex gap-2">
+              {!readOnly && (
+                <button onClick={handleSave} disabled={!isDirty || problems.length > 0} className="px-4 py-2 rounded-lg text-sm font-medium bg-slate-800 text-white hover:bg-slate-700 disabled:opacity-50">
+                  Save Template
+                </button>
+              )}
+              <button
+                onClick={() => onSelect(draft)}
+                disabled={isDirty || problems.length > 0}
+                title={isDirty ? 'Save the template first' : undefined}
+                className="px-4 py-2 rounded-lg text-sm font-medium bg-ncss-purple text-white hover:bg-purple-800 disabled:opacity-50"
+              >
+                Use for this Project
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
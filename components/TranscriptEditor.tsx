@@ -0,0 +1,219 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Participant, ParticipantRole, TranscriptItem } from '../types';
+import {
+  ROLE_LABELS,
+  assignSpeaker,
+  createParticipant,
+  deleteTurn,
+  mergeWithNext,
+  searchTranscript,
+  speakerOf,
+  splitTurn,
+  updateTurnText,
+} from '../services/transcript';
+import { formatOffset } from '../services/transcriptImport';
+
+interface Props {
+  transcript: TranscriptItem[];
+  participants: Participant[];
+  onTranscriptChange: (transcript: TranscriptItem[]) => void;
+  onParticipantsChange: (participants: Participant[]) => void;
+}
+
+const HUMAN_ROLES: ParticipantRole[] = ['interviewer', 'interviewee', 'caregiver'];
+
+interface TurnProps {
+  item: TranscriptItem;
+  participants: Participant[];
+  isMatch: boolean;
+  isCurrentMatch: boolean;
+  isLast: boolean;
+  onAssign: (participantId: string | null) => void;
+  onTextChange: (text: string) => void;
+  onSplit: (offset: number) => void;
+  onMergeNext: () => void;
+  onDelete: () => void;
+}
+
+// One editable turn; text is committed on blur so typing does not trigger an autosave per keystroke
+const TurnEditor: React.FC<TurnProps> = ({ item, participants, isMatch, isCurrentMatch, isLast, onAssign, onTextChange, onSplit, onMergeNext, onDelete }) => {
+  const [draft, setDraft] = useState(item.text);
+  const caretRef = useRef(0);
+  const speaker = speakerOf(item, participants);
+
+  useEffect(() => setDraft(item.text), [item.text]);
+
+  const commit = () => {
+    if (draft.trim() && draft !== item.text) onTextChange(draft.trim());
+    else setDraft(item.text);
+  };
+
+  return (
+    <div
+      data-transcript-id={item.id}
+      className={`rounded-lg border p-2 space-y-1.5 ${isCurrentMatch ? 'border-amber-400 ring-2 ring-amber-300' : isMatch ? 'border-amber-200 bg-amber-50/50' : 'border-gray-200'}`}
+    >
+      <div className="flex items-center gap-2 text-xs">
+        {item.speaker === 'model' ? (
+          <span className="font-bold text-ncss-teal">{speaker?.name} ({ROLE_LABELS.copilot})</span>
+        ) : (
+          <select
+            value={item.participantId || ''}
+            onChange={e => onAssign(e.target.value || null)}
+            className={`border rounded px-1 py-0.5 bg-white ${speaker ? 'border-gray-200' : 'border-amber-300 text-amber-700'}`}
+            title="Who said this"
+          >
+            <option value="">{item.speakerName ? `${item.speakerName} (unassigned)` : 'Unassigned speaker'}</option>
+            {participants.filter(p => p.role !== 'copilot').map(p => (
+              <option key={p.id} value={p.id}>{p.name} ({ROLE_LABELS[p.role]})</option>
+            ))}
+          </select>
+        )}
+        {item.startTime !== undefined && <span className="text-gray-400">{formatOffset(item.startTime)}</span>}
+        <div className="ml-auto flex gap-1">
+          <button onClick={() => onSplit(caretRef.current)} className="px-1.5 py-0.5 rounded border border-gray-200 text-gray-600 hover:bg-gray-50" title="Split this turn at the cursor">Split</button>
+          <button onClick={onMergeNext} disabled={isLast} className="px-1.5 py-0.5 rounded border border-gray-200 text-gray-600 hover:bg-gray-50 disabled:opacity-40" title="Merge with the next turn">Merge ↓</button>
+          <button onClick={onDelete} className="px-1.5 py-0.5 rounded border border-red-100 text-red-600 hover:bg-red-50" title="Delete turn">✕</button>
+        </div>
+      </div>
+      <textarea
+        value={draft}
+        onChange={e => setDraft(e.target.value)}
+        onSelect={e => { caretRef.current = e.currentTarget.selectionStart; }}
+        onBlur={commit}
+        rows={Math.min(6, Math.max(2, Math.ceil(draft.length / 60)))}
+        className="w-full text-sm border border-gray-200 rounded p-1.5 focus:outline-none focus:ring-2 focus:ring-ncss-purple/40 resize-y"
+      />
+    </div>
+  );
+};
+
+export const TranscriptEditor: React.FC<Props> = ({ transcript, participants, onTranscriptChange, onParticipantsChange }) => {
+  const [query, setQuery] = useState('');
+  const [matchIndex, setMatchIndex] = useState(0);
+  const [newName, setNewName] = useState('');
+  const [newRole, setNewRole] = useState<ParticipantRole>('interviewee');
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const matches = searchTranscript(transcript, query);
+  const currentMatch = matches.length > 0 ? matches[Math.min(matchIndex, matches.length - 1)] : null;
+
+  useEffect(() => setMatchIndex(0), [query]);
+
+  useEffect(() => {
+    if (!currentMatch || !listRef.current) return;
+    listRef.current.querySelector<HTMLElement>(`[data-transcript-id="${CSS.escape(currentMatch)}"]`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [currentMatch]);
+
+  const stepMatch = (delta: number) => {
+    if (matches.length === 0) return;
+    setMatchIndex(prev => (prev + delta + matches.length) % matches.length);
+  };
+
+  // --- Participants ---
+
+  const handleAddParticipant = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    onParticipantsChange([...participants, createParticipant(newName, newRole)]);
+    setNewName('');
+  };
+
+  const updateParticipant = (id: string, changes: Partial<Participant>) =>
+    onParticipantsChange(participants.map(p => (p.id === id ? { ...p, ...changes } : p)));
+
+  const handleRemoveParticipant = (participant: Participant) => {
+    const turns = transcript.filter(item => item.participantId === participant.id).length;
+    if (turns > 0 && !confirm(`${participant.name} speaks in ${turns} turns. Remove them and leave those turns unassigned?`)) return;
+    onParticipantsChange(participants.filter(p => p.id !== participant.id));
+    if (turns > 0) {
+      onTranscriptChange(transcript.reduce((next, item) => (item.participantId === participant.id ? assignSpeaker(next, item.id, null) : next), transcript));
+    }
+  };
+
+  const handleDeleteTurn = (item: TranscriptItem) => {
+    if (!confirm("Delete this turn? Map items citing it will lose their evidence link.")) return;
+    onTranscriptChange(deleteTurn(transcript, item.id));
+  };
+
+  const unassignedCount = transcript.filter(item => !speakerOf(item, participants)).length;
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-3 border-b border-gray-100 bg-gray-50 space-y-2 text-xs">
+        <div className="font-semibold text-gray-500 uppercase tracking-wide">Speakers</div>
+        <ul className="space-y-1">
+          {participants.filter(p => p.role !== 'copilot').map(p => (
+            <li key={p.id} className="flex items-center gap-2">
+              <input
+                type="text"
+                value={p.name}
+                onChange={e => updateParticipant(p.id, { name: e.target.value })}
+                className="flex-1 border border-gray-200 rounded px-2 py-1 bg-white"
+              />
+              <select value={p.role} onChange={e => updateParticipant(p.id, { role: e.target.value as ParticipantRole })} className="border border-gray-200 rounded px-1 py-1 bg-white">
+                {HUMAN_ROLES.map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+              </select>
+              <button onClick={() => handleRemoveParticipant(p)} className="px-1 text-gray-300 hover:text-red-500" title="Remove speaker">✕</button>
+            </li>
+          ))}
+        </ul>
+        <form onSubmit={handleAddParticipant} className="flex gap-2">
+          <input
+            type="text"
+            value={newName}
+            onChange={e => setNewName(e.target.value)}
+            placeholder="Add speaker (e.g., 'Mdm Lim')"
+            className="flex-1 border border-gray-300 rounded px-2 py-1"
+          />
+          <select value={newRole} onChange={e => setNewRole(e.target.value as ParticipantRole)} className="border border-gray-300 rounded px-1 py-1 bg-white">
+            {HUMAN_ROLES.map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+          </select>
+          <button type="submit" disabled={!newName.trim()} className="px-2 py-1 rounded bg-slate-800 text-white hover:bg-slate-700 disabled:opacity-50">Add</button>
+        </form>
+        {unassignedCount > 0 && (
+          <p className="text-amber-700">⚠️ {unassignedCount} turn{unassignedCount === 1 ? '' : 's'} without a speaker. The AI will guess who said {unassignedCount === 1 ? 'it' : 'them'}.</p>
+        )}
+
+        <div className="flex items-center gap-2 pt-1">
+          <input
+            type="search"
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            onKeyDown={e => { if (e.key === 'Enter') { e.preventDefault(); stepMatch(e.shiftKey ? -1 : 1); } }}
+            placeholder="Search transcript..."
+            className="flex-1 border border-gray-300 rounded px-2 py-1"
+          />
+          {query.trim() && (
+            <>
+              <span className="text-gray-500 whitespace-nowrap">{matches.length === 0 ? 'No matches' : `${Math.min(matchIndex, matches.length - 1) + 1} of ${matches.length}`}</span>
+              <button onClick={() => stepMatch(-1)} disabled={matches.length === 0} className="px-1 text-gray-500 hover:text-slate-800 disabled:opacity-30" title="Previous match">▲</button>
+              <button onClick={() => stepMatch(1)} disabled={matches.length === 0} className="px-1 text-gray-500 hover:text-slate-800 disabled:opacity-30" title="Next match">▼</button>
+            </>
+          )}
+        </div>
+      </div>
+
+      <div ref={listRef} className="flex-1 overflow-y-auto p-3 space-y-2">
+        {transcript.length === 0 && (
+          <p className="text-center text-gray-400 text-sm italic mt-6">The transcript is empty.</p>
+        )}
+        {transcript.map((item, i) => (
+          <TurnEditor
+            key={item.id}
+            item={item}
+            participants={participants}
+            isMatch={matches.includes(item.id)}
+            isCurrentMatch={item.id === currentMatch}
+            isLast={i === transcript.length - 1}
+            onAssign={participantId => onTranscriptChange(assignSpeaker(transcript, item.id, participantId))}
+            onTextChange={text => onTranscriptChange(updateTurnText(transcript, item.id, text))}
+            onSplit={offset => onTranscriptChange(splitTurn(transcript, item.id, offset))}
+            onMergeNext={() => onTranscriptChange(mergeWithNext(transcript, item.id))}
+            onDelete={() => handleDeleteTurn(item)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { MapRevisionSource } from '../types';
+import { MapHistory, canRedo, canUndo } from '../services/mapHistory';
+
+interface Props {
+  history: MapHistory;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJumpTo: (index: number) => void;
+  onCompare: (index: number) => void;
+}
+
+const SOURCE_STYLES: Record<MapRevisionSource, string> = {
+  generate: 'bg-ncss-teal/10 text-ncss-teal',
+  live: 'bg-green-100 text-green-700',
+  refine: 'bg-purple-100 text-ncss-purple',
+  edit: 'bg-gray-100 text-gray-600',
+  synthesis: 'bg-amber-100 text-amber-700',
+};
+
+export const VersionTimeline: React.FC<Props> = ({ history, onUndo, onRedo, onJumpTo, onCompare }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const current = history.revisions[history.index];
+
+  if (!current) return null;
+
+  return (
+    <div className="relative flex items-center gap-2 px-4 py-2 border-b border-gray-100 bg-gray-50 text-xs no-print">
+      <button onClick={onUndo} disabled={!canUndo(history)} className="px-2 py-1 rounded border border-gray-200 bg-white text-gray-700 hover:bg-gray-100 disabled:opacity-40" title="Undo">
+        ↶ Undo
+      </button>
+      <button onClick={onRedo} disabled={!canRedo(history)} className="px-2 py-1 rounded border border-gray-200 bg-white text-gray-700 hover:bg-gray-100 disabled:opacity-40" title="Redo">
+        ↷ Redo
+      </button>
+      <span className="text-gray-500 truncate">
+        Version {history.index + 1} of {history.revisions.length}: <span className="font-medium text-slate-700">{current.label}</span>
+      </span>
+      <button onClick={() => setIsOpen(!isOpen)} className="ml-auto px-2 py-1 rounded border border-gray-200 bg-white text-gray-700 hover:bg-gray-100">
+        {isOpen ? 'Hide History' : 'History'}
+      </button>
+
+      {isOpen && (
+        <ol className="absolute right-4 top-full mt-1 z-[150] w-96 max-h-80 overflow-y-auto bg-white rounded-lg shadow-lg border border-gray-200 divide-y divide-gray-100">
+          {history.revisions.map((revision, index) => ({ revision, index })).reverse().map(({ revision, index }) => (
+            <li key={revision.id} className={`p-2 flex items-center gap-2 ${index === history.index ? 'bg-ncss-teal/5' : ''} ${index > history.index ? 'opacity-60' : ''}`}>
+              <span className={`shrink-0 px-1.5 py-0.5 rounded text-[10px] uppercase tracking-wide ${SOURCE_STYLES[revision.source]}`}>{revision.source}</span>
+              <div className="flex-1 min-w-0">
+                <div className="truncate text-slate-700" title={revision.label}>{revision.label}</div>
+                <div className="text-[10px] text-gray-400">{new Date(revision.createdAt).toLocaleString()}</div>
+              </div>
+              {index === history.index ? (
+                <span className="text-[10px] font-bold text-ncss-teal">CURRENT</span>
+              ) : (
+                <>
+                  <button onClick={() => onCompare(index)} className="text-ncss-purple hover:underline">Diff</button>
+                  <button onClick={() => { onJumpTo(index); setIsOpen(false); }} className="text-ncss-teal hover:underline">Restore</button>
+                </>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
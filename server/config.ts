@@ -0,0 +1,37 @@
+// --- Server Configuration ---
+// Read once at start-up from the environment (and .env.local when present).
+
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // No .env.local; rely on the real environment
+}
+
+export interface RateLimit {
+  limit: number;
+  windowMs: number;
+}
+
+export const config = {
+  port: Number(process.env.PORT) || 8787,
+  geminiApiKey: process.env.GEMINI_API_KEY || '',
+  // For the "openai" provider; the browser calls /api/openai and never sees the key
+  openAi: {
+    apiKey: process.env.OPENAI_API_KEY || '',
+    baseUrl: process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+  },
+  // Set when an SSO reverse proxy puts the signed-in user in a header, e.g. "x-forwarded-user".
+  // Without it, limits apply per client IP address.
+  trustedUserHeader: process.env.TRUSTED_USER_HEADER?.toLowerCase() || '',
+  // Origin allowed to call the API when the frontend is served from elsewhere
+  allowedOrigin: process.env.ALLOWED_ORIGIN || '',
+  // Built frontend to serve alongside the API in production
+  staticDir: process.env.STATIC_DIR || 'dist',
+  maxBodyBytes: 2 * 1024 * 1024,
+  rateLimits: {
+    text: { limit: Number(process.env.RATE_LIMIT_TEXT_PER_MIN) || 30, windowMs: 60_000 },
+    image: { limit: Number(process.env.RATE_LIMIT_IMAGE_PER_MIN) || 10, windowMs: 60_000 },
+    live: { limit: Number(process.env.RATE_LIMIT_LIVE_PER_HOUR) || 20, windowMs: 60 * 60_000 },
+  } satisfies Record<string, RateLimit>,
+  maxConcurrentLiveSessions: 2,
+};
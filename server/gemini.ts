@@ -0,0 +1,140 @@
+import { GoogleGenAI, Modality } from "@google/genai";
+import type { WebSocket } from "ws";
+import type { LlmTask } from "../services/llmProvider";
+import type { LiveClientFrame, LiveServerFrame, LiveVoice } from "../services/liveProtocol";
+import type { LanguageCode } from "../types";
+import { languageName } from "../services/languages";
+import { config } from "./config";
+
+// --- Gemini (server side) ---
+// The only place the API key is used.
+
+export const TEXT_MODELS: Record<LlmTask, string> = {
+  map: 'gemini-2.5-flash',
+  mapMerge: 'gemini-2.5-flash',
+  liveMap: 'gemini-2.5-flash',
+  questions: 'gemini-2.5-flash',
+  refine: 'gemini-2.5-flash',
+  synthesis: 'gemini-2.5-flash',
+  coverage: 'gemini-2.5-flash',
+  translate: 'gemini-2.5-flash',
+};
+const IMAGE_MODEL = 'gemini-2.5-flash-image';
+const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+
+// Kept on the server so the relay cannot be used as a general-purpose voice assistant
+const LIVE_SYSTEM_INSTRUCTION = `You are a helpful co-interviewer for a social service product manager mapping a customer journey.
+        When asked to start, provide a brief, warm preamble setting the context and ask a gentle opening question.
+        During the rest of the interview, primarily listen.
+        Only speak if you identify a critical missing piece of information regarding the user journey (e.g., missed touchpoints or emotions).
+        Do not repeat what the user says.`;
+
+// The interviewee hears the co-pilot in their own language; English sessions keep the instruction as is
+const liveSystemInstruction = (language: LanguageCode) => language === 'en' ? LIVE_SYSTEM_INSTRUCTION : `${LIVE_SYSTEM_INSTRUCTION}
+        The interviewee speaks ${languageName(language)}. Always speak to them in ${languageName(language)}, including the preamble and any questions, even when the instructions you receive are in English.`;
+
+const ai = new GoogleGenAI({ apiKey: config.geminiApiKey });
+
+export const generateJson = async (task: LlmTask, prompt: string, schema: object): Promise<string> => {
+  const response = await ai.models.generateContent({
+    model: TEXT_MODELS[task],
+    contents: prompt,
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: schema,
+    },
+  });
+  if (!response.text) throw new Error("Empty response from AI");
+  return response.text;
+};
+
+export const generateImage = async (prompt: string): Promise<string | null> => {
+  const response = await ai.models.generateContent({
+    model: IMAGE_MODEL,
+    contents: { parts: [{ text: prompt }] },
+    config: {
+      imageConfig: {
+        aspectRatio: "1:1",
+      },
+    },
+  });
+  for (const part of response.candidates?.[0]?.content?.parts || []) {
+    if (part.inlineData) {
+      return `data:image/png;base64,${part.inlineData.data}`;
+    }
+  }
+  return null;
+};
+
+type LiveSession = Awaited<ReturnType<typeof ai.live.connect>>;
+
+// Pipes one browser WebSocket to one Gemini Live session. With a resumeHandle the browser is
+// reconnecting after a drop, and Gemini restores the earlier session's context.
+export const relayLiveSession = async (client: WebSocket, voice: LiveVoice, language: LanguageCode, resumeHandle?: string) => {
+  const send = (frame: LiveServerFrame) => {
+    if (client.readyState === client.OPEN) client.send(JSON.stringify(frame));
+  };
+
+  const forward = (live: LiveSession, frame: LiveClientFrame) => {
+    if (frame.type === 'audio' && typeof frame.data === 'string') {
+      live.sendRealtimeInput({ media: { data: frame.data, mimeType: frame.mimeType || 'audio/pcm;rate=16000' } });
+    } else if (frame.type === 'text' && typeof frame.text === 'string') {
+      live.sendClientContent({ turns: [{ role: 'user', parts: [{ text: frame.text }] }], turnComplete: frame.turnComplete !== false });
+    }
+  };
+
+  // Listening starts before the session does: the browser sends audio as soon as it hears "open",
+  // which Gemini reports before connect() resolves, so early frames wait here until then
+  let ready: LiveSession | undefined;
+  const pending: LiveClientFrame[] = [];
+  client.on('message', raw => {
+    let frame: LiveClientFrame;
+    try {
+      frame = JSON.parse(raw.toString());
+    } catch {
+      return;
+    }
+    if (ready) forward(ready, frame);
+    else pending.push(frame);
+  });
+
+  let session: LiveSession;
+  try {
+    session = await ai.live.connect({
+      model: LIVE_MODEL,
+      callbacks: {
+        onopen: () => send({ type: 'open' }),
+        onmessage: message => send({ type: 'message', message }),
+        onerror: e => send({ type: 'error', message: e.message || 'Live session error' }),
+        onclose: () => client.close(1000),
+      },
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } },
+        },
+        systemInstruction: liveSystemInstruction(language),
+        inputAudioTranscription: {},
+        outputAudioTranscription: {},
+        // Sends sessionResumptionUpdate handles to the browser so it can reconnect into the same session
+        sessionResumption: { handle: resumeHandle },
+        // Without compression an audio session ends after about 15 minutes; interviews run for an hour
+        contextWindowCompression: { slidingWindow: {} },
+      },
+    });
+  } catch (e: any) {
+    send({ type: 'error', message: e.message || 'Could not connect to the live model' });
+    client.close(1011);
+    return;
+  }
+
+  // The PM may have hung up while the session was starting
+  if (client.readyState !== client.OPEN) {
+    session.close();
+    return;
+  }
+  pending.splice(0).forEach(frame => forward(session, frame));
+  ready = session;
+
+  client.on('close', () => session.close());
+};
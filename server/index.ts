@@ -0,0 +1,228 @@
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { createReadStream, existsSync, statSync } from "node:fs";
+import { extname, join, normalize, resolve, sep } from "node:path";
+import { WebSocket, WebSocketServer } from "ws";
+import type { LlmTask } from "../services/llmProvider";
+import { DEFAULT_LIVE_VOICE, LIVE_RELAY_PATH, MAX_RESUME_HANDLE_LENGTH, isLiveVoice } from "../services/liveProtocol";
+import { isLanguageCode } from "../services/languages";
+import { config } from "./config";
+import { TEXT_MODELS, generateImage, generateJson, relayLiveSession } from "./gemini";
+import { forwardOpenAi, isOpenAiPath } from "./openAi";
+import { RateLimiter } from "./rateLimiter";
+
+// --- AIMS API Server ---
+// Holds the Gemini and OpenAI API keys and exposes the few calls the frontend needs:
+//   POST /api/ai/:task  { prompt, schema } -> { text }   (map, mapMerge, liveMap, questions, refine, synthesis, coverage, translate)
+//   POST /api/ai/image  { prompt }         -> { image }
+//   POST /api/openai/chat/completions, /api/openai/images/generations  (forwarded to OPENAI_BASE_URL)
+//   WS   /api/live?voice=Kore[&language=zh][&resume=handle]  (Live audio relay)
+// Prompts arrive already redacted by the browser.
+
+class HttpError extends Error {
+  constructor(public status: number, message: string, public retryAfter?: number) {
+    super(message);
+  }
+}
+
+const limiters = {
+  text: new RateLimiter(config.rateLimits.text),
+  image: new RateLimiter(config.rateLimits.image),
+  live: new RateLimiter(config.rateLimits.live),
+};
+const liveSessions = new Map<string, number>();
+
+setInterval(() => Object.values(limiters).forEach(l => l.prune()), 10 * 60_000).unref();
+
+const userKey = (req: IncomingMessage): string => {
+  const header = config.trustedUserHeader && req.headers[config.trustedUserHeader];
+  if (typeof header === 'string' && header) return `user:${header}`;
+  return `ip:${req.socket.remoteAddress || 'unknown'}`;
+};
+
+const checkLimit = (limiter: RateLimiter, key: string) => {
+  const retryAfter = limiter.take(key);
+  if (retryAfter > 0) throw new HttpError(429, `Too many AI requests. Try again in ${retryAfter}s.`, retryAfter);
+};
+
+// Browsers send an Origin with cross-site requests and WebSockets. Only the server's own origin and
+// ALLOWED_ORIGIN are accepted, so other websites cannot spend the AI quota through a visitor's browser.
+const isAllowedOrigin = (req: IncomingMessage): boolean => {
+  const origin = req.headers.origin;
+  if (!origin) return true; // Not sent by a browser
+  if (config.allowedOrigin && origin === config.allowedOrigin) return true;
+  try {
+    return new URL(origin).host === req.headers.host;
+  } catch {
+    return false;
+  }
+};
+
+// Requiring JSON also rules out cross-site form and text/plain posts, which skip the CORS preflight
+const readJson = (req: IncomingMessage): Promise<any> =>
+  new Promise((resolvePromise, reject) => {
+    const contentType = req.headers['content-type']?.split(';')[0].trim().toLowerCase();
+    if (contentType !== 'application/json') {
+      reject(new HttpError(415, 'Send the request body as application/json.'));
+      return;
+    }
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > config.maxBodyBytes) {
+        reject(new HttpError(413, 'Request is too large.'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolvePromise(JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}'));
+      } catch {
+        reject(new HttpError(400, 'Request body is not valid JSON.'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+const sendJson = (res: ServerResponse, status: number, body: object, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const isTask = (value: string): value is LlmTask => Object.hasOwn(TEXT_MODELS, value);
+
+const handleApi = async (req: IncomingMessage, res: ServerResponse, path: string) => {
+  if (!isAllowedOrigin(req)) throw new HttpError(403, 'Requests from this origin are not allowed.');
+  if (path === '/api/health') return sendJson(res, 200, { ok: true, gemini: !!config.geminiApiKey });
+
+  const openAiMatch = path.match(/^\/api\/openai(\/.+)$/);
+  if (openAiMatch) {
+    if (!isOpenAiPath(openAiMatch[1])) throw new HttpError(404, 'Not found.');
+    if (req.method !== 'POST') throw new HttpError(405, 'Use POST.');
+    const body = await readJson(req);
+    checkLimit(openAiMatch[1] === '/images/generations' ? limiters.image : limiters.text, userKey(req));
+    const { status, data } = await forwardOpenAi(openAiMatch[1], body);
+    if (status >= 400) throw new HttpError(502, `The OpenAI endpoint returned ${status}${data.error?.message ? `: ${data.error.message}` : ''}`);
+    return sendJson(res, 200, data);
+  }
+
+  const match = path.match(/^\/api\/ai\/([a-z]+)$/);
+  if (!match) throw new HttpError(404, 'Not found.');
+  if (req.method !== 'POST') throw new HttpError(405, 'Use POST.');
+  if (!config.geminiApiKey) throw new HttpError(503, 'The server has no GEMINI_API_KEY configured.');
+
+  const key = userKey(req);
+  const body = await readJson(req);
+  if (typeof body.prompt !== 'string' || !body.prompt.trim()) throw new HttpError(400, 'A prompt is required.');
+
+  if (match[1] === 'image') {
+    checkLimit(limiters.image, key);
+    return sendJson(res, 200, { image: await generateImage(body.prompt) });
+  }
+  if (!isTask(match[1])) throw new HttpError(404, `Unknown task "${match[1]}".`);
+  if (!body.schema || typeof body.schema !== 'object') throw new HttpError(400, 'A response schema is required.');
+  checkLimit(limiters.text, key);
+  return sendJson(res, 200, { text: await generateJson(match[1], body.prompt, body.schema) });
+};
+
+// --- Static Frontend ---
+
+const STATIC_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript',
+  '.css': 'text/css',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.json': 'application/json',
+  '.ico': 'image/x-icon',
+};
+
+const serveStatic = (res: ServerResponse, path: string) => {
+  const root = resolve(config.staticDir);
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(path);
+  } catch {
+    throw new HttpError(400, 'Malformed URL.');
+  }
+  const requested = normalize(join(root, decoded));
+  // Unknown paths fall back to the app shell; nothing outside the build folder is served
+  const file = requested.startsWith(root + sep) && existsSync(requested) && statSync(requested).isFile() ? requested : join(root, 'index.html');
+  if (!existsSync(file)) throw new HttpError(404, 'Frontend not built. Run "npm run build" or use "npm run dev".');
+  res.writeHead(200, { 'Content-Type': STATIC_TYPES[extname(file)] || 'application/octet-stream' });
+  createReadStream(file).pipe(res);
+};
+
+// --- Server ---
+
+const server = createServer(async (req, res) => {
+  const path = new URL(req.url || '/', 'http://localhost').pathname;
+  if (config.allowedOrigin) {
+    res.setHeader('Access-Control-Allow-Origin', config.allowedOrigin);
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    if (req.method === 'OPTIONS') return res.writeHead(204).end();
+  }
+  try {
+    if (path.startsWith('/api/')) await handleApi(req, res, path);
+    else serveStatic(res, path);
+  } catch (e: any) {
+    const status = e instanceof HttpError ? e.status : 502;
+    if (!(e instanceof HttpError)) console.error(`${req.method} ${path} failed:`, e);
+    if (res.headersSent) return res.end();
+    sendJson(res, status, { error: e instanceof HttpError ? e.message : 'The AI service failed. Please try again.' },
+      e instanceof HttpError && e.retryAfter ? { 'Retry-After': String(e.retryAfter) } : {});
+  }
+});
+
+const liveServer = new WebSocketServer({ noServer: true });
+
+// A dropped Wi-Fi connection leaves the socket half-open. Pinging closes dead ones, which ends
+// their Gemini session and frees the user's concurrent session slot for the reconnect.
+const HEARTBEAT_MS = 30_000;
+const alive = new WeakMap<WebSocket, boolean>();
+setInterval(() => liveServer.clients.forEach(client => {
+  if (alive.get(client) === false) return client.terminate();
+  alive.set(client, false);
+  client.ping();
+}), HEARTBEAT_MS).unref();
+
+server.on('upgrade', (req, socket, head) => {
+  const url = new URL(req.url || '/', 'http://localhost');
+  const path = url.pathname;
+  const requestedVoice = url.searchParams.get('voice');
+  const voice = isLiveVoice(requestedVoice) ? requestedVoice : DEFAULT_LIVE_VOICE;
+  const requestedLanguage = url.searchParams.get('language');
+  const language = isLanguageCode(requestedLanguage) ? requestedLanguage : 'en';
+  const resumeHandle = url.searchParams.get('resume') || undefined;
+  const reject = (status: number, message: string) => {
+    socket.end(`HTTP/1.1 ${status} ${message}\r\nConnection: close\r\n\r\n`);
+  };
+  if (path !== LIVE_RELAY_PATH) return reject(404, 'Not Found');
+  if (!isAllowedOrigin(req)) return reject(403, 'Forbidden');
+  if (!config.geminiApiKey) return reject(503, 'Service Unavailable');
+  if (resumeHandle && resumeHandle.length > MAX_RESUME_HANDLE_LENGTH) return reject(400, 'Bad Request');
+
+  const key = userKey(req);
+  if ((liveSessions.get(key) || 0) >= config.maxConcurrentLiveSessions || limiters.live.take(key) > 0) {
+    return reject(429, 'Too Many Requests');
+  }
+
+  liveServer.handleUpgrade(req, socket, head, client => {
+    liveSessions.set(key, (liveSessions.get(key) || 0) + 1);
+    alive.set(client, true);
+    client.on('pong', () => alive.set(client, true));
+    client.on('close', () => {
+      const open = (liveSessions.get(key) || 1) - 1;
+      if (open > 0) liveSessions.set(key, open);
+      else liveSessions.delete(key);
+    });
+    relayLiveSession(client, voice, language, resumeHandle);
+  });
+});
+
+server.listen(config.port, () => {
+  console.log(`AIMS API listening on http://localhost:${config.port}`);
+  if (!config.geminiApiKey) console.warn('GEMINI_API_KEY is not set; AI requests will fail.');
+});
@@ -0,0 +1,22 @@
+import { config } from "./config";
+
+// --- OpenAI-compatible Endpoint (server side) ---
+// Forwards the two calls the OpenAI provider makes and adds OPENAI_API_KEY, so the key never reaches the browser.
+
+const OPENAI_PATHS = ['/chat/completions', '/images/generations'] as const;
+
+export type OpenAiPath = typeof OPENAI_PATHS[number];
+
+export const isOpenAiPath = (value: string): value is OpenAiPath => (OPENAI_PATHS as readonly string[]).includes(value);
+
+export const forwardOpenAi = async (path: OpenAiPath, body: object): Promise<{ status: number; data: any }> => {
+  const response = await fetch(`${config.openAi.baseUrl.replace(/\/$/, '')}${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(config.openAi.apiKey ? { Authorization: `Bearer ${config.openAi.apiKey}` } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+  return { status: response.status, data: await response.json().catch(() => ({})) };
+};
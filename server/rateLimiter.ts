@@ -0,0 +1,27 @@
+import type { RateLimit } from "./config";
+
+// Sliding-window limiter keyed by user. In-memory, so limits are per server process.
+export class RateLimiter {
+  private hits = new Map<string, number[]>();
+
+  constructor(private rule: RateLimit) {}
+
+  // Records a hit and returns 0, or returns the seconds until the next hit is allowed
+  take(key: string, now = Date.now()): number {
+    const recent = (this.hits.get(key) || []).filter(t => now - t < this.rule.windowMs);
+    if (recent.length >= this.rule.limit) {
+      this.hits.set(key, recent);
+      return Math.ceil((recent[0] + this.rule.windowMs - now) / 1000);
+    }
+    recent.push(now);
+    this.hits.set(key, recent);
+    return 0;
+  }
+
+  // Drops users with no recent hits so the map does not grow forever
+  prune(now = Date.now()) {
+    this.hits.forEach((times, key) => {
+      if (times.every(t => now - t >= this.rule.windowMs)) this.hits.delete(key);
+    });
+  }
+}
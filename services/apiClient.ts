@@ -0,0 +1,41 @@
+import { LanguageCode } from "../types";
+import { LIVE_RELAY_PATH, LiveVoice } from "./liveProtocol";
+
+// --- AIMS API Client ---
+// Gemini calls go through our own server (server/index.ts), which holds the API key.
+// VITE_API_BASE_URL is only needed when the API is not served from the same origin.
+
+const API_BASE_URL = (import.meta.env.VITE_API_BASE_URL || '').replace(/\/$/, '');
+
+export const apiUrl = (path: string) => `${API_BASE_URL}${path}`;
+
+// resumeHandle continues an earlier live session (after a dropped connection) instead of starting a new one
+export const liveRelayUrl = (voice: LiveVoice, language: LanguageCode = 'en', resumeHandle?: string): string => {
+  const base = new URL(API_BASE_URL || window.location.origin);
+  base.protocol = base.protocol === 'https:' ? 'wss:' : 'ws:';
+  base.pathname = `${base.pathname.replace(/\/$/, '')}${LIVE_RELAY_PATH}`;
+  base.searchParams.set('voice', voice);
+  if (language !== 'en') base.searchParams.set('language', language);
+  if (resumeHandle) base.searchParams.set('resume', resumeHandle);
+  return base.toString();
+};
+
+export const postApi = async <T>(path: string, body: object, signal?: AbortSignal): Promise<T> => {
+  let response: Response;
+  try {
+    response = await fetch(apiUrl(path), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (e) {
+    if (signal?.aborted) throw e;
+    throw new Error("Cannot reach the AIMS server. Is it running (npm run server)?");
+  }
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `AIMS server returned ${response.status}`);
+  }
+  return data as T;
+};
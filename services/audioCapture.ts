@@ -0,0 +1,169 @@
+import captureWorkletUrl from "./pcmCaptureWorklet.ts?worker&url";
+import type { CaptureChunk } from "./pcmCaptureWorklet";
+
+// --- Microphone Capture ---
+// Microphone -> AudioWorklet (PCM16 conversion, level metering) -> base64 chunks for the live relay.
+
+export const CAPTURE_SAMPLE_RATE = 16000;
+export const CAPTURE_MIME_TYPE = `audio/pcm;rate=${CAPTURE_SAMPLE_RATE}`;
+
+export interface InputLevel {
+  rms: number; // 0..1
+  peak: number; // 0..1
+}
+
+export type InputWarning = 'silent' | 'clipping';
+
+export const INPUT_WARNING_MESSAGES: Record<InputWarning, string> = {
+  silent: "No sound from the microphone. Check it is not muted and that the right device is selected.",
+  clipping: "The microphone is clipping. Move it further from the speaker or turn the input gain down.",
+};
+
+const MIC_KEY = 'aims:microphoneId';
+
+export const getMicrophoneId = (): string | undefined => {
+  try {
+    return localStorage.getItem(MIC_KEY) || undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+export const saveMicrophoneId = (deviceId: string) => {
+  try {
+    localStorage.setItem(MIC_KEY, deviceId);
+  } catch {
+    // Storage unavailable; the choice lasts until the page is reloaded
+  }
+};
+
+// Device labels are empty until the page has had microphone permission once
+export const listMicrophones = async (): Promise<MediaDeviceInfo[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(d => d.kind === 'audioinput');
+};
+
+// String.fromCharCode over 32 KB slices instead of one call per byte
+export const encodeBase64 = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  const parts: string[] = [];
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    parts.push(String.fromCharCode.apply(null, bytes.subarray(i, i + 0x8000) as unknown as number[]));
+  }
+  return btoa(parts.join(''));
+};
+
+export class MicrophoneCapture {
+  private context: AudioContext | null = null;
+  private stream: MediaStream | null = null;
+  private source: MediaStreamAudioSourceNode | null = null;
+  private worklet: AudioWorkletNode | null = null;
+  private recordingDestination: MediaStreamAudioDestinationNode | null = null;
+
+  constructor(
+    private onChunk: (base64Pcm: string) => void,
+    private onLevel: (level: InputLevel) => void
+  ) {}
+
+  get isActive() {
+    return !!this.stream;
+  }
+
+  async start(deviceId?: string) {
+    // Relaxed constraints: Remove specific sampleRate to prevent "Not Supported" / OverconstrainedError
+    // Browser will give native rate, and AudioContext below will handle resampling to 16000.
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: {
+        ...(deviceId ? { deviceId: { exact: deviceId } } : {}),
+        channelCount: 1,
+        echoCancellation: true,
+        noiseSuppression: true,
+        autoGainControl: true
+      }
+    });
+
+    if (!this.context) {
+      this.context = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: CAPTURE_SAMPLE_RATE });
+      await this.context.audioWorklet.addModule(captureWorkletUrl);
+      this.worklet = new AudioWorkletNode(this.context, 'pcm-capture', { numberOfInputs: 1, numberOfOutputs: 0, channelCount: 1 });
+      this.worklet.port.onmessage = (event: MessageEvent<CaptureChunk>) => {
+        this.onLevel({ rms: event.data.rms, peak: event.data.peak });
+        this.onChunk(encodeBase64(event.data.pcm));
+      };
+    }
+
+    this.releaseStream();
+    this.stream = stream;
+    this.source = this.context.createMediaStreamSource(stream);
+    this.source.connect(this.worklet!);
+    if (this.recordingDestination) this.source.connect(this.recordingDestination);
+  }
+
+  // The microphone as a stream that stays the same across device switches, for recording
+  get recordingStream(): MediaStream | null {
+    if (!this.context) return null;
+    if (!this.recordingDestination) {
+      this.recordingDestination = this.context.createMediaStreamDestination();
+      this.source?.connect(this.recordingDestination);
+    }
+    return this.recordingDestination.stream;
+  }
+
+  // Swaps the input device without dropping the session
+  async switchDevice(deviceId: string) {
+    if (this.isActive) await this.start(deviceId);
+  }
+
+  private releaseStream() {
+    this.source?.disconnect();
+    this.source = null;
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.stream = null;
+  }
+
+  async stop() {
+    this.releaseStream();
+    if (this.worklet) {
+      this.worklet.port.onmessage = null;
+      this.worklet = null;
+    }
+    this.recordingDestination = null;
+    if (this.context) {
+      await this.context.close();
+      this.context = null;
+    }
+  }
+}
+
+// --- Level Monitoring ---
+
+// Maps RMS to 0..1 on a -60..0 dBFS scale, which matches how loud speech looks on a meter
+export const meterLevel = (rms: number): number =>
+  rms <= 0 ? 0 : Math.min(1, Math.max(0, (20 * Math.log10(rms) + 60) / 60));
+
+const SILENCE_RMS = 0.002; // Roughly -54 dBFS; a live room never gets this quiet
+const SILENCE_WARN_MS = 10000;
+const CLIP_PEAK = 0.98;
+const CLIP_WINDOW_MS = 3000;
+const CLIPS_TO_WARN = 3;
+
+// Turns the stream of chunk levels into a warning, or null when the input sounds fine
+export class InputLevelMonitor {
+  private lastSoundAt: number;
+  private clips: number[] = [];
+
+  constructor(now = Date.now()) {
+    this.lastSoundAt = now;
+  }
+
+  update(level: InputLevel, now = Date.now()): InputWarning | null {
+    if (level.rms >= SILENCE_RMS) this.lastSoundAt = now;
+    if (level.peak >= CLIP_PEAK) this.clips.push(now);
+    this.clips = this.clips.filter(t => now - t < CLIP_WINDOW_MS);
+
+    if (this.clips.length >= CLIPS_TO_WARN) return 'clipping';
+    if (now - this.lastSoundAt >= SILENCE_WARN_MS) return 'silent';
+    return null;
+  }
+}
@@ -0,0 +1,144 @@
+import { DEFAULT_LIVE_VOICE, LiveVoice, isLiveVoice } from "./liveProtocol";
+
+// --- Co-Pilot Audio Playback ---
+// Gemini Live returns the co-pilot's speech as 16-bit little-endian PCM chunks at 24 kHz.
+// Chunks are scheduled back to back on one AudioContext clock so there are no gaps between them.
+
+export const OUTPUT_SAMPLE_RATE = 24000;
+
+export interface PlaybackSettings {
+  voice: LiveVoice;
+  volume: number; // 0..1
+  muted: boolean;
+}
+
+const SETTINGS_KEY = 'aims:playbackSettings';
+
+export const DEFAULT_PLAYBACK_SETTINGS: PlaybackSettings = { voice: DEFAULT_LIVE_VOICE, volume: 0.8, muted: false };
+
+export const getPlaybackSettings = (): PlaybackSettings => {
+  try {
+    const raw = JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null');
+    if (!raw) return DEFAULT_PLAYBACK_SETTINGS;
+    return {
+      voice: isLiveVoice(raw.voice) ? raw.voice : DEFAULT_PLAYBACK_SETTINGS.voice,
+      volume: typeof raw.volume === 'number' ? Math.min(1, Math.max(0, raw.volume)) : DEFAULT_PLAYBACK_SETTINGS.volume,
+      muted: raw.muted === true,
+    };
+  } catch {
+    return DEFAULT_PLAYBACK_SETTINGS;
+  }
+};
+
+export const savePlaybackSettings = (settings: PlaybackSettings) => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch {
+    // Storage unavailable; settings apply to this page load only
+  }
+};
+
+export const decodePcm16 = (base64: string): Float32Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  const view = new DataView(bytes.buffer);
+  const floats = new Float32Array(Math.floor(bytes.length / 2));
+  for (let i = 0; i < floats.length; i++) floats[i] = view.getInt16(i * 2, true) / 0x8000;
+  return floats;
+};
+
+export class AudioPlayer {
+  private context: AudioContext | null = null;
+  private gain: GainNode | null = null;
+  private sources = new Set<AudioBufferSourceNode>();
+  private nextStartTime = 0;
+  private volume: number;
+  private muted: boolean;
+
+  // Called when the co-pilot starts or stops speaking, e.g. to show a speaking indicator
+  onSpeakingChange: (speaking: boolean) => void = () => {};
+
+  constructor(settings: Pick<PlaybackSettings, 'volume' | 'muted'> = DEFAULT_PLAYBACK_SETTINGS) {
+    this.volume = settings.volume;
+    this.muted = settings.muted;
+  }
+
+  // Must run from a user gesture (the Start Interview click) or browsers keep the context suspended
+  async start() {
+    if (!this.context) {
+      this.context = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: OUTPUT_SAMPLE_RATE });
+      this.gain = this.context.createGain();
+      this.gain.connect(this.context.destination);
+      this.applyGain();
+    }
+    if (this.context.state === 'suspended') await this.context.resume();
+  }
+
+  get isSpeaking() {
+    return this.sources.size > 0;
+  }
+
+  enqueue(base64Pcm: string) {
+    if (!this.context || !this.gain) return;
+    const samples = decodePcm16(base64Pcm);
+    if (samples.length === 0) return;
+    const buffer = this.context.createBuffer(1, samples.length, OUTPUT_SAMPLE_RATE);
+    buffer.getChannelData(0).set(samples);
+
+    const source = this.context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(this.gain);
+    // Never schedule in the past; after a pause, playback restarts from "now"
+    this.nextStartTime = Math.max(this.nextStartTime, this.context.currentTime);
+    source.start(this.nextStartTime);
+    this.nextStartTime += buffer.duration;
+
+    const wasSpeaking = this.isSpeaking;
+    this.sources.add(source);
+    source.onended = () => {
+      this.sources.delete(source);
+      if (!this.isSpeaking) this.onSpeakingChange(false);
+    };
+    if (!wasSpeaking) this.onSpeakingChange(true);
+  }
+
+  // Barge-in: drop everything still queued so the co-pilot stops mid-sentence
+  interrupt() {
+    const wasSpeaking = this.isSpeaking;
+    this.sources.forEach(source => {
+      source.onended = null;
+      try {
+        source.stop();
+      } catch {
+        // Already stopped
+      }
+    });
+    this.sources.clear();
+    this.nextStartTime = this.context?.currentTime || 0;
+    if (wasSpeaking) this.onSpeakingChange(false);
+  }
+
+  setVolume(volume: number) {
+    this.volume = Math.min(1, Math.max(0, volume));
+    this.applyGain();
+  }
+
+  setMuted(muted: boolean) {
+    this.muted = muted;
+    this.applyGain();
+  }
+
+  private applyGain() {
+    if (this.gain && this.context) this.gain.gain.setValueAtTime(this.muted ? 0 : this.volume, this.context.currentTime);
+  }
+
+  async close() {
+    this.interrupt();
+    if (this.context) {
+      await this.context.close();
+      this.context = null;
+      this.gain = null;
+    }
+  }
+}
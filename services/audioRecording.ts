@@ -0,0 +1,100 @@
+import { RecordingTake } from "../types";
+
+// --- Interview Recording ---
+// Opt-in local recording of the interview microphone, encoded in the browser by MediaRecorder.
+// Takes are stored in IndexedDB next to the session (see projectStore.ts) and never leave the device.
+
+const RECORDING_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/mp4'];
+// Speech-quality Opus; an hour is roughly 15 MB
+const RECORDING_BITRATE = 32000;
+// The take is saved this often, so a crash or a closed tab loses at most this much audio
+const FLUSH_INTERVAL_MS = 30000;
+
+export const recordingMimeType = (): string | undefined =>
+  typeof MediaRecorder === 'undefined' ? undefined : RECORDING_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+
+export const isRecordingSupported = () => recordingMimeType() !== undefined;
+
+export interface RecordingPosition {
+  takeId: string;
+  time: number; // Seconds into the take
+}
+
+export class InterviewRecorder {
+  private recorder: MediaRecorder | null = null;
+  private chunks: Blob[] = [];
+  private take: Omit<RecordingTake, 'duration' | 'blob'> | null = null;
+  private startedAt = 0;
+
+  // Called with the whole take so far, every FLUSH_INTERVAL_MS and once more when recording stops
+  onTake: (take: RecordingTake) => void = () => {};
+
+  get isRecording() {
+    return !!this.recorder;
+  }
+
+  // Where the recording is now, for transcript offsets; null when not recording
+  position(): RecordingPosition | null {
+    if (!this.take) return null;
+    return { takeId: this.take.id, time: (performance.now() - this.startedAt) / 1000 };
+  }
+
+  start(stream: MediaStream) {
+    if (this.recorder) return;
+    const mimeType = recordingMimeType();
+    const recorder = new MediaRecorder(stream, { ...(mimeType ? { mimeType } : {}), audioBitsPerSecond: RECORDING_BITRATE });
+    this.chunks = [];
+    this.take = {
+      id: `take-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      startedAt: new Date(),
+      mimeType: recorder.mimeType || mimeType || 'audio/webm',
+    };
+    this.startedAt = performance.now();
+    recorder.ondataavailable = (event) => {
+      if (event.data.size === 0) return;
+      this.chunks.push(event.data);
+      this.emit();
+    };
+    recorder.start(FLUSH_INTERVAL_MS);
+    this.recorder = recorder;
+  }
+
+  private emit() {
+    if (!this.take) return;
+    this.onTake({
+      ...this.take,
+      duration: (performance.now() - this.startedAt) / 1000,
+      blob: new Blob(this.chunks, { type: this.take.mimeType }),
+    });
+  }
+
+  // Resolves after the final onTake
+  stop(): Promise<void> {
+    const recorder = this.recorder;
+    if (!recorder) return Promise.resolve();
+    this.recorder = null;
+    return new Promise(resolve => {
+      recorder.onstop = () => {
+        this.take = null;
+        this.chunks = [];
+        resolve();
+      };
+      recorder.stop();
+    });
+  }
+}
+
+// MediaRecorder WebM files have no duration or seek index. Chrome works the duration out
+// after a seek past the end, and only then seeks reliably.
+export const seekRecording = async (audio: HTMLAudioElement, time: number) => {
+  if (audio.readyState < HTMLMediaElement.HAVE_METADATA) {
+    await new Promise(resolve => audio.addEventListener('loadedmetadata', resolve, { once: true }));
+  }
+  if (!Number.isFinite(audio.duration)) {
+    await new Promise(resolve => {
+      audio.addEventListener('timeupdate', resolve, { once: true });
+      audio.currentTime = 1e101;
+    });
+  }
+  audio.currentTime = time;
+};
@@ -0,0 +1,49 @@
+import { AuditAction, AuditEntry } from "../types";
+import { appendAuditEntry } from "./projectStore";
+
+// --- Audit Log ---
+// Who generated, refined, exported or deleted what, and when. Entries are stored on this device
+// and can only be added to (see projectStore.ts).
+
+const AUDIT_ACTOR_KEY = 'aims:auditActor';
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  consent: 'Consent',
+  generate: 'Generated',
+  refine: 'Refined',
+  export: 'Exported',
+  delete: 'Deleted',
+  purge: 'Purged',
+  retention: 'Retention',
+};
+
+// The name entries are recorded under; there are no accounts, so the PM sets it on this browser
+export const getAuditActor = (): string => {
+  try {
+    return localStorage.getItem(AUDIT_ACTOR_KEY) || '';
+  } catch {
+    return '';
+  }
+};
+
+export const saveAuditActor = (name: string) => {
+  try {
+    localStorage.setItem(AUDIT_ACTOR_KEY, name.trim());
+  } catch {
+    // Storage unavailable; entries are recorded as an unnamed user
+  }
+};
+
+// Never blocks the action being logged; a failed write is reported in the console.
+// Automatic actions, such as retention purges, name their own actor.
+export const logAudit = (action: AuditAction, summary: string, context: Partial<Pick<AuditEntry, 'projectId' | 'sessionId' | 'actor'>> = {}) =>
+  appendAuditEntry({ at: new Date(), actor: getAuditActor() || 'Unnamed user', action, summary, ...context })
+    .catch(e => console.error("Failed to write the audit log:", e));
+
+const csvCell = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export const auditLogCsv = (entries: AuditEntry[]): string =>
+  [
+    'Time,User,Action,Summary,Project ID,Interview ID',
+    ...entries.map(e => [new Date(e.at).toISOString(), e.actor, AUDIT_ACTION_LABELS[e.action], e.summary, e.projectId || '', e.sessionId || ''].map(csvCell).join(',')),
+  ].join('\n');
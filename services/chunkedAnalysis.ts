@@ -0,0 +1,161 @@
+import { JourneyItem, JourneyMapData, JourneyStage, StageSentiment, TranscriptItem } from "../types";
+import { clampSentiment, createEmptyStage, getLaneItems, setLaneItems } from "./journeyMap";
+
+// --- Chunked Map Analysis ---
+// Long transcripts are mapped in parts: each chunk yields a partial map of stage-tagged findings,
+// and the findings are then merged stage by stage into one map. Chunks end on line boundaries,
+// so line ids still work as evidence.
+
+// About 6,000 words. Transcripts up to this size are analysed in a single request.
+export const CHUNK_MAX_CHARS = 36000;
+// Lines repeated at the start of the next chunk, so an answer is not cut off from its question
+const CHUNK_OVERLAP_LINES = 2;
+// Room for the line id and speaker label in the prompt
+const LINE_OVERHEAD_CHARS = 40;
+
+const lineSize = (item: TranscriptItem) => item.text.length + LINE_OVERHEAD_CHARS;
+
+// Pasted transcripts without speaker turns can arrive as one huge line. It is cut at sentence
+// ends (or spaces) into parts that keep the line's id.
+const splitLongLine = (item: TranscriptItem, maxChars: number): TranscriptItem[] => {
+  const parts: string[] = [];
+  let rest = item.text;
+  while (rest.length > maxChars) {
+    const window = rest.slice(0, maxChars);
+    const sentenceEnd = Math.max(window.lastIndexOf('. '), window.lastIndexOf('? '), window.lastIndexOf('! '));
+    const space = window.lastIndexOf(' ');
+    const cut = sentenceEnd > maxChars / 2 ? sentenceEnd + 1 : space > 0 ? space : maxChars;
+    parts.push(rest.slice(0, cut).trim());
+    rest = rest.slice(cut).trim();
+  }
+  if (rest) parts.push(rest);
+  return parts.map(text => ({ ...item, text }));
+};
+
+export const chunkTranscript = (transcript: TranscriptItem[], maxChars = CHUNK_MAX_CHARS): TranscriptItem[][] => {
+  const lines = transcript.flatMap(item => (item.text.length > maxChars ? splitLongLine(item, maxChars) : [item]));
+  const chunks: TranscriptItem[][] = [];
+  let current: TranscriptItem[] = [];
+  let size = 0;
+  let fresh = 0; // Lines in the current chunk that are not overlap from the previous one
+  lines.forEach(line => {
+    if (fresh > 0 && size + lineSize(line) > maxChars) {
+      chunks.push(current);
+      const overlap = current.slice(-CHUNK_OVERLAP_LINES);
+      const overlapSize = overlap.reduce((sum, item) => sum + lineSize(item), 0);
+      current = overlapSize <= maxChars / 4 ? overlap : [];
+      size = current.length > 0 ? overlapSize : 0;
+      fresh = 0;
+    }
+    current.push(line);
+    size += lineSize(line);
+    fresh++;
+  });
+  if (fresh > 0) chunks.push(current);
+  return chunks;
+};
+
+// --- Merging ---
+
+export interface Finding {
+  ref: string; // Lets the merge step say which findings it combined
+  lane: string;
+  item: JourneyItem;
+}
+
+export interface StageFindings {
+  name: string;
+  findings: Finding[];
+  feelings: { emotions: string; sentiment: StageSentiment }[];
+}
+
+const normalize = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const unionIds = (a: string[] = [], b: string[] = []) => Array.from(new Set([...a, ...b]));
+
+// Groups the partial maps' findings by stage, in the template's stage order. Stages the model
+// named differently are kept after the template's. Identical findings are combined right away.
+export const collectFindings = (partials: JourneyMapData[], stageNames: string[], laneKeys: string[]): StageFindings[] => {
+  const groups = new Map<string, StageFindings>();
+  stageNames.forEach(name => groups.set(normalize(name), { name, findings: [], feelings: [] }));
+  let nextRef = 1;
+  partials.forEach(partial => partial.stages.forEach(stage => {
+    const key = normalize(stage.name);
+    const group = groups.get(key) || { name: stage.name, findings: [], feelings: [] };
+    groups.set(key, group);
+    laneKeys.forEach(lane => getLaneItems(stage, lane).forEach(item => {
+      const same = group.findings.find(f => f.lane === lane && normalize(f.item.text) === normalize(item.text));
+      if (same) {
+        same.item = { ...same.item, sourceIds: unionIds(same.item.sourceIds, item.sourceIds), basis: same.item.basis === 'evidenced' ? 'evidenced' : item.basis, quote: same.item.quote || item.quote };
+        return;
+      }
+      group.findings.push({ ref: `F${nextRef++}`, lane, item });
+    }));
+    if (stage.sentiment) group.feelings.push({ emotions: stage.emotions, sentiment: stage.sentiment });
+  }));
+  return Array.from(groups.values());
+};
+
+// Only stages with more than one finding in a lane, or several feelings, need the merge step
+export const needsMerge = (group: StageFindings) =>
+  group.feelings.length > 1 ||
+  group.findings.some((f, i) => group.findings.findIndex(other => other.lane === f.lane) !== i);
+
+export interface MergedFinding {
+  text: string;
+  refs: string[];
+}
+
+export interface StageFeeling {
+  emotions: string;
+  score: number;
+  rationale?: string;
+}
+
+// Builds the final stage from the merge step's answer. Merged items take the evidence of every
+// finding they combine; findings the answer left out are kept as they were rather than lost.
+export const buildMergedStage = (
+  group: StageFindings,
+  laneKeys: string[],
+  merged: Record<string, MergedFinding[]> = {},
+  feeling?: StageFeeling
+): JourneyStage => {
+  const byRef = new Map(group.findings.map(f => [f.ref, f]));
+  const used = new Set<string>();
+  let stage = createEmptyStage(group.name);
+
+  laneKeys.forEach(lane => {
+    const items = (merged[lane] || []).flatMap((entry): JourneyItem[] => {
+      const members = entry.refs.map(ref => byRef.get(ref)).filter((f): f is Finding => !!f && !used.has(f.ref));
+      if (members.length === 0) return [];
+      members.forEach(f => used.add(f.ref));
+      const evidenced = members.filter(f => f.item.basis === 'evidenced');
+      return [{
+        text: entry.text.trim() || members[0].item.text,
+        basis: evidenced.length > 0 ? 'evidenced' : 'inferred',
+        ...(evidenced.length > 0 ? {
+          sourceIds: evidenced.reduce<string[]>((ids, f) => unionIds(ids, f.item.sourceIds), []),
+          quote: evidenced.find(f => f.item.quote)?.item.quote,
+        } : {}),
+      }];
+    });
+    stage = setLaneItems(stage, lane, items);
+  });
+  group.findings.filter(f => !used.has(f.ref)).forEach(f => {
+    stage = setLaneItems(stage, f.lane, [...getLaneItems(stage, f.lane), f.item]);
+  });
+
+  // The stage's overall feeling keeps the evidence of the part that felt closest to it
+  if (group.feelings.length > 0) {
+    const target = feeling ? clampSentiment(feeling.score) : group.feelings[0].sentiment.score;
+    const closest = group.feelings.reduce((best, f) => (Math.abs(f.sentiment.score - target) < Math.abs(best.sentiment.score - target) ? f : best));
+    stage = {
+      ...stage,
+      emotions: feeling?.emotions || closest.emotions,
+      sentiment: feeling
+        ? { ...closest.sentiment, score: target, rationale: feeling.rationale || closest.sentiment.rationale }
+        : closest.sentiment,
+    };
+  }
+  return stage;
+};
@@ -0,0 +1,34 @@
+import { ConsentRecord, ConsentScope } from "../types";
+
+// --- Interview Consent ---
+// Consent is recorded on the interview before anything is streamed, so an agency can show
+// what each interviewee agreed to, how, and who took it.
+
+export const CONSENT_SCOPES: { scope: ConsentScope; label: string; description: string }[] = [
+  { scope: 'transcription', label: 'Transcription', description: 'What is said is written down as a transcript and kept with the interview.' },
+  { scope: 'aiAnalysis', label: 'AI analysis', description: 'The audio and transcript are sent to the AI provider to suggest questions and build the journey map.' },
+  { scope: 'recording', label: 'Audio recording', description: 'The interview audio is recorded and kept on this device.' },
+];
+
+// The live co-pilot streams the microphone to the AI, which transcribes it
+export const LIVE_CONSENT_SCOPES: ConsentScope[] = ['transcription', 'aiAnalysis'];
+
+export const hasConsent = (consent: ConsentRecord | undefined, scope: ConsentScope) => !!consent?.scopes.includes(scope);
+
+export const hasLiveConsent = (consent: ConsentRecord | undefined) => LIVE_CONSENT_SCOPES.every(scope => hasConsent(consent, scope));
+
+// Interviews without a consent record, e.g. transcripts imported before consent was captured, are not held back
+export const allowsAiAnalysis = (consent: ConsentRecord | undefined) => !consent || hasConsent(consent, 'aiAnalysis');
+
+// Withdrawal keeps the rest of the record as it was taken; the audit log says when it happened
+export const withdrawConsent = (consent: ConsentRecord, scope: ConsentScope): ConsentRecord =>
+  ({ ...consent, scopes: consent.scopes.filter(s => s !== scope) });
+
+// Labels of the scopes that next no longer includes, e.g. ['Audio recording']
+export const withdrawnScopeLabels = (previous: ConsentRecord | undefined, next: ConsentRecord): string[] =>
+  CONSENT_SCOPES.filter(s => hasConsent(previous, s.scope) && !next.scopes.includes(s.scope)).map(s => s.label);
+
+export const describeConsent = (consent: ConsentRecord): string => {
+  const scopes = CONSENT_SCOPES.filter(s => consent.scopes.includes(s.scope)).map(s => s.label);
+  return `${scopes.length > 0 ? scopes.join(', ') : 'Nothing'} (${consent.method})`;
+};
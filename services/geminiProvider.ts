@@ -0,0 +1,20 @@
+import type { JsonRequest, LlmProvider } from "./llmProvider";
+import { postApi } from "./apiClient";
+
+// --- Gemini Provider ---
+// Calls Gemini through the AIMS server, which holds the API key and picks the model per task.
+
+export class GeminiProvider implements LlmProvider {
+  readonly id = 'gemini' as const;
+
+  async generateJson({ task, prompt, schema, signal }: JsonRequest): Promise<string> {
+    const { text } = await postApi<{ text: string }>(`/api/ai/${task}`, { prompt, schema }, signal);
+    if (!text) throw new Error("Empty response from AI");
+    return text;
+  }
+
+  async generateImage(prompt: string): Promise<string | null> {
+    const { image } = await postApi<{ image: string | null }>('/api/ai/image', { prompt });
+    return image;
+  }
+}
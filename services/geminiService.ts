@@ -1,187 +1,454 @@
-import { GoogleGenAI, LiveServerMessage, Modality, Type } from "@google/genai";
-import { JourneyMapData, TranscriptItem, JourneyStage } from "../types";
-
-// Note: In a real deployment, keys should be proxied or handled securely.
-// Using process.env.API_KEY as per instructions.
-const ai = new GoogleGenAI({ apiKey:  import.meta.env.VITE_GEMINI_API_KEY });
-
-// Define types locally inferred from the SDK instance since they are not exported directly
-type LiveSession = Awaited<ReturnType<typeof ai.live.connect>>;
-
-// --- Audio Handling Utilities ---
-
-function createBlob(data: Float32Array): { data: string; mimeType: string } {
-  const l = data.length;
-  const int16 = new Int16Array(l);
-  for (let i = 0; i < l; i++) {
-    // Clamp values to [-1, 1] range to prevent distortion before scaling
-    const s = Math.max(-1, Math.min(1, data[i]));
-    // Scale to 16-bit integer range
-    int16[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
-  }
-  
-  // Convert to binary string safely to avoid stack overflow with large buffers
-  let binary = '';
-  const bytes = new Uint8Array(int16.buffer);
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
-  }
+import { LiveServerMessage, Type } from "@google/genai";
+import { AnalysisProgress, GuideCoverage, GuideItemCoverage, InterviewGuide, LanguageCode, JourneyMapData, JourneyStage, JourneyTemplate, LaneDefinition, MapOperation, Participant, RefinementMessage, SessionLanguage, Suggestion, TranscriptItem } from "../types";
+import { EMOTION_LANE_KEY, SENTIMENT_MAX, SENTIMENT_MIN, getLaneItems, isBlueprint, itemLaneKeys, mapAllItems, mapLanes, mentionCount, sanitizeJourneyMap, setLaneItems, verifyMapEvidence } from "./journeyMap";
+import { BUILT_IN_TEMPLATES } from "./journeyTemplates";
+import { sanitizeOperations } from "./mapOperations";
+import { ROLE_LABELS, hasUnassignedTurns, speakerLabel, speakerOf } from "./transcript";
+import { Redactor, getRedactionSettings } from "./redaction";
+import { JsonRequest, getProvider } from "./llmProvider";
+import { StageFindings, buildMergedStage, chunkTranscript, collectFindings, needsMerge } from "./chunkedAnalysis";
+import { GuideEntry, guideEntries, isCovered, mergeCoverage, uncheckedLines } from "./interviewGuide";
+import { createSuggestion } from "./suggestions";
+import { MAX_TRANSLATION_LINES, isEnglishOnly, languageName, writtenLanguage } from "./languages";
+import { liveRelayUrl } from "./apiClient";
+import { DEFAULT_LIVE_VOICE, LiveClientFrame, LiveServerFrame, LiveVoice } from "./liveProtocol";
+import { AudioPlayer, getPlaybackSettings } from "./audioPlayback";
+import { CAPTURE_MIME_TYPE, InputLevel, MicrophoneCapture } from "./audioCapture";
+import { InterviewRecorder } from "./audioRecording";
 
-  return {
-    data: btoa(binary),
-    mimeType: 'audio/pcm;rate=16000',
-  };
-}
+// Text and image requests go through the configured provider (see llmProvider.ts).
+// The live co-pilot streams audio and is Gemini-only.
 
 // --- Live API Service ---
+// Audio goes to Gemini Live through the AIMS server's relay (see server/gemini.ts).
+
+export interface LiveConnectOptions {
+  voice?: LiveVoice;
+  deviceId?: string; // Microphone; the browser default when unset
+  record?: boolean; // Record the microphone locally; only with the interviewee's consent
+  language?: LanguageCode; // The interviewee's language, which the co-pilot speaks
+}
+
+interface LiveHandlers {
+  onOpen: () => void;
+  onMessage: (msg: LiveServerMessage) => void;
+  onError: (err: ErrorEvent) => void;
+  onClose: (evt: CloseEvent) => void;
+}
+
+// Retries after a dropped connection: 1s, 2s, 4s ... capped at 15s, about two minutes in total
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 15000;
+const MAX_RECONNECT_ATTEMPTS = 10;
+// Mic audio kept while reconnecting and sent once the session is back (chunks are 128 ms)
+const MAX_BUFFERED_AUDIO_CHUNKS = Math.ceil(60000 / 128);
 
 export class LiveApiService {
-  private sessionPromise: Promise<LiveSession> | null = null;
-  private inputAudioContext: AudioContext | null = null;
-  private mediaStream: MediaStream | null = null;
-  private processor: ScriptProcessorNode | null = null;
-  private source: MediaStreamAudioSourceNode | null = null;
+  private socket: WebSocket | null = null;
+  private handlers: LiveHandlers | null = null;
+  private options: LiveConnectOptions = {};
+  // The co-pilot's spoken replies
+  readonly player = new AudioPlayer(getPlaybackSettings());
+  // Mic level for every captured chunk (about 8 per second), for the level meter
+  onInputLevel: (level: InputLevel) => void = () => {};
+  private capture = new MicrophoneCapture(
+    data => this.send({ type: 'audio', data, mimeType: CAPTURE_MIME_TYPE }),
+    level => this.onInputLevel(level)
+  );
+  // Local recording of the interview; see audioRecording.ts
+  readonly recorder = new InterviewRecorder();
+
+  // --- Reconnection state ---
+  // Called when a dropped connection is being retried, and when the session is back.
+  // resumed is false when Gemini could not restore the session and the co-pilot lost its context.
+  onReconnecting: (attempt: number) => void = () => {};
+  onReconnected: (resumed: boolean) => void = () => {};
+  private resumeHandle: string | null = null; // Latest handle from Gemini's sessionResumptionUpdate
+  private started = false; // The first connection reached Gemini
+  private live = false; // The current connection reached Gemini and accepts input
+  private ending = false; // disconnect() was called
+  private reconnectAttempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private pending: LiveClientFrame[] = [];
+  private lastError = '';
 
   async connect(
     onOpen: () => void,
     onMessage: (msg: LiveServerMessage) => void,
     onError: (err: ErrorEvent) => void,
-    onClose: (evt: CloseEvent) => void
+    onClose: (evt: CloseEvent) => void,
+    options: LiveConnectOptions = {}
   ) {
-    // CRITICAL: Store the promise so we can use it in callbacks to avoid race conditions
-    this.sessionPromise = ai.live.connect({
-      model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-      callbacks: {
-        onopen: async () => {
-          onOpen();
-          try {
-            await this.startAudioStream();
-          } catch (e) {
-             console.error("Audio stream failed:", e);
-             // Propagate error if audio fails
-             onError(new ErrorEvent('error', { message: "Microphone access failed. Not Supported." }));
-          }
-        },
-        onmessage: onMessage,
-        onerror: onError,
-        onclose: onClose,
-      },
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: {
-          voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } },
-        },
-        systemInstruction: `You are a helpful co-interviewer for a social service product manager mapping a customer journey.
-        When asked to start, provide a brief, warm preamble setting the context and ask a gentle opening question.
-        During the rest of the interview, primarily listen. 
-        Only speak if you identify a critical missing piece of information regarding the user journey (e.g., missed touchpoints or emotions). 
-        Do not repeat what the user says.`,
-        inputAudioTranscription: {}, 
-        outputAudioTranscription: {}
-      },
-    });
+    this.handlers = { onOpen, onMessage, onError, onClose };
+    this.options = options;
+    this.resumeHandle = null;
+    this.started = false;
+    this.ending = false;
+    this.reconnectAttempt = 0;
+    this.pending = [];
+    this.lastError = '';
 
-    // Await the initial connection to catch early errors
-    await this.sessionPromise;
+    // Started before any await so it still counts as part of the Start Interview click
+    const playerReady = this.player.start();
+    const socket = this.openSocket();
+    // Await the initial connection to catch early errors (server down, rate limited)
+    const opened = new Promise<void>((resolve, reject) => {
+      socket.addEventListener('open', () => resolve());
+      socket.addEventListener('error', () => reject(new Error("Cannot reach the AIMS live relay. Is the server running?")));
+    });
+    await playerReady;
+    await opened;
+    window.addEventListener('online', this.retryNow);
   }
 
-  private async startAudioStream() {
-    // Relaxed constraints: Remove specific sampleRate to prevent "Not Supported" / OverconstrainedError
-    // Browser will give native rate, and AudioContext below will handle resampling to 16000.
-    this.mediaStream = await navigator.mediaDevices.getUserMedia({ 
-      audio: {
-        channelCount: 1,
-        echoCancellation: true,
-        noiseSuppression: true,
-        autoGainControl: true
+  private openSocket(): WebSocket {
+    const resuming = !!this.resumeHandle;
+    const socket = new WebSocket(liveRelayUrl(this.options.voice || DEFAULT_LIVE_VOICE, this.options.language, this.resumeHandle || undefined));
+    this.socket = socket;
+    this.live = false;
+
+    socket.onmessage = (event) => {
+      const frame: LiveServerFrame = JSON.parse(event.data);
+      if (frame.type === 'open') {
+        this.live = true;
+        this.handleOpen(resuming);
+      } else if (frame.type === 'message') {
+        this.handleMessage(frame.message);
+      } else if (!this.started) {
+        this.handlers?.onError(new ErrorEvent('error', { message: frame.message }));
+      } else {
+        // Mid-session errors are followed by a close, which reconnects
+        console.warn("Live relay error:", frame.message);
+        this.lastError = frame.message;
+        // Most likely an expired handle; the next attempt starts a fresh session
+        if (resuming && !this.live) this.resumeHandle = null;
       }
-    });
-    
-    // Explicitly request 16k for the processing context.
-    // The browser handles the resampling from the mic's native rate to this context's rate.
-    this.inputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-    
-    this.source = this.inputAudioContext.createMediaStreamSource(this.mediaStream);
-    this.processor = this.inputAudioContext.createScriptProcessor(4096, 1, 1);
-
-    this.processor.onaudioprocess = (e) => {
-      const inputData = e.inputBuffer.getChannelData(0);
-      const pcmBlob = createBlob(inputData);
-      
-      // CRITICAL: Use the sessionPromise to ensure we send to a connected session
-      this.sessionPromise?.then((session) => {
-        session.sendRealtimeInput({ media: pcmBlob });
-      });
     };
+    socket.onerror = () => {
+      if (this.started) console.warn("Live relay connection failed.");
+    };
+    socket.onclose = (event) => {
+      // Replaced by a newer connection, or closed by disconnect()
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.live = false;
+      if (!this.started || this.ending) return this.handlers?.onClose(event);
+      this.scheduleReconnect();
+    };
+    return socket;
+  }
 
-    this.source.connect(this.processor);
-    this.processor.connect(this.inputAudioContext.destination);
+  private async handleOpen(resumed: boolean) {
+    if (this.started) {
+      // Back after a drop: send what the interviewee said meanwhile
+      this.reconnectAttempt = 0;
+      this.lastError = '';
+      const pending = this.pending;
+      this.pending = [];
+      pending.forEach(frame => this.send(frame));
+      this.onReconnected(resumed);
+      return;
+    }
+    this.started = true;
+    // The relay has reached Gemini; only now is it worth opening the microphone
+    this.handlers?.onOpen();
+    try {
+      await this.capture.start(this.options.deviceId);
+      if (this.options.record) this.startRecording();
+    } catch (e) {
+      console.error("Audio stream failed:", e);
+      // Propagate error if audio fails
+      this.handlers?.onError(new ErrorEvent('error', { message: "Microphone access failed. Not Supported." }));
+    }
   }
 
-  async disconnect() {
-    if (this.mediaStream) {
-      this.mediaStream.getTracks().forEach(track => track.stop());
-      this.mediaStream = null;
+  private handleMessage(message: LiveServerMessage) {
+    const update = message.sessionResumptionUpdate;
+    // Handles are not resumable while the model is generating; keep the last one that was
+    if (update?.resumable && update.newHandle) this.resumeHandle = update.newHandle;
+    this.playAudio(message);
+    this.handlers?.onMessage(message);
+    // Gemini ends every connection after a few minutes and warns first; move to a new one right away
+    if (message.goAway && this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      socket.close();
+      this.scheduleReconnect(0);
+    }
+  }
+
+  private scheduleReconnect(delayMs?: number) {
+    if (this.reconnectAttempt >= MAX_RECONNECT_ATTEMPTS) {
+      this.giveUp();
+      return;
     }
-    if (this.inputAudioContext) {
-      await this.inputAudioContext.close();
-      this.inputAudioContext = null;
+    // Jitter so clients dropped by the same outage do not all retry at once
+    const backoff = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** this.reconnectAttempt) * (0.75 + Math.random() * 0.5);
+    this.reconnectAttempt++;
+    this.onReconnecting(this.reconnectAttempt);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.openSocket();
+    }, delayMs ?? backoff);
+  }
+
+  // The browser is back online; no point waiting out the backoff
+  private retryNow = () => {
+    if (!this.reconnectTimer) return;
+    clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    this.openSocket();
+  };
+
+  private async giveUp() {
+    const reason = this.lastError;
+    await this.disconnect();
+    this.handlers?.onError(new ErrorEvent('error', {
+      message: `Lost the connection to the live co-pilot${reason ? ` (${reason})` : ''}. Check the network and start the interview again.`
+    }));
+  }
+
+  private playAudio(message: LiveServerMessage) {
+    const content = message.serverContent;
+    // The server detected the interviewee talking over the co-pilot
+    if (content?.interrupted) this.player.interrupt();
+    // Also stop as soon as their words are transcribed, in case the interruption signal lags
+    if (content?.inputTranscription?.text?.trim() && this.player.isSpeaking) this.player.interrupt();
+    content?.modelTurn?.parts?.forEach(part => {
+      if (part.inlineData?.data && part.inlineData.mimeType?.startsWith('audio/')) this.player.enqueue(part.inlineData.data);
+    });
+  }
+
+  private send(frame: LiveClientFrame) {
+    if (this.live && this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(frame));
+    } else if (this.started && !this.ending) {
+      // Reconnecting: hold on to it, dropping the oldest audio once the buffer is full
+      this.pending.push(frame);
+      const audio = this.pending.filter(f => f.type === 'audio');
+      if (audio.length > MAX_BUFFERED_AUDIO_CHUNKS) this.pending.splice(this.pending.indexOf(audio[0]), 1);
     }
-    
-    if (this.sessionPromise) {
-      const session = await this.sessionPromise;
-      // Use type casting if close exists but isn't typed
-      if (typeof (session as any).close === 'function') {
-        (session as any).close();
-      }
-      this.sessionPromise = null;
+  }
+
+  switchMicrophone(deviceId: string) {
+    this.options = { ...this.options, deviceId };
+    return this.capture.switchDevice(deviceId);
+  }
+
+  // Recording can be switched on and off during the interview; it keeps going through reconnects
+  startRecording() {
+    const stream = this.capture.recordingStream;
+    if (stream) this.recorder.start(stream);
+  }
+
+  stopRecording() {
+    return this.recorder.stop();
+  }
+
+  async disconnect() {
+    this.ending = true;
+    window.removeEventListener('online', this.retryNow);
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.pending = [];
+    await this.recorder.stop();
+    await this.capture.stop();
+    if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      socket.close();
     }
+    await this.player.close();
   }
 
   sendText(text: string) {
-    this.sessionPromise?.then((session) => {
-      // Cast to any because 'send' is not exposed in the LiveSession type definition
-      // but is required to send client content like text turns.
-      (session as any).send({
-        clientContent: {
-          turns: [{ role: 'user', parts: [{ text }] }],
-          turnComplete: true
-        }
-      });
-    });
+    this.send({ type: 'text', text });
+  }
+
+  // Adds to the co-pilot's context without asking it to respond
+  sendContext(text: string) {
+    this.send({ type: 'text', text, turnComplete: false });
+  }
+
+  // The PM picked a suggested question for the co-pilot to put to the interviewee
+  askQuestion(question: string) {
+    this.sendText(`Please ask the interviewee this question now, briefly and in your own warm words, then listen: "${question}"`);
   }
 }
 
 // --- Content Generation Services ---
 
-// Helper to ensure the model's JSON response has all required arrays
-const sanitizeJourneyMap = (data: any): JourneyMapData => {
-  if (!data || typeof data !== 'object') {
-    throw new Error("Invalid data format received from AI");
+// Items are objects so they can carry provenance (transcript evidence, who mentioned them)
+const journeyItemSchema = {
+  type: Type.OBJECT,
+  properties: {
+    text: { type: Type.STRING },
+    basis: { type: Type.STRING, enum: ["evidenced", "inferred"] },
+    sourceIds: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Ids of the transcript lines the item was derived from" },
+    quote: { type: Type.STRING, description: "Verbatim quote copied from the cited transcript line" },
+    participants: { type: Type.ARRAY, items: { type: Type.STRING } },
+  },
+  required: ["text"]
+};
+
+// Handle potential Markdown wrapping in a JSON response
+const parseJsonResponse = (text: string): any => {
+  let jsonText = text.trim();
+  if (jsonText.startsWith('```json')) {
+    jsonText = jsonText.replace(/^```json\s*/, '').replace(/\s*```$/, '');
+  } else if (jsonText.startsWith('```')) {
+    jsonText = jsonText.replace(/^```\s*/, '').replace(/\s*```$/, '');
   }
-  return {
-    title: data.title || "Untitled Journey",
-    stages: (Array.isArray(data.stages) ? data.stages : []).map((stage: any) => ({
-      name: stage.name || "Unknown Stage",
-      userActions: Array.isArray(stage.userActions) ? stage.userActions : [],
-      touchpoints: Array.isArray(stage.touchpoints) ? stage.touchpoints : [],
-      emotions: stage.emotions || "😐",
-      painPoints: Array.isArray(stage.painPoints) ? stage.painPoints : [],
-      opportunities: Array.isArray(stage.opportunities) ? stage.opportunities : [],
-    }))
-  };
+  return JSON.parse(jsonText);
 };
 
-export const analyzeTranscriptForMap = async (transcriptHistory: TranscriptItem[]): Promise<JourneyMapData | null> => {
-  if (transcriptHistory.length === 0) return null;
+const sentimentSchema = {
+  type: Type.OBJECT,
+  properties: {
+    score: { type: Type.INTEGER, description: `How the client felt, from ${SENTIMENT_MIN} (very negative) to +${SENTIMENT_MAX} (very positive)` },
+    rationale: { type: Type.STRING, description: "One short sentence explaining the score" },
+    basis: { type: Type.STRING, enum: ['evidenced', 'inferred'] },
+    sourceIds: { type: Type.ARRAY, items: { type: Type.STRING } },
+    quote: { type: Type.STRING, description: "Short verbatim excerpt that best shows the feeling" },
+  },
+  required: ["score"]
+};
+
+// One schema property per lane; custom lanes are asked for as top-level stage fields
+const buildStageSchema = (lanes: LaneDefinition[], emotionDescription = "A single emoji representing the mood") => ({
+  type: Type.OBJECT,
+  properties: {
+    name: { type: Type.STRING },
+    ...Object.fromEntries(lanes.flatMap((lane): [string, object][] => lane.kind === 'emotion'
+      ? [[EMOTION_LANE_KEY, { type: Type.STRING, description: emotionDescription }], ['sentiment', sentimentSchema]]
+      : [[lane.key, { type: Type.ARRAY, items: journeyItemSchema, ...(lane.description ? { description: lane.description } : {}) }]]
+    )),
+  },
+  // No 'required' for inner fields to allow flexible partial generation
+});
+
+const describeLanes = (lanes: LaneDefinition[]) =>
+  lanes.map(lane => lane.kind === 'emotion'
+    ? `- ${EMOTION_LANE_KEY} (${lane.label}): ${lane.description || 'A single emoji representing the mood'}. Also set "sentiment": an integer score from ${SENTIMENT_MIN} to +${SENTIMENT_MAX}, a one-sentence rationale and the quote that best shows the feeling. Score stages relative to each other so the low points stand out.`
+    : `- ${lane.key} (${lane.label})${lane.description ? `: ${lane.description}` : ''}`
+  ).join('\n      ');
+
+// Lane texts without provenance, used when a map is sent back to the model
+const compactStage = (map: JourneyMapData, stage: JourneyStage) => ({
+  name: stage.name,
+  emotions: stage.emotions,
+  ...(stage.sentiment ? { sentiment: stage.sentiment.score } : {}),
+  ...Object.fromEntries(itemLaneKeys(map).map(lane => [lane, getLaneItems(stage, lane).map(i => i.text)])),
+});
+
+// Built per request from the current settings. Seeding with the transcript numbers placeholders
+// by first appearance, so the same person is [NAME_1] in every request about this interview.
+const createRedactor = (participants: Participant[] = [], transcript: TranscriptItem[] = []) =>
+  new Redactor(getRedactionSettings(), participants, transcript);
+
+const EVIDENCE_INSTRUCTION = `*** EVIDENCE INSTRUCTION ***
+      Each transcript line starts with its id in square brackets.
+      For EVERY item in every lane:
+      - If the Interviewee (or a Caregiver) said it, set "basis" to "evidenced", "sourceIds" to the id(s) of the supporting line(s), and "quote" to a short VERBATIM excerpt copied exactly from one of those lines.
+      - If it is your inference (including all opportunities you propose), set "basis" to "inferred" and leave "sourceIds" and "quote" empty.
+      Never paraphrase inside "quote".`;
+
+// Roles set in the transcript editor replace the guesswork about who is speaking
+const mapSpeakerInstruction = (transcript: TranscriptItem[], participants: Participant[], lanes: LaneDefinition[]) =>
+  hasUnassignedTurns(transcript, participants) ? `
+      *** CRITICAL SPEAKER INSTRUCTION ***
+      The lines labeled 'Human (Microphone)' contain speech from TWO different people sharing one device:
+      1. **The Interviewer**: Asking questions, clarifying, guiding. (e.g., "How did that make you feel?", "And then what happened?")
+      2. **The Interviewee${isBlueprint(lanes) ? '' : ' (Client)'}**: Sharing their personal story, pain points, and journey. (e.g., "I felt lost," "I went to the counter.")
+      Lines from an imported transcript are labeled with the speaker's name instead. Use what each named speaker says to tell the Interviewer from the Interviewee.
+      Lines labeled with a role in brackets, e.g. "Jane (Interviewer)", are already identified and need no guessing.
+      ` : `
+      *** SPEAKER ROLES ***
+      Every line is labeled with the speaker's name and role.
+      - Interviewer and Co-Pilot lines are questions and context only. Never map them as the client's experience.
+      - Interviewee lines are the client's own account.
+      - Caregiver lines describe the client's journey from a family member's or carer's point of view. Include them; they count as evidence.
+      `;
+
+// Maps of non-English interviews: items are written in the output language, quotes stay as spoken
+const mapLanguageInstruction = (language?: SessionLanguage) =>
+  !language || isEnglishOnly(language) ? '' : `
+      *** LANGUAGE ***
+      The interview is in ${languageName(language.interview)}.
+      - Write the title, every item, the emotion rationales and any explanation in ${languageName(language.output)}.
+      - Keep the stage names exactly as given, even when they are in another language.
+      - "quote" must stay VERBATIM in the language it was spoken in. Never translate a quote.
+      `;
+
+// Per request; a long transcript makes several requests, each with its own limit
+const MAP_REQUEST_TIMEOUT_MS = 90000;
+
+// Rejects when the model takes too long or the PM cancels. Cancelling also aborts the request itself.
+const generateWithTimeout = async (request: JsonRequest, timeoutMs = MAP_REQUEST_TIMEOUT_MS): Promise<string> => {
+  const { signal } = request;
+  signal?.throwIfAborted();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let onAbort: (() => void) | undefined;
+  const stop = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error("Analysis timed out. The model took too long to respond.")), timeoutMs);
+    onAbort = () => reject(signal!.reason);
+    signal?.addEventListener('abort', onAbort);
+  });
+  try {
+    return await Promise.race([getProvider().generateJson(request), stop]);
+  } finally {
+    clearTimeout(timer);
+    if (onAbort) signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+export interface MapAnalysisOptions {
+  onProgress?: (progress: AnalysisProgress) => void;
+  signal?: AbortSignal;
+  language?: SessionLanguage; // English throughout when absent
+}
+
+// One map request over some transcript lines: the whole transcript, or one part of a long one.
+// The result is still redacted, so the parts of a long transcript can be merged before rehydrating.
+const extractMap = async (
+  lines: TranscriptItem[],
+  transcriptHistory: TranscriptItem[],
+  template: JourneyTemplate,
+  participants: Participant[],
+  redactor: Redactor,
+  language?: SessionLanguage,
+  signal?: AbortSignal,
+  part?: { index: number; total: number }
+): Promise<JourneyMapData> => {
+  // Convert structured history to a formatted string for the model.
+  // Line ids let the model cite its evidence; assigned turns carry the speaker's role.
+  // Ids are left alone; speaker names and text are redacted.
+  const formattedTranscript = lines.map(item =>
+    `[${item.id}] ${redactor.redact(speakerLabel(item, participants))}: ${redactor.redact(item.text)}`
+  ).join('\n\n');
+
+  const speakerInstruction = mapSpeakerInstruction(transcriptHistory, participants, template.lanes);
 
-  // Convert structured history to a formatted string for the model
-  const formattedTranscript = transcriptHistory.map(item => {
-    // Labeling broadly to help the model, though we ask it to infer context below
-    const speakerLabel = item.speaker === 'model' ? 'AI Co-Pilot' : 'Human (Microphone)';
-    return `${speakerLabel}: ${item.text}`;
-  }).join('\n\n');
+  // Service blueprints also need the staff side, which staff interviewees describe directly
+  const isBlueprintTemplate = isBlueprint(template.lanes);
+  const blueprintInstruction = isBlueprintTemplate ? `
+      *** SERVICE BLUEPRINT INSTRUCTION ***
+      This map is a service blueprint. The Interviewee may be a CLIENT or a STAFF MEMBER (e.g., a case worker, counter officer or administrator).
+      - Work out which from what they describe. Staff talk about their own procedures, systems and colleagues.
+      - Keep the stages anchored on the client's journey, even when a staff member is speaking.
+      - Frontstage: staff actions the client sees. Backstage: staff actions and processes the client does not see. Support: systems, IT, policies and partner agencies.
+      - A client can usually only describe frontstage; put backstage or support items they mention as "inferred" unless they state them as fact.
+      ` : '';
+
+  // Each part only sees its own stretch of the interview, so it must not fill the gaps by guessing
+  const partInstruction = part ? `
+      *** PART ${part.index + 1} OF ${part.total} ***
+      This is one part of a long interview; the other parts are analysed separately and merged afterwards.
+      - Map only what THIS part says. Leave a stage's lanes empty when this part does not touch that stage, and leave out its "emotions" and "sentiment" too.
+      - Do not propose opportunities or other inferred items unless this part clearly points to them.
+      ` : '';
 
   // Relaxed schema to ensure valid JSON even with partial data
   const schema = {
@@ -190,73 +457,141 @@ export const analyzeTranscriptForMap = async (transcriptHistory: TranscriptItem[
       title: { type: Type.STRING },
       stages: {
         type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            name: { type: Type.STRING },
-            userActions: { type: Type.ARRAY, items: { type: Type.STRING } },
-            touchpoints: { type: Type.ARRAY, items: { type: Type.STRING } },
-            emotions: { type: Type.STRING, description: "A single emoji representing the mood" },
-            painPoints: { type: Type.ARRAY, items: { type: Type.STRING } },
-            opportunities: { type: Type.ARRAY, items: { type: Type.STRING } },
-          },
-          // Removed 'required' for inner fields to allow flexible partial generation
-        }
+        items: buildStageSchema(template.lanes)
       }
     },
     required: ["title", "stages"]
   };
 
-  // Timeout promise to prevent hanging indefinitely (increased to 90s for complex analysis)
-  const timeoutMs = 90000;
-  const timeoutPromise = new Promise<null>((_, reject) => 
-    setTimeout(() => reject(new Error("Analysis timed out. The model took too long to respond.")), timeoutMs)
-  );
-
-  try {
-    const apiCall = ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: `Analyze the following interview transcript and construct a Customer Journey Map for a social service agency.
-      
-      *** CRITICAL SPEAKER INSTRUCTION ***
-      The lines labeled 'Human (Microphone)' contain speech from TWO different people sharing one device:
-      1. **The Interviewer**: Asking questions, clarifying, guiding. (e.g., "How did that make you feel?", "And then what happened?")
-      2. **The Interviewee (Client)**: Sharing their personal story, pain points, and journey. (e.g., "I felt lost," "I went to the counter.")
+  const responseText = await generateWithTimeout({
+    task: 'map',
+    prompt: `Analyze the following interview transcript and construct a ${isBlueprintTemplate ? 'Service Blueprint' : 'Customer Journey Map'} for a social service agency.
       
+      ${speakerInstruction}
       **YOUR TASK**:
       - IGNORE the Interviewer's administrative questions/remarks.
       - **Map ONLY the Interviewee's journey.**
       - Infer the stages based on the Interviewee's narrative.
-      
-      Identify 5 key stages: Awareness, Consideration, Decision, Service Delivery, and Retention/Exit.
-      If information for a stage is missing, make reasonable inferences based on the context or leave that specific field empty.
+      ${blueprintInstruction}${partInstruction}${mapLanguageInstruction(language)}
+      Identify ${template.stages.length} key stages, in this order: ${template.stages.join(', ')}.
+      For each stage, fill these lanes:
+      ${describeLanes(template.lanes)}
+      If information for a stage is missing, you may make reasonable inferences based on the context (flagged as "inferred", see below) or leave that specific field empty.
+
+      ${EVIDENCE_INSTRUCTION}
       
       Transcript:
       ${formattedTranscript}`,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: schema
-      }
-    });
+    schema,
+    signal
+  });
 
-    // Race against timeout
-    const response: any = await Promise.race([apiCall, timeoutPromise]);
+  if (!responseText) {
+    throw new Error("Empty response from AI");
+  }
 
-    if (!response || !response.text) {
-      throw new Error("Empty response from AI");
-    }
+  // Sanitize to prevent missing array errors (undefined.join)
+  return sanitizeJourneyMap(parseJsonResponse(responseText), template.lanes);
+};
+
+// Combines one stage's findings from all parts, merging those that describe the same thing
+const mergeStage = async (group: StageFindings, template: JourneyTemplate, language?: SessionLanguage, signal?: AbortSignal): Promise<JourneyStage> => {
+  const lanes = template.lanes.filter(l => l.kind !== 'emotion');
+  const laneKeys = lanes.map(l => l.key);
+  if (!needsMerge(group)) return buildMergedStage(group, laneKeys);
 
-    // Handle potential Markdown wrapping in response
-    let jsonText = response.text;
-    if (jsonText.startsWith('```json')) {
-      jsonText = jsonText.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-    } else if (jsonText.startsWith('```')) {
-      jsonText = jsonText.replace(/^```\s*/, '').replace(/\s*```$/, '');
+  const mergedItemSchema = {
+    type: Type.OBJECT,
+    properties: {
+      text: { type: Type.STRING },
+      refs: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Refs of every finding merged into this item" },
+    },
+    required: ["text", "refs"]
+  };
+  const schema = {
+    type: Type.OBJECT,
+    properties: {
+      emotions: { type: Type.STRING, description: "A single emoji for how the client felt across the whole stage" },
+      score: { type: Type.INTEGER, description: `From ${SENTIMENT_MIN} (very negative) to +${SENTIMENT_MAX} (very positive)` },
+      rationale: { type: Type.STRING },
+      ...Object.fromEntries(laneKeys.map(key => [key, { type: Type.ARRAY, items: mergedItemSchema }])),
+    },
+    required: laneKeys
+  };
+
+  const findings = lanes.map(lane => {
+    const laneFindings = group.findings.filter(f => f.lane === lane.key);
+    return laneFindings.length > 0
+      ? `${lane.key} (${lane.label}):\n${laneFindings.map(f => `      - (${f.ref}) ${f.item.text}${f.item.basis === 'inferred' ? ' [inferred]' : ''}`).join('\n')}`
+      : '';
+  }).filter(Boolean).join('\n      ');
+  const feelings = group.feelings.map(f => `${f.emotions} ${f.sentiment.score}${f.sentiment.rationale ? ` (${f.sentiment.rationale})` : ''}`).join('; ');
+
+  const responseText = await generateWithTimeout({
+    task: 'mapMerge',
+    prompt: `These findings for the "${group.name}" stage of a journey map were extracted from consecutive parts of one long interview.
+      Merge them into the final list for each lane:
+      - Findings that describe the same thing become ONE item with a clear, concise text; list the refs of every finding it combines.
+      - Keep findings that are genuinely different as separate items. Never invent new findings or move them to another lane.
+      - Every ref should be used exactly once.
+      Then give the stage one overall feeling ("emotions", "score", "rationale") that reflects the whole interview.
+      ${language && !isEnglishOnly(language) ? `Write merged texts and the rationale in ${languageName(language.output)}.` : ''}
+      ${feelings ? `How each part felt: ${feelings}` : ''}
+
+      Findings:
+      ${findings}`,
+    schema,
+    signal
+  });
+
+  const raw = parseJsonResponse(responseText);
+  const merged = Object.fromEntries(laneKeys.map(key => [key, Array.isArray(raw[key])
+    ? raw[key].filter((m: any) => m && typeof m.text === 'string' && Array.isArray(m.refs)).map((m: any) => ({ text: m.text, refs: m.refs.map(String) }))
+    : []]));
+  const feeling = typeof raw.score === 'number' ? { emotions: typeof raw.emotions === 'string' ? raw.emotions : '', score: raw.score, rationale: raw.rationale } : undefined;
+  return buildMergedStage(group, laneKeys, merged, feeling);
+};
+
+// Builds the map from the transcript. Transcripts longer than one request can take are read in
+// parts, and each stage's findings are merged afterwards; progress is reported as it goes.
+export const analyzeTranscriptForMap = async (
+  transcriptHistory: TranscriptItem[],
+  template: JourneyTemplate = BUILT_IN_TEMPLATES[0],
+  participants: Participant[] = [],
+  { onProgress, signal, language }: MapAnalysisOptions = {}
+): Promise<JourneyMapData | null> => {
+  if (transcriptHistory.length === 0) return null;
+
+  const redactor = createRedactor(participants, transcriptHistory);
+  const chunks = chunkTranscript(transcriptHistory);
+
+  try {
+    let map: JourneyMapData;
+    if (chunks.length === 1) {
+      onProgress?.({ phase: 'reading', done: 0, total: 1 });
+      map = await extractMap(transcriptHistory, transcriptHistory, template, participants, redactor, language, signal);
+    } else {
+      const partials: JourneyMapData[] = [];
+      for (let index = 0; index < chunks.length; index++) {
+        onProgress?.({ phase: 'reading', done: index, total: chunks.length });
+        partials.push(await extractMap(chunks[index], transcriptHistory, template, participants, redactor, language, signal, { index, total: chunks.length }));
+      }
+
+      const laneKeys = template.lanes.filter(l => l.kind !== 'emotion').map(l => l.key);
+      const groups = collectFindings(partials, template.stages, laneKeys);
+      const stages: JourneyStage[] = [];
+      for (let index = 0; index < groups.length; index++) {
+        onProgress?.({ phase: 'merging', done: index, total: groups.length });
+        stages.push(await mergeStage(groups[index], template, language, signal));
+      }
+      map = sanitizeJourneyMap({ title: partials[0].title, stages }, template.lanes);
     }
 
-    const rawData = JSON.parse(jsonText);
-    // Sanitize to prevent missing array errors (undefined.join)
-    return sanitizeJourneyMap(rawData);
+    // Restore the redacted values, then check every citation against the original transcript
+    map = redactor.rehydrateDeep(map);
+    map.templateId = template.id;
+    if (language && language.output !== 'en') map.language = language.output;
+    return verifyMapEvidence(map, transcriptHistory);
 
   } catch (error) {
     console.error("Analysis error:", error);
@@ -264,105 +599,461 @@ export const analyzeTranscriptForMap = async (transcriptHistory: TranscriptItem[
   }
 };
 
-export const generateFollowUpQuestions = async (transcriptHistory: TranscriptItem[]): Promise<string[]> => {
+// Earlier lines sent along with a live update, so the new ones can be understood
+const LIVE_MAP_CONTEXT_LINES = 12;
+
+// Live map building: asks only for what the new transcript lines add to the current map.
+// The result is a partial map holding the additions; applyLiveUpdate merges it.
+export const analyzeNewTranscriptLines = async (
+  currentMap: JourneyMapData,
+  newLines: TranscriptItem[],
+  transcript: TranscriptItem[],
+  participants: Participant[] = [],
+  language?: SessionLanguage
+): Promise<JourneyMapData> => {
+  const lanes = mapLanes(currentMap);
+  const schema = {
+    type: Type.OBJECT,
+    properties: {
+      stages: { type: Type.ARRAY, items: buildStageSchema(lanes) }
+    },
+    required: ["stages"]
+  };
+
+  const redactor = createRedactor(participants, transcript);
+  const formatLines = (lines: TranscriptItem[]) => lines.map(item =>
+    `[${item.id}] ${redactor.redact(speakerLabel(item, participants))}: ${redactor.redact(item.text)}`
+  ).join('\n\n');
+  const firstNew = transcript.findIndex(item => item.id === newLines[0]?.id);
+  const context = firstNew > 0 ? transcript.slice(Math.max(0, firstNew - LIVE_MAP_CONTEXT_LINES), firstNew) : [];
+  const compactMap = redactor.redactDeep({ stages: currentMap.stages.map(stage => compactStage(currentMap, stage)) });
+
+  const responseText = await getProvider().generateJson({
+    task: 'liveMap',
+    prompt: `You are filling in a ${isBlueprint(lanes) ? 'Service Blueprint' : 'Customer Journey Map'} for a social service agency while the interview is still going on.
+      ${mapSpeakerInstruction(transcript, participants, lanes)}${mapLanguageInstruction(language)}
+      Current map: ${JSON.stringify(compactMap)}
+
+      **YOUR TASK**:
+      - Return ONLY what the NEW transcript lines add to the map. Earlier lines are context and are already mapped.
+      - List only the stages the new lines add to, using the exact stage names: ${currentMap.stages.map(s => s.name).join(', ')}.
+      - Never repeat, reword or contradict an item that is already on the map.
+      - Only set "emotions" and "sentiment" for a stage when the new lines show how the client felt there.
+      - If the new lines add nothing (e.g. small talk or only the Interviewer speaking), return an empty stages list.
+      Lanes:
+      ${describeLanes(lanes)}
+
+      ${EVIDENCE_INSTRUCTION}
+      ${context.length > 0 ? `\n      Earlier lines (context only):\n${formatLines(context)}\n` : ''}
+      New transcript lines:
+      ${formatLines(newLines)}`,
+    schema
+  });
+
+  const rawData = parseJsonResponse(responseText);
+  const additions = redactor.rehydrateDeep(sanitizeJourneyMap({ title: currentMap.title, stages: rawData.stages }, lanes));
+  return verifyMapEvidence(additions, transcript);
+};
+
+// How many open guide items the follow-up questions are steered towards
+const MAX_GUIDE_GAPS = 8;
+
+export interface SuggestionContext {
+  guideGaps?: GuideEntry[]; // Guide items not covered yet, most important first
+  stages?: string[]; // Journey stages of the project's template
+  language?: SessionLanguage;
+}
+
+export const generateFollowUpQuestions = async (
+  transcriptHistory: TranscriptItem[],
+  participants: Participant[] = [],
+  { guideGaps = [], stages = [], language }: SuggestionContext = {}
+): Promise<Suggestion[]> => {
   if (transcriptHistory.length === 0) return [];
-  
-  const formattedTranscript = transcriptHistory.slice(-10).map(item => 
-    `${item.speaker === 'model' ? 'AI' : 'Human'}: ${item.text}`
-  ).join('\n');
+
+  const recent = transcriptHistory.slice(-10);
+  const redactor = createRedactor(participants, transcriptHistory);
+  const formattedTranscript = recent.map(item => {
+    const speaker = speakerOf(item, participants);
+    const label = speaker ? ROLE_LABELS[speaker.role] : item.speaker === 'model' ? 'AI' : item.speakerName || 'Human';
+    return redactor.redact(`${label}: ${item.text}`);
+  }).join('\n');
+  // With known roles, questions can build on what the interviewee actually said rather than on the interviewer's lines
+  const hasCaregiver = participants.some(p => p.role === 'caregiver');
+  const roleNote = hasUnassignedTurns(recent, participants)
+    ? ''
+    : `\n      Build on what the Interviewee${hasCaregiver ? ' and Caregiver' : ''} said; do not repeat questions the Interviewer already asked.`;
+  // The guide's gaps come first, phrased so they follow naturally from where the conversation is
+  const gapNote = guideGaps.length === 0 ? '' : `
+      The interview guide still has these items open. Prioritise them: at least two questions should lead towards one of them, starting with the first.
+      ${guideGaps.slice(0, MAX_GUIDE_GAPS).map(({ item, section }) =>
+        redactor.redact(`- ${item.kind === 'topic' ? 'Must cover' : 'Planned question'} (${section.stage || section.title}): ${item.text}`)
+      ).join('\n      ')}`;
+  // Questions are asked as written, so they are in the interviewee's language; insights are for the PM
+  const languageNote = !language || isEnglishOnly(language) ? '' : `
+      Write questions in ${languageName(writtenLanguage(language.interview))} and insights in ${languageName(language.output)}.`;
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: `Based on this interview snippet, suggest 3 empathetic follow-up questions for the Product Manager to ask the Client.
-      Focus on uncovering hidden pain points.
+    const responseText = await getProvider().generateJson({
+      task: 'questions',
+      prompt: `Based on this interview snippet, suggest 3 things for the Product Manager.
+      Most should be empathetic follow-up questions to ask the Client ("question").
+      At most one may be an "insight": a short note for the PM, e.g. a contradiction, a feeling worth exploring or a part of the journey nobody has talked about.
+      Focus on uncovering hidden pain points.${roleNote}${gapNote}${languageNote}
+      For each suggestion, set "target" to the journey stage${stages.length > 0 ? ` (one of: ${stages.join(', ')})` : ''} or the guide item it goes after.
       
       Snippet: 
       ${formattedTranscript}`,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            questions: {
-              type: Type.ARRAY,
-              items: { type: Type.STRING }
+      schema: {
+        type: Type.OBJECT,
+        properties: {
+          suggestions: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                type: { type: Type.STRING, enum: ['question', 'insight'] },
+                text: { type: Type.STRING },
+                target: { type: Type.STRING, description: "Journey stage or guide item this goes after" },
+              },
+              required: ["type", "text"]
             }
-          },
-          required: ["questions"]
-        }
+          }
+        },
+        required: ["suggestions"]
       }
     });
 
-    const parsed = JSON.parse(response.text);
-    return parsed.questions || [];
+    const parsed = parseJsonResponse(responseText);
+    // Suggestions may refer to people by placeholder, e.g. "How did [NAME_2] react?"
+    const sourceId = transcriptHistory[transcriptHistory.length - 1].id;
+    return (parsed.suggestions || [])
+      .filter((s: any) => typeof s?.text === 'string' && s.text.trim())
+      .map((s: any) => createSuggestion(redactor.rehydrate(s.text.trim()), {
+        type: s.type === 'insight' ? 'insight' : 'question',
+        ...(typeof s.target === 'string' && s.target.trim() ? { target: redactor.rehydrate(s.target.trim()) } : {}),
+        sourceId,
+      }));
   } catch (e) {
     // console.error("Suggestion error:", e);
     return [];
   }
 };
 
-export const refineMapWithChat = async (currentMap: JourneyMapData, userPrompt: string): Promise<JourneyMapData> => {
+// Transcript lines sent per coverage check; the rest are picked up by the next check
+const MAX_COVERAGE_LINES = 80;
+
+// Checks the transcript lines added since the last check against the guide items that are
+// not covered yet. Coverage only ever grows, so each line is sent once.
+export const trackGuideCoverage = async (
+  transcript: TranscriptItem[],
+  guide: InterviewGuide,
+  coverage: GuideCoverage,
+  participants: Participant[] = []
+): Promise<GuideCoverage> => {
+  const lines = uncheckedLines(transcript, coverage).slice(0, MAX_COVERAGE_LINES);
+  const open = guideEntries(guide).filter(e => !isCovered(coverage, e.item.id));
+  if (lines.length === 0) return coverage;
+  const checkedThroughId = lines[lines.length - 1].id;
+  if (open.length === 0) return { ...coverage, checkedThroughId };
+
+  const redactor = createRedactor(participants, transcript);
+  const formattedItems = open.map(({ item, section }) =>
+    `- (${item.id}) [${section.stage || section.title}] ${item.kind === 'topic' ? 'Topic' : 'Question'}: ${redactor.redact(item.text)}`
+  ).join('\n');
+  const formattedTranscript = lines.map(item =>
+    `[${item.id}] ${redactor.redact(speakerLabel(item, participants))}: ${redactor.redact(item.text)}`
+  ).join('\n');
+
+  const responseText = await getProvider().generateJson({
+    task: 'coverage',
+    prompt: `You are tracking which items of an interview guide a social service interview has addressed.
+
+    For each guide item below, decide whether the transcript excerpt addresses it:
+    - "covered": the interviewee answered it, or talked about the topic in enough depth.
+    - "partial": it came up only briefly or was asked but not really answered.
+    Leave out items the excerpt does not touch. A question counts even if it was asked in different words.
+    Cite the ids of the transcript lines in "sourceIds".
+
+    Guide items (id in brackets):
+${formattedItems}
+
+    Transcript excerpt:
+${formattedTranscript}`,
+    schema: {
+      type: Type.OBJECT,
+      properties: {
+        items: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              id: { type: Type.STRING },
+              status: { type: Type.STRING, enum: ['covered', 'partial'] },
+              sourceIds: { type: Type.ARRAY, items: { type: Type.STRING } },
+            },
+            required: ['id', 'status']
+          }
+        }
+      },
+      required: ['items']
+    }
+  });
+
+  // Only ids and statuses come back, so nothing needs rehydrating; unknown ids and lines are dropped
+  const openIds = new Set(open.map(e => e.item.id));
+  const lineIds = new Set(lines.map(l => l.id));
+  const detected: Record<string, GuideItemCoverage> = {};
+  (parseJsonResponse(responseText).items || []).forEach((entry: any) => {
+    if (!openIds.has(entry?.id) || (entry.status !== 'covered' && entry.status !== 'partial')) return;
+    detected[entry.id] = {
+      status: entry.status,
+      sourceIds: Array.isArray(entry.sourceIds) ? entry.sourceIds.filter((id: unknown) => typeof id === 'string' && lineIds.has(id)) : [],
+    };
+  });
+  return mergeCoverage(coverage, detected, checkedThroughId);
+};
+
+// --- Translation ---
+
+// Translates texts keyed by id; ids the model leaves out or makes up are dropped
+const translateEntries = async (
+  entries: { id: string; text: string }[],
+  to: LanguageCode,
+  redactor: Redactor,
+  from?: LanguageCode
+): Promise<Record<string, string>> => {
+  if (entries.length === 0) return {};
+  const responseText = await getProvider().generateJson({
+    task: 'translate',
+    prompt: `Translate each text below ${from ? `from ${languageName(from)} ` : ''}into ${languageName(to)}.
+    - Translate the meaning faithfully and in plain words. Do not summarise, explain or add anything.
+    - Keep placeholders such as [NAME_1] exactly as they are.
+    - Return a translation for every id.
+
+    Texts (id in brackets):
+${entries.map(e => `- (${e.id}) ${redactor.redact(e.text.replace(/\s+/g, ' '))}`).join('\n')}`,
+    schema: {
+      type: Type.OBJECT,
+      properties: {
+        translations: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: { id: { type: Type.STRING }, text: { type: Type.STRING } },
+            required: ['id', 'text']
+          }
+        }
+      },
+      required: ['translations']
+    }
+  });
+
+  const ids = new Set(entries.map(e => e.id));
+  const translations: Record<string, string> = {};
+  (parseJsonResponse(responseText).translations || []).forEach((t: any) => {
+    if (ids.has(t?.id) && typeof t.text === 'string' && t.text.trim()) translations[t.id] = redactor.rehydrate(t.text.trim());
+  });
+  return translations;
+};
+
+// Translations of transcript lines into the session's output language, keyed by line id
+export const translateTranscriptLines = async (
+  lines: TranscriptItem[],
+  language: SessionLanguage,
+  transcript: TranscriptItem[] = [],
+  participants: Participant[] = []
+): Promise<Record<string, string>> =>
+  translateEntries(
+    lines.map(item => ({ id: item.id, text: item.text })),
+    language.output,
+    createRedactor(participants, transcript),
+    language.interview
+  );
+
+// Translates free texts, e.g. a map's items for a bilingual export. Texts that could not be
+// translated come back empty.
+export const translateTexts = async (texts: string[], to: LanguageCode, from?: LanguageCode): Promise<string[]> => {
+  const redactor = createRedactor();
+  const entries = texts.map((text, i) => ({ id: `T${i + 1}`, text })).filter(e => e.text.trim());
+  const translations: Record<string, string> = {};
+  for (let start = 0; start < entries.length; start += MAX_TRANSLATION_LINES) {
+    Object.assign(translations, await translateEntries(entries.slice(start, start + MAX_TRANSLATION_LINES), to, redactor, from));
+  }
+  return texts.map((_, i) => translations[`T${i + 1}`] || '');
+};
+
+export interface RefinementResult {
+  explanation: string;
+  operations: MapOperation[];
+}
+
+// How many earlier thread messages are sent so follow-up requests ("now do the same for...") make sense
+const REFINEMENT_CONTEXT_MESSAGES = 10;
+
+export const refineMapWithChat = async (
+  currentMap: JourneyMapData,
+  userPrompt: string,
+  thread: RefinementMessage[] = [],
+  transcript: TranscriptItem[] = [],
+  participants: Participant[] = []
+): Promise<RefinementResult> => {
+  const laneKeys = itemLaneKeys(currentMap);
   const schema = {
     type: Type.OBJECT,
     properties: {
-      title: { type: Type.STRING },
-      stages: {
+      explanation: { type: Type.STRING, description: "One or two sentences explaining the changes to the user" },
+      operations: {
         type: Type.ARRAY,
         items: {
           type: Type.OBJECT,
           properties: {
-            name: { type: Type.STRING },
-            userActions: { type: Type.ARRAY, items: { type: Type.STRING } },
-            touchpoints: { type: Type.ARRAY, items: { type: Type.STRING } },
-            emotions: { type: Type.STRING },
-            painPoints: { type: Type.ARRAY, items: { type: Type.STRING } },
-            opportunities: { type: Type.ARRAY, items: { type: Type.STRING } },
+            op: { type: Type.STRING, enum: ['addItem', 'removeItem', 'updateItem', 'moveItem', 'renameStage', 'addStage', 'removeStage', 'setEmotion', 'setTitle'] },
+            stage: { type: Type.STRING, description: "Exact name of an existing stage" },
+            lane: { type: Type.STRING, enum: laneKeys },
+            text: { type: Type.STRING, description: "For addItem the new text; otherwise the exact text of an existing item" },
+            newText: { type: Type.STRING },
+            toStage: { type: Type.STRING },
+            toLane: { type: Type.STRING, enum: laneKeys },
+            newName: { type: Type.STRING },
+            position: { type: Type.INTEGER },
+            emotion: { type: Type.STRING },
+            newTitle: { type: Type.STRING },
           },
-          // Relaxed schema here as well
+          required: ["op"]
         }
       }
     },
-    required: ["title", "stages"]
+    required: ["explanation", "operations"]
   };
 
-  const response = await ai.models.generateContent({
-    model: 'gemini-2.5-flash',
-    contents: `Current Journey Map JSON: ${JSON.stringify(currentMap)}
-    
-    User Request: ${userPrompt}
-    
-    Update the Journey Map JSON based on the user's request. Maintain the structure.`,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: schema
-    }
+  // The model only needs names and texts to address items, not their provenance.
+  // Item texts come back as placeholders, so operations are rehydrated before they are matched.
+  const redactor = createRedactor(participants, transcript);
+  const compactMap = redactor.redactDeep({
+    title: currentMap.title,
+    stages: currentMap.stages.map(stage => compactStage(currentMap, stage)),
+  });
+
+  const conversation = thread.slice(-REFINEMENT_CONTEXT_MESSAGES).map(m =>
+    redactor.redact(m.role === 'user' ? `PM: ${m.text}` : `Assistant: ${m.text}${m.status === 'discarded' ? ' (the PM rejected these changes)' : ''}`)
+  ).join('\n');
+
+  const responseText = await getProvider().generateJson({
+    task: 'refine',
+    prompt: `You help a social service product manager refine a Customer Journey Map.
+
+    Current Journey Map: ${JSON.stringify(compactMap)}
+    ${conversation ? `\n    Conversation so far:\n${conversation}\n` : ''}
+    User Request: ${redactor.redact(userPrompt)}
+
+    Respond with the MINIMAL list of operations that fulfils the request. Do not touch anything the user did not ask about.
+    - "stage" and "toStage" must be exact names of existing stages (or of a stage added earlier in the same list).
+    - For removeItem, updateItem and moveItem, "text" must be the exact text of an existing item.
+    - Lanes are: ${mapLanes(currentMap).filter(l => l.kind !== 'emotion').map(l => `${l.key} (${l.label})`).join(', ')}.
+    - If the request is a question or needs no change, return an empty operations list and answer in "explanation".${currentMap.language && currentMap.language !== 'en' ? `
+    - The map is written in ${languageName(currentMap.language)}. Write new item texts, stage names and titles in ${languageName(currentMap.language)} too.` : ''}`,
+    schema
   });
 
-  const rawData = JSON.parse(response.text);
-  return sanitizeJourneyMap(rawData);
+  const rawData = redactor.rehydrateDeep(parseJsonResponse(responseText));
+  return {
+    explanation: typeof rawData.explanation === 'string' ? rawData.explanation : '',
+    operations: sanitizeOperations(rawData.operations),
+  };
+}
+
+export interface SynthesisInput {
+  participant: string; // Label used to attribute items, e.g. the interview title
+  map?: JourneyMapData | null;
+  transcript?: TranscriptItem[];
+  speakers?: Participant[]; // Speaker roles of the interview's transcript
+  template?: JourneyTemplate; // The project's template, used for interviews that have no map yet
+  language?: SessionLanguage; // English throughout when absent
 }
 
+// Merges several interviews into one consolidated map where each item records who mentioned it
+export const synthesizeJourneyMaps = async (inputs: SynthesisInput[]): Promise<JourneyMapData> => {
+  if (inputs.length < 2) {
+    throw new Error("Select at least two interviews to synthesize.");
+  }
+
+  // Interviews without a map yet are analyzed first so everything is merged at the same level
+  const labelledMaps: { participant: string; map: JourneyMapData }[] = [];
+  for (const input of inputs) {
+    const map = input.map || (input.transcript && input.transcript.length > 0
+      ? await analyzeTranscriptForMap(input.transcript, input.template, input.speakers, { language: input.language })
+      : null);
+    if (map) labelledMaps.push({ participant: input.participant, map });
+  }
+  if (labelledMaps.length < 2) {
+    throw new Error("At least two of the selected interviews need a transcript or a journey map.");
+  }
+
+  const participants = labelledMaps.map(m => m.participant);
+  // The consolidated map uses the project's template, or the lanes of the first interview without one
+  const template = inputs.find(input => input.template)?.template;
+  const lanes = template ? template.lanes : mapLanes(labelledMaps[0].map);
+  const output = inputs.find(input => input.language)?.language?.output || 'en';
+  const languageInstruction = output === 'en' ? '' : `
+    - Write the title and every item in ${languageName(output)}, whatever language each participant's map is in.`;
+  // Maps are redacted too; interview titles often carry the client's name
+  const redactor = createRedactor(inputs.flatMap(input => input.speakers || []));
+  const formattedMaps = labelledMaps.map(({ participant, map }) =>
+    `### Participant: ${redactor.redact(participant)}\n${JSON.stringify(redactor.redactDeep({
+      stages: map.stages.map(stage => compactStage(map, stage))
+    }))}`
+  ).join('\n\n');
+
+  const schema = {
+    type: Type.OBJECT,
+    properties: {
+      title: { type: Type.STRING },
+      stages: {
+        type: Type.ARRAY,
+        items: buildStageSchema(lanes, "A single emoji representing the overall mood across participants")
+      }
+    },
+    required: ["title", "stages"]
+  };
+
+  const responseText = await getProvider().generateJson({
+    task: 'synthesis',
+    prompt: `You are consolidating ${labelledMaps.length} customer journey maps from separate interviews with clients of a social service agency into ONE aggregated journey map for the client segment.
+
+    - Align the stages across participants and produce one consolidated stage list in journey order.
+    - Merge items that describe the same thing in different words into a single, clearly worded item.
+    - For EVERY item, set "participants" to the exact labels of all participants who mentioned it. Use only these labels: ${participants.map(p => `"${redactor.redact(p)}"`).join(', ')}.
+    - Do not invent items that no participant mentioned.${languageInstruction}
+
+    ${formattedMaps}`,
+    schema
+  });
+
+  const parsed = redactor.rehydrateDeep(sanitizeJourneyMap(parseJsonResponse(responseText), lanes));
+
+  // Keep attributions honest: drop labels the model made up and rank items by how many mentioned them
+  const known = new Set(participants);
+  const attributed = mapAllItems(parsed, item => ({ ...item, participants: (item.participants || []).filter(p => known.has(p)) }));
+  const synthesized: JourneyMapData = {
+    ...attributed,
+    stages: attributed.stages.map(stage =>
+      itemLaneKeys(attributed).reduce(
+        (next, lane) => setLaneItems(next, lane, [...getLaneItems(stage, lane)].sort((a, b) => mentionCount(b) - mentionCount(a))),
+        stage
+      )
+    ),
+    participants,
+  };
+  const templateId = template?.id || labelledMaps[0].map.templateId;
+  if (templateId) synthesized.templateId = templateId;
+  if (output !== 'en') synthesized.language = output;
+  return synthesized;
+};
+
 export const generateTouchpointImage = async (prompt: string): Promise<string | null> => {
   try {
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image',
-        contents: {
-            parts: [{ text: `Simple, flat vector illustration, social service context: ${prompt}` }]
-        },
-        config: {
-            imageConfig: {
-                aspectRatio: "1:1",
-            }
-        }
-    });
-
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-        if (part.inlineData) {
-            return `data:image/png;base64,${part.inlineData.data}`;
-        }
-    }
-    return null;
+    return await getProvider().generateImage(`Simple, flat vector illustration, social service context: ${createRedactor().redact(prompt)}`);
   } catch (e) {
     console.error("Image gen failed", e);
     return null;
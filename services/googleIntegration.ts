@@ -0,0 +1,344 @@
+import { JourneyItem, JourneyMapData, Participant, TranscriptItem } from "../types";
+import { formatSentiment, getLaneItems, mapLanes, stageSentimentScore } from "./journeyMap";
+import { languageLabel } from "./languages";
+import { speakerLabel } from "./transcript";
+
+// --- Google Workspace Export ---
+// Maps go to Google Sheets and Slides, transcripts to Google Docs, all in one Drive folder per project.
+// Every call goes through a GoogleRestClient, so the exporters also run against a local fake
+// (VITE_GOOGLE_API_BASE_URL) or a stub client instead of Google.
+
+const CLIENT_ID = import.meta.env.VITE_GOOGLE_CLIENT_ID || '';
+const API_BASE_URL = (import.meta.env.VITE_GOOGLE_API_BASE_URL || '').replace(/\/$/, '');
+
+// drive.file only reaches files this app created, never the rest of the user's Drive
+export const GOOGLE_SCOPES = ['https://www.googleapis.com/auth/drive.file'];
+
+// A local fake needs no sign-in, so setting only the base URL is enough
+export const isGoogleConfigured = (): boolean => !!CLIENT_ID || !!API_BASE_URL;
+
+// --- REST Client ---
+
+export type GoogleApi = 'drive' | 'sheets' | 'slides' | 'docs';
+
+// Paths never overlap between the APIs, so a fake can serve all of them from one origin
+const GOOGLE_API_HOSTS: Record<GoogleApi, string> = {
+  drive: 'https://www.googleapis.com',
+  sheets: 'https://sheets.googleapis.com',
+  slides: 'https://slides.googleapis.com',
+  docs: 'https://docs.googleapis.com',
+};
+
+export interface GoogleRestClient {
+  request<T = any>(api: GoogleApi, method: 'GET' | 'POST' | 'PUT' | 'PATCH', path: string, body?: object): Promise<T>;
+}
+
+export class GoogleApiError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+// forceRefresh asks for a new token after Google rejected the current one
+export type AccessTokenProvider = (forceRefresh?: boolean) => Promise<string>;
+
+export class FetchGoogleClient implements GoogleRestClient {
+  constructor(private getAccessToken: AccessTokenProvider, private baseUrl = API_BASE_URL) {}
+
+  private async send(api: GoogleApi, method: string, path: string, body: object | undefined, forceRefresh: boolean): Promise<Response> {
+    const token = await this.getAccessToken(forceRefresh);
+    try {
+      return await fetch(`${this.baseUrl || GOOGLE_API_HOSTS[api]}${path}`, {
+        method,
+        headers: {
+          ...(body ? { 'Content-Type': 'application/json' } : {}),
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+    } catch {
+      throw new Error("Cannot reach Google. Check your connection.");
+    }
+  }
+
+  async request<T = any>(api: GoogleApi, method: 'GET' | 'POST' | 'PUT' | 'PATCH', path: string, body?: object): Promise<T> {
+    let response = await this.send(api, method, path, body, false);
+    // The token was revoked or expired early; ask once for a new one
+    if (response.status === 401) response = await this.send(api, method, path, body, true);
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new GoogleApiError(response.status, data.error?.message || `Google returned ${response.status}`);
+    }
+    return data as T;
+  }
+}
+
+// --- Sign-in ---
+// Uses the Google Identity Services token model. Tokens stay in memory only and last about an hour;
+// Google shows its consent popup the first time and renews silently while the user is signed in.
+
+const GIS_SCRIPT_URL = 'https://accounts.google.com/gsi/client';
+
+// Renew a minute early so a token does not expire halfway through an export
+const TOKEN_MARGIN_MS = 60_000;
+
+interface TokenResponse {
+  access_token?: string;
+  expires_in?: number;
+  error?: string;
+  error_description?: string;
+}
+
+let identityServices: Promise<any> | null = null;
+let cachedToken: { value: string; expiresAt: number } | null = null;
+
+// Loading ahead of the click keeps the sign-in popup inside the user's gesture, so it is not blocked
+export const prepareGoogleSignIn = (): Promise<any> => {
+  const loaded = (window as any).google?.accounts?.oauth2;
+  if (loaded) return Promise.resolve(loaded);
+  if (!identityServices) {
+    identityServices = new Promise((resolve, reject) => {
+      const script = document.createElement('script');
+      script.src = GIS_SCRIPT_URL;
+      script.async = true;
+      script.onload = () => resolve((window as any).google.accounts.oauth2);
+      script.onerror = () => {
+        identityServices = null;
+        reject(new Error("Could not load Google sign-in. Check your connection."));
+      };
+      document.head.appendChild(script);
+    });
+  }
+  return identityServices;
+};
+
+const requestAccessToken = async (): Promise<string> => {
+  const oauth2 = await prepareGoogleSignIn();
+  return new Promise((resolve, reject) => {
+    const tokenClient = oauth2.initTokenClient({
+      client_id: CLIENT_ID,
+      scope: GOOGLE_SCOPES.join(' '),
+      callback: (response: TokenResponse) => {
+        if (response.error || !response.access_token) {
+          reject(new Error(response.error_description || response.error || "Google sign-in failed."));
+          return;
+        }
+        cachedToken = { value: response.access_token, expiresAt: Date.now() + (response.expires_in || 3600) * 1000 };
+        resolve(response.access_token);
+      },
+      error_callback: (error: { type?: string }) =>
+        reject(new Error(error.type === 'popup_closed' ? "Google sign-in was cancelled." : "Google sign-in failed.")),
+    });
+    tokenClient.requestAccessToken({ prompt: '' });
+  });
+};
+
+export const getGoogleAccessToken: AccessTokenProvider = async (forceRefresh = false) => {
+  if (!CLIENT_ID) return ''; // Local fake
+  if (!forceRefresh && cachedToken && cachedToken.expiresAt - TOKEN_MARGIN_MS > Date.now()) return cachedToken.value;
+  cachedToken = null;
+  return requestAccessToken();
+};
+
+export const isGoogleSignedIn = (): boolean => !!cachedToken && cachedToken.expiresAt > Date.now();
+
+export const signOutGoogle = () => {
+  const token = cachedToken?.value;
+  cachedToken = null;
+  if (token) (window as any).google?.accounts?.oauth2?.revoke(token, () => {});
+};
+
+let defaultClient: GoogleRestClient | null = null;
+
+export const getGoogleClient = (): GoogleRestClient => {
+  if (!defaultClient) defaultClient = new FetchGoogleClient(getGoogleAccessToken);
+  return defaultClient;
+};
+
+// --- Drive ---
+
+export interface GoogleFile {
+  id: string;
+  name: string;
+  url: string;
+}
+
+const MIME_TYPES = {
+  folder: 'application/vnd.google-apps.folder',
+  sheet: 'application/vnd.google-apps.spreadsheet',
+  slides: 'application/vnd.google-apps.presentation',
+  doc: 'application/vnd.google-apps.document',
+};
+
+// Creating the file through Drive puts it straight into the folder; the other APIs then fill it in
+const createDriveFile = async (client: GoogleRestClient, name: string, mimeType: string, folderId?: string): Promise<GoogleFile> => {
+  const file = await client.request<{ id: string; name?: string; webViewLink?: string }>('drive', 'POST', '/drive/v3/files?fields=id,name,webViewLink', {
+    name,
+    mimeType,
+    ...(folderId ? { parents: [folderId] } : {}),
+  });
+  return { id: file.id, name: file.name || name, url: file.webViewLink || `https://drive.google.com/open?id=${file.id}` };
+};
+
+// Reuses the project's folder unless it was deleted or trashed since the last export
+export const ensureDriveFolder = async (name: string, folderId?: string, client = getGoogleClient()): Promise<string> => {
+  if (folderId) {
+    try {
+      const folder = await client.request<{ trashed?: boolean }>('drive', 'GET', `/drive/v3/files/${encodeURIComponent(folderId)}?fields=id,trashed`);
+      if (!folder.trashed) return folderId;
+    } catch (e) {
+      if (!(e instanceof GoogleApiError && e.status === 404)) throw e;
+    }
+  }
+  return (await createDriveFile(client, name, MIME_TYPES.folder)).id;
+};
+
+// --- Sheets ---
+
+const SHEET_TITLE = 'Journey Map';
+
+const SHEET_HEADER = ['Stage', 'Lane', 'Item', 'Evidence', 'Quote', 'Mentioned in'];
+
+// One row per item in every stage and lane; the emotion lane gets one row per stage
+export const mapSheetRows = (map: JourneyMapData): string[][] => {
+  const itemRow = (stage: string, lane: string, item: JourneyItem) =>
+    [stage, lane, item.text, item.basis || '', item.quote || '', (item.participants || []).join(', ')];
+  const rows = map.stages.flatMap(stage => mapLanes(map).flatMap(lane => {
+    if (lane.kind !== 'emotion') return getLaneItems(stage, lane.key).map(item => itemRow(stage.name, lane.label, item));
+    const score = stageSentimentScore(stage);
+    const feeling = [stage.emotions, score === null ? '' : `(${formatSentiment(score)})`, stage.sentiment?.rationale || ''].filter(Boolean).join(' ');
+    return feeling ? [[stage.name, lane.label, feeling, stage.sentiment?.basis || '', stage.sentiment?.quote || '', '']] : [];
+  }));
+  return [SHEET_HEADER, ...rows];
+};
+
+export const exportMapToSheets = async (map: JourneyMapData, folderId?: string, client = getGoogleClient()): Promise<GoogleFile> => {
+  const file = await createDriveFile(client, map.title || 'Journey Map', MIME_TYPES.sheet, folderId);
+  const spreadsheet = await client.request<{ sheets?: { properties: { sheetId: number } }[] }>('sheets', 'GET', `/v4/spreadsheets/${file.id}?fields=sheets.properties.sheetId`);
+  const sheetId = spreadsheet.sheets?.[0]?.properties.sheetId ?? 0;
+  await client.request('sheets', 'POST', `/v4/spreadsheets/${file.id}:batchUpdate`, {
+    requests: [
+      {
+        updateSheetProperties: {
+          properties: { sheetId, title: SHEET_TITLE, gridProperties: { frozenRowCount: 1 } },
+          fields: 'title,gridProperties.frozenRowCount',
+        },
+      },
+      {
+        repeatCell: {
+          range: { sheetId, startRowIndex: 0, endRowIndex: 1 },
+          cell: { userEnteredFormat: { textFormat: { bold: true } } },
+          fields: 'userEnteredFormat.textFormat.bold',
+        },
+      },
+    ],
+  });
+  // RAW keeps items that start with "=" or "+" from being read as formulas
+  const range = encodeURIComponent(`'${SHEET_TITLE}'!A1`);
+  await client.request('sheets', 'PUT', `/v4/spreadsheets/${file.id}/values/${range}?valueInputOption=RAW`, { values: mapSheetRows(map) });
+  return file;
+};
+
+// --- Slides ---
+
+export interface SlideContent {
+  title: string;
+  body: string;
+}
+
+// An overview slide, then one slide per stage with its lanes as short lists
+export const mapSlides = (map: JourneyMapData): SlideContent[] => {
+  const lanes = mapLanes(map);
+  const overview = map.stages.map((stage, i) => {
+    const score = stageSentimentScore(stage);
+    return `${i + 1}. ${stage.name}${stage.emotions ? ` ${stage.emotions}` : ''}${score === null ? '' : ` (${formatSentiment(score)})`}`;
+  });
+  if (map.participants?.length) overview.push('', `Synthesized from ${map.participants.length} interviews`);
+  return [
+    { title: map.title || 'Journey Map', body: overview.join('\n') },
+    ...map.stages.map(stage => ({
+      title: stage.name,
+      body: lanes.flatMap(lane => {
+        if (lane.kind === 'emotion') return stage.sentiment?.rationale ? [`${lane.label}: ${stage.emotions} ${stage.sentiment.rationale}`] : [];
+        const items = getLaneItems(stage, lane.key);
+        return items.length > 0 ? [`${lane.label}`, ...items.map(item => `• ${item.text}`)] : [];
+      }).join('\n'),
+    })),
+  ];
+};
+
+export const exportMapToSlides = async (map: JourneyMapData, folderId?: string, client = getGoogleClient()): Promise<GoogleFile> => {
+  const file = await createDriveFile(client, map.title || 'Journey Map', MIME_TYPES.slides, folderId);
+  // New presentations start with a blank title slide, removed once ours are in
+  const presentation = await client.request<{ slides?: { objectId: string }[] }>('slides', 'GET', `/v1/presentations/${file.id}?fields=slides.objectId`);
+  const requests = mapSlides(map).flatMap((slide, i) => {
+    const objectId = `aims_slide_${i}`;
+    return [
+      {
+        createSlide: {
+          objectId,
+          insertionIndex: i,
+          slideLayoutReference: { predefinedLayout: 'TITLE_AND_BODY' },
+          placeholderIdMappings: [
+            { layoutPlaceholder: { type: 'TITLE', index: 0 }, objectId: `${objectId}_title` },
+            { layoutPlaceholder: { type: 'BODY', index: 0 }, objectId: `${objectId}_body` },
+          ],
+        },
+      },
+      // Slides rejects inserting empty text
+      ...(slide.title ? [{ insertText: { objectId: `${objectId}_title`, text: slide.title } }] : []),
+      ...(slide.body ? [{ insertText: { objectId: `${objectId}_body`, text: slide.body } }] : []),
+    ];
+  });
+  const blankSlides = (presentation.slides || []).map(s => ({ deleteObject: { objectId: s.objectId } }));
+  await client.request('slides', 'POST', `/v1/presentations/${file.id}:batchUpdate`, { requests: [...requests, ...blankSlides] });
+  return file;
+};
+
+// --- Docs ---
+
+export interface TranscriptDocument {
+  title: string;
+  transcript: TranscriptItem[];
+  participants: Participant[];
+  date?: Date;
+}
+
+// Plain text of the document, plus where the heading and each speaker label sit in it
+export const transcriptDocContent = ({ title, transcript, participants, date }: TranscriptDocument) => {
+  const lines: string[] = [title];
+  if (date) lines.push(`Interview on ${new Date(date).toLocaleDateString()}`);
+  const people = participants.filter(p => p.role !== 'copilot');
+  if (people.length > 0) lines.push(`Participants: ${people.map(p => p.name).join(', ')}`);
+  lines.push('');
+
+  // Docs indexes are UTF-16 offsets starting at 1, the same units as string lengths
+  let index = 1 + lines.join('\n').length + 1;
+  const speakerRanges: { startIndex: number; endIndex: number }[] = [];
+  for (const item of transcript) {
+    const speaker = `${speakerLabel(item, participants)}: `;
+    speakerRanges.push({ startIndex: index, endIndex: index + speaker.length });
+    let line = `${speaker}${item.text}`;
+    if (item.translation) line += `\n(${languageLabel(item.translation.language)}) ${item.translation.text}`;
+    lines.push(line);
+    index += line.length + 1;
+  }
+  return {
+    text: `${lines.join('\n')}\n`,
+    headingRange: { startIndex: 1, endIndex: 1 + title.length },
+    speakerRanges,
+  };
+};
+
+export const exportTranscriptToDoc = async (transcriptDoc: TranscriptDocument, folderId?: string, client = getGoogleClient()): Promise<GoogleFile> => {
+  const file = await createDriveFile(client, `${transcriptDoc.title} - Transcript`, MIME_TYPES.doc, folderId);
+  const { text, headingRange, speakerRanges } = transcriptDocContent(transcriptDoc);
+  await client.request('docs', 'POST', `/v1/documents/${file.id}:batchUpdate`, {
+    requests: [
+      { insertText: { location: { index: 1 }, text } },
+      { updateParagraphStyle: { range: headingRange, paragraphStyle: { namedStyleType: 'HEADING_1' }, fields: 'namedStyleType' } },
+      ...speakerRanges.map(range => ({ updateTextStyle: { range, textStyle: { bold: true }, fields: 'bold' } })),
+    ],
+  });
+  return file;
+};
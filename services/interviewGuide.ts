@@ -0,0 +1,90 @@
+import { GuideCoverage, GuideItem, GuideItemCoverage, GuideSection, InterviewGuide, TranscriptItem } from "../types";
+
+// --- Interview Guide ---
+// A project's guide lists the sections, questions and must-cover topics for its interviews.
+// Coverage records which of them each interview has addressed, so suggestions can go after the gaps.
+
+export const EMPTY_GUIDE: InterviewGuide = { sections: [] };
+export const EMPTY_COVERAGE: GuideCoverage = { items: {} };
+
+export const newGuideId = (prefix: 'section' | 'item') => `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// One empty section per journey stage, as a starting point for a new guide
+export const guideFromStages = (stages: string[]): InterviewGuide => ({
+  sections: stages.map(stage => ({ id: newGuideId('section'), title: stage, stage, items: [] })),
+});
+
+export interface GuideEntry {
+  item: GuideItem;
+  section: GuideSection;
+}
+
+export const guideEntries = (guide: InterviewGuide | undefined): GuideEntry[] =>
+  (guide?.sections || []).flatMap(section => section.items.map(item => ({ item, section })));
+
+export const hasGuideItems = (guide: InterviewGuide | undefined) => guideEntries(guide).length > 0;
+
+export const isCovered = (coverage: GuideCoverage, itemId: string) => coverage.items[itemId]?.status === 'covered';
+
+// Not fully covered yet, must-cover topics first, in guide order
+export const uncoveredEntries = (guide: InterviewGuide | undefined, coverage: GuideCoverage): GuideEntry[] => {
+  const open = guideEntries(guide).filter(e => !isCovered(coverage, e.item.id));
+  return [...open.filter(e => e.item.kind === 'topic'), ...open.filter(e => e.item.kind === 'question')];
+};
+
+export interface StageCoverage {
+  stage: string;
+  covered: number;
+  total: number;
+}
+
+// Guide items per journey stage and how many are covered; sections without a stage are left out
+export const stageCoverage = (guide: InterviewGuide | undefined, coverage: GuideCoverage): StageCoverage[] => {
+  const byStage = new Map<string, StageCoverage>();
+  guideEntries(guide).forEach(({ item, section }) => {
+    if (!section.stage) return;
+    const entry = byStage.get(section.stage) || { stage: section.stage, covered: 0, total: 0 };
+    entry.total++;
+    if (isCovered(coverage, item.id)) entry.covered++;
+    byStage.set(section.stage, entry);
+  });
+  return Array.from(byStage.values());
+};
+
+// Transcript lines added since the last coverage check. After edits that removed the
+// checked line, everything is checked again.
+export const uncheckedLines = (transcript: TranscriptItem[], coverage: GuideCoverage): TranscriptItem[] => {
+  if (!coverage.checkedThroughId) return transcript;
+  const index = transcript.findIndex(item => item.id === coverage.checkedThroughId);
+  return index === -1 ? transcript : transcript.slice(index + 1);
+};
+
+// Coverage only goes up: partial can become covered, and the PM's own marks are never overridden
+export const mergeCoverage = (
+  coverage: GuideCoverage,
+  detected: Record<string, GuideItemCoverage>,
+  checkedThroughId?: string
+): GuideCoverage => {
+  const items = { ...coverage.items };
+  Object.entries(detected).forEach(([id, next]) => {
+    const current = items[id];
+    if (current?.manual || current?.status === 'covered') return;
+    items[id] = { status: next.status, sourceIds: Array.from(new Set([...(current?.sourceIds || []), ...(next.sourceIds || [])])) };
+  });
+  return { items, checkedThroughId: checkedThroughId ?? coverage.checkedThroughId };
+};
+
+// The PM ticks an item off (or un-ticks it) by hand
+export const toggleCoverage = (coverage: GuideCoverage, itemId: string): GuideCoverage => {
+  const items = { ...coverage.items };
+  if (isCovered(coverage, itemId)) delete items[itemId];
+  else items[itemId] = { status: 'covered', manual: true };
+  return { ...coverage, items };
+};
+
+// Drops empty sections and items, e.g. before saving the guide
+export const cleanGuide = (guide: InterviewGuide): InterviewGuide => ({
+  sections: guide.sections
+    .map(section => ({ ...section, title: section.title.trim(), items: section.items.map(i => ({ ...i, text: i.text.trim() })).filter(i => i.text) }))
+    .filter(section => section.title || section.items.length > 0),
+});
@@ -0,0 +1,337 @@
+import { BlueprintLane, BlueprintZone, BuiltInItemLane, ItemLaneKey, JourneyItem, JourneyMapData, JourneyStage, LaneDefinition, StageSentiment, TranscriptItem } from "../types";
+import { isLanguageCode } from "./languages";
+
+export type { ItemLaneKey };
+
+// --- Journey Map Model Helpers ---
+
+const BLUEPRINT_LANE_KEYS: BlueprintLane[] = ['frontstage', 'backstage', 'support'];
+
+export const BUILT_IN_ITEM_LANES: BuiltInItemLane[] = ['userActions', 'touchpoints', 'painPoints', 'opportunities', ...BLUEPRINT_LANE_KEYS];
+
+export const EMOTION_LANE_KEY = 'emotions';
+
+// The lanes every map had before templates existed
+export const DEFAULT_LANES: LaneDefinition[] = [
+  { key: 'userActions', label: 'User Actions', kind: 'items', description: "What the client does" },
+  { key: 'touchpoints', label: 'Touchpoints', kind: 'touchpoints', description: "Channels, places, people and systems the client interacts with" },
+  { key: EMOTION_LANE_KEY, label: 'Thinking & Feeling', kind: 'emotion', description: "A single emoji representing the mood" },
+  { key: 'painPoints', label: 'Pain Points', kind: 'items', tone: 'negative', description: "Frustrations, obstacles and unmet needs" },
+  { key: 'opportunities', label: 'Opportunities', kind: 'items', tone: 'positive', description: "Ideas to improve the experience" },
+];
+
+// Staff-side lanes of a service blueprint, top to bottom
+export const BLUEPRINT_LANES: LaneDefinition[] = [
+  { key: 'frontstage', label: 'Frontstage (Staff)', kind: 'items', zone: 'frontstage', description: "What staff say and do in direct contact with the client, in person, by phone or online" },
+  { key: 'backstage', label: 'Backstage', kind: 'items', zone: 'backstage', description: "Staff actions and internal processes the client does not see, e.g. case reviews, approvals, referrals between teams" },
+  { key: 'support', label: 'Support Systems', kind: 'items', zone: 'support', description: "IT systems, databases, policies and partner agencies that make the service possible" },
+];
+
+// The blueprint line drawn where one zone meets the next
+const ZONE_BOUNDARIES: Partial<Record<BlueprintZone, string>> = {
+  frontstage: 'Line of Interaction',
+  backstage: 'Line of Visibility',
+  support: 'Line of Internal Interaction',
+};
+
+// Returns the blueprint line to draw above lanes[index], if the lane starts a new zone
+export const blueprintLineBefore = (lanes: LaneDefinition[], index: number): string | null => {
+  const zone = lanes[index]?.zone;
+  if (!zone) return null;
+  const previous = lanes.slice(0, index).reverse().find(l => l.zone)?.zone;
+  return previous && previous !== zone ? ZONE_BOUNDARIES[zone] || null : null;
+};
+
+export const isBlueprint = (lanes: LaneDefinition[]): boolean => lanes.some(l => l.zone && l.zone !== 'customer');
+
+export const isBuiltInItemLane = (key: string): key is BuiltInItemLane => (BUILT_IN_ITEM_LANES as string[]).includes(key);
+
+export const mapLanes = (map: JourneyMapData): LaneDefinition[] => (map.lanes && map.lanes.length > 0 ? map.lanes : DEFAULT_LANES);
+
+// Keys of every lane that holds items (i.e. everything except the emotion lane), in display order
+export const itemLaneKeys = (map: JourneyMapData): ItemLaneKey[] =>
+  mapLanes(map).filter(l => l.kind !== 'emotion').map(l => l.key);
+
+export const laneLabel = (map: JourneyMapData, key: ItemLaneKey): string =>
+  mapLanes(map).find(l => l.key === key)?.label || DEFAULT_LANES.find(l => l.key === key)?.label || key;
+
+export const getLaneItems = (stage: JourneyStage, key: ItemLaneKey): JourneyItem[] =>
+  isBuiltInItemLane(key) ? stage[key] || [] : stage.customLanes?.[key] || [];
+
+export const setLaneItems = (stage: JourneyStage, key: ItemLaneKey, items: JourneyItem[]): JourneyStage =>
+  isBuiltInItemLane(key)
+    ? { ...stage, [key]: items }
+    : { ...stage, customLanes: { ...stage.customLanes, [key]: items } };
+
+// Turns a free-text lane label into a key that is safe to use in a JSON schema
+export const laneKeyFromLabel = (label: string): string =>
+  'custom_' + (label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '') || Date.now().toString(36));
+
+const toStringList = (value: any): string[] =>
+  Array.isArray(value) ? Array.from(new Set(value.filter((v: any) => typeof v === 'string' && v.trim()).map((v: string) => v.trim()))) : [];
+
+// Accepts both the legacy plain-string items and structured items
+export const sanitizeJourneyItem = (raw: any): JourneyItem | null => {
+  if (typeof raw === 'string') {
+    return raw.trim() ? { text: raw.trim() } : null;
+  }
+  if (!raw || typeof raw !== 'object' || typeof raw.text !== 'string' || !raw.text.trim()) {
+    return null;
+  }
+  const item: JourneyItem = { text: raw.text.trim() };
+  const participants = toStringList(raw.participants);
+  if (participants.length > 0) item.participants = participants;
+  const sourceIds = toStringList(raw.sourceIds);
+  if (sourceIds.length > 0) item.sourceIds = sourceIds;
+  if (typeof raw.quote === 'string' && raw.quote.trim()) item.quote = raw.quote.trim();
+  if (raw.basis === 'evidenced' || raw.basis === 'inferred') item.basis = raw.basis;
+  return item;
+};
+
+const sanitizeItems = (raw: any): JourneyItem[] =>
+  (Array.isArray(raw) ? raw : []).map(sanitizeJourneyItem).filter((i): i is JourneyItem => i !== null);
+
+// --- Sentiment ---
+
+export const SENTIMENT_MIN = -5;
+export const SENTIMENT_MAX = 5;
+
+// Rough scores for the emoji picker, used for maps generated before sentiment was scored
+const EMOJI_SENTIMENT: Record<string, number> = {
+  '😀': 4, '🙂': 2, '😌': 2, '😐': 0, '🤔': 0, '😕': -1, '😟': -2, '😢': -3, '😰': -3, '😠': -4,
+};
+
+export const clampSentiment = (score: number): number =>
+  Math.max(SENTIMENT_MIN, Math.min(SENTIMENT_MAX, Math.round(score)));
+
+export const sanitizeSentiment = (raw: any): StageSentiment | undefined => {
+  if (!raw || typeof raw !== 'object' || typeof raw.score !== 'number' || !Number.isFinite(raw.score)) return undefined;
+  const sentiment: StageSentiment = { score: clampSentiment(raw.score) };
+  if (typeof raw.rationale === 'string' && raw.rationale.trim()) sentiment.rationale = raw.rationale.trim();
+  const sourceIds = toStringList(raw.sourceIds);
+  if (sourceIds.length > 0) sentiment.sourceIds = sourceIds;
+  if (typeof raw.quote === 'string' && raw.quote.trim()) sentiment.quote = raw.quote.trim();
+  if (raw.basis === 'evidenced' || raw.basis === 'inferred') sentiment.basis = raw.basis;
+  return sentiment;
+};
+
+// The stage's score, falling back to an estimate from its emoji; null when neither is known
+export const stageSentimentScore = (stage: JourneyStage): number | null =>
+  stage.sentiment ? stage.sentiment.score : EMOJI_SENTIMENT[stage.emotions] ?? null;
+
+export const formatSentiment = (score: number | null): string =>
+  score === null ? 'none' : score > 0 ? `+${score}` : `${score}`;
+
+// Index of the stage with the lowest score, i.e. the dip to point at in presentations
+export const lowestStageIndex = (map: JourneyMapData): number => {
+  let lowest = -1;
+  map.stages.forEach((stage, i) => {
+    const score = stageSentimentScore(stage);
+    if (score === null) return;
+    const current = lowest >= 0 ? stageSentimentScore(map.stages[lowest]) : null;
+    if (current === null || score < current) lowest = i;
+  });
+  return lowest;
+};
+
+const LANE_KINDS = ['items', 'touchpoints', 'emotion'];
+const LANE_TONES = ['neutral', 'negative', 'positive'];
+const LANE_ZONES = ['customer', 'frontstage', 'backstage', 'support'];
+
+export const sanitizeLanes = (raw: any): LaneDefinition[] => {
+  if (!Array.isArray(raw)) return [];
+  const seen = new Set<string>();
+  return raw.flatMap((l: any): LaneDefinition[] => {
+    if (!l || typeof l.key !== 'string' || !l.key.trim() || seen.has(l.key)) return [];
+    seen.add(l.key);
+    const lane: LaneDefinition = {
+      key: l.key,
+      label: typeof l.label === 'string' && l.label.trim() ? l.label.trim() : l.key,
+      kind: LANE_KINDS.includes(l.kind) ? l.kind : 'items',
+    };
+    if (LANE_TONES.includes(l.tone)) lane.tone = l.tone;
+    if (LANE_ZONES.includes(l.zone)) lane.zone = l.zone;
+    if (typeof l.description === 'string' && l.description.trim()) lane.description = l.description.trim();
+    return [lane];
+  });
+};
+
+// Helper to ensure the model's JSON response (or a stored map) has all required arrays.
+// Custom lane items may arrive either nested under customLanes or as top-level stage fields
+// (the shape the generation schema asks for); both are collected into customLanes.
+export const sanitizeJourneyMap = (data: any, lanes?: LaneDefinition[]): JourneyMapData => {
+  if (!data || typeof data !== 'object') {
+    throw new Error("Invalid data format received from AI");
+  }
+  const mapLaneDefs = lanes && lanes.length > 0 ? lanes : sanitizeLanes(data.lanes);
+  const laneKeys = new Set(mapLaneDefs.map(l => l.key));
+  const customKeys = mapLaneDefs.filter(l => l.kind !== 'emotion' && !isBuiltInItemLane(l.key)).map(l => l.key);
+
+  const map: JourneyMapData = {
+    title: data.title || "Untitled Journey",
+    stages: (Array.isArray(data.stages) ? data.stages : []).map((stage: any): JourneyStage => {
+      const sanitized: JourneyStage = {
+        name: stage.name || "Unknown Stage",
+        userActions: sanitizeItems(stage.userActions),
+        touchpoints: sanitizeItems(stage.touchpoints),
+        emotions: stage.emotions || "😐",
+        painPoints: sanitizeItems(stage.painPoints),
+        opportunities: sanitizeItems(stage.opportunities),
+      };
+      const sentiment = sanitizeSentiment(stage.sentiment);
+      if (sentiment) sanitized.sentiment = sentiment;
+      // Blueprint lanes are only kept on maps that use them
+      BLUEPRINT_LANE_KEYS.forEach(key => {
+        if (laneKeys.has(key) || Array.isArray(stage[key])) sanitized[key] = sanitizeItems(stage[key]);
+      });
+      const storedCustom = stage.customLanes && typeof stage.customLanes === 'object' ? stage.customLanes : {};
+      const keys = new Set([...customKeys, ...Object.keys(storedCustom)]);
+      if (keys.size > 0) {
+        sanitized.customLanes = Object.fromEntries(
+          Array.from(keys).map(key => [key, sanitizeItems(storedCustom[key] ?? stage[key])])
+        );
+      }
+      return sanitized;
+    })
+  };
+  const participants = toStringList(data.participants);
+  if (participants.length > 0) map.participants = participants;
+  if (mapLaneDefs.length > 0) map.lanes = mapLaneDefs;
+  if (typeof data.templateId === 'string') map.templateId = data.templateId;
+  if (isLanguageCode(data.language)) map.language = data.language;
+  return map;
+};
+
+// Applies a function to the items of every item lane of every stage
+export const mapAllItems = (map: JourneyMapData, fn: (item: JourneyItem, lane: ItemLaneKey) => JourneyItem): JourneyMapData => {
+  const keys = itemLaneKeys(map);
+  return {
+    ...map,
+    stages: map.stages.map(stage =>
+      keys.reduce((next, lane) => setLaneItems(next, lane, getLaneItems(stage, lane).map(item => fn(item, lane))), stage)
+    ),
+  };
+};
+
+export const itemTexts = (items: JourneyItem[] | undefined): string[] => (items || []).map(i => i.text);
+
+export const mentionCount = (item: JourneyItem): number => item.participants?.length || 0;
+
+const normalizeForMatch = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+// Checks the model's citations against the actual transcript. Unknown ids are dropped, the
+// quote is re-located if it was attributed to the wrong line, and anything that cannot be
+// matched verbatim is downgraded to 'inferred' so the map never overstates its evidence.
+export const verifyItemEvidence = (item: JourneyItem, transcript: TranscriptItem[]): JourneyItem => {
+  const { basis, sourceIds, quote, ...rest } = item;
+  const needle = quote ? normalizeForMatch(quote) : '';
+  if (!needle) {
+    return { ...rest, basis: 'inferred' };
+  }
+
+  const byId = new Map(transcript.map(t => [t.id, t]));
+  const cited = (sourceIds || []).map(id => byId.get(id)).filter((t): t is TranscriptItem => !!t);
+  let matches = cited.filter(t => normalizeForMatch(t.text).includes(needle));
+  if (matches.length === 0) {
+    matches = transcript.filter(t => normalizeForMatch(t.text).includes(needle));
+  }
+
+  if (matches.length === 0) {
+    return { ...rest, basis: 'inferred' };
+  }
+  return { ...rest, basis: 'evidenced', sourceIds: matches.map(t => t.id), quote };
+};
+
+// Sentiment quotes are checked the same way as item quotes
+const verifySentimentEvidence = (sentiment: StageSentiment, transcript: TranscriptItem[]): StageSentiment => {
+  const { text, ...verified } = verifyItemEvidence({ text: sentiment.rationale || '', quote: sentiment.quote, sourceIds: sentiment.sourceIds }, transcript);
+  return { ...sentiment, ...verified, ...(verified.basis === 'inferred' ? { quote: undefined, sourceIds: undefined } : {}) };
+};
+
+export const verifyMapEvidence = (map: JourneyMapData, transcript: TranscriptItem[]): JourneyMapData => {
+  const verified = mapAllItems(map, item => verifyItemEvidence(item, transcript));
+  return {
+    ...verified,
+    stages: verified.stages.map(stage =>
+      stage.sentiment ? { ...stage, sentiment: verifySentimentEvidence(stage.sentiment, transcript) } : stage
+    ),
+  };
+};
+
+// --- Editing Helpers ---
+// All helpers are immutable so they can be used directly with React state setters.
+
+export const EMOTION_OPTIONS = ['😀', '🙂', '😐', '😕', '😟', '😢', '😠', '😰', '😌', '🤔'];
+
+const updateStage = (map: JourneyMapData, stageIndex: number, update: (stage: JourneyStage) => JourneyStage): JourneyMapData => ({
+  ...map,
+  stages: map.stages.map((stage, i) => (i === stageIndex ? update(stage) : stage)),
+});
+
+export const createEmptyStage = (name: string): JourneyStage => ({
+  name,
+  userActions: [],
+  touchpoints: [],
+  emotions: '😐',
+  painPoints: [],
+  opportunities: [],
+});
+
+export const countStageItems = (map: JourneyMapData, stage: JourneyStage): number =>
+  itemLaneKeys(map).reduce((sum, lane) => sum + getLaneItems(stage, lane).length, 0);
+
+export const setMapTitle = (map: JourneyMapData, title: string): JourneyMapData => ({ ...map, title });
+
+export const addItem = (map: JourneyMapData, stageIndex: number, lane: ItemLaneKey, text: string): JourneyMapData =>
+  updateStage(map, stageIndex, stage => setLaneItems(stage, lane, [...getLaneItems(stage, lane), { text }]));
+
+export const updateItemText = (map: JourneyMapData, stageIndex: number, lane: ItemLaneKey, itemIndex: number, text: string): JourneyMapData =>
+  updateStage(map, stageIndex, stage =>
+    setLaneItems(stage, lane, getLaneItems(stage, lane).map((item, i) => (i === itemIndex ? { ...item, text } : item)))
+  );
+
+export const removeItem = (map: JourneyMapData, stageIndex: number, lane: ItemLaneKey, itemIndex: number): JourneyMapData =>
+  updateStage(map, stageIndex, stage => setLaneItems(stage, lane, getLaneItems(stage, lane).filter((_, i) => i !== itemIndex)));
+
+// Moves an item to another stage (and optionally lane), appending it to the target list
+export const moveItem = (
+  map: JourneyMapData,
+  from: { stageIndex: number; lane: ItemLaneKey; itemIndex: number },
+  to: { stageIndex: number; lane: ItemLaneKey }
+): JourneyMapData => {
+  const fromStage = map.stages[from.stageIndex];
+  const item = fromStage ? getLaneItems(fromStage, from.lane)[from.itemIndex] : undefined;
+  if (!item || !map.stages[to.stageIndex]) return map;
+  if (from.stageIndex === to.stageIndex && from.lane === to.lane) return map;
+  const removed = removeItem(map, from.stageIndex, from.lane, from.itemIndex);
+  return updateStage(removed, to.stageIndex, stage => setLaneItems(stage, to.lane, [...getLaneItems(stage, to.lane), item]));
+};
+
+export const renameStage = (map: JourneyMapData, stageIndex: number, name: string): JourneyMapData =>
+  updateStage(map, stageIndex, stage => ({ ...stage, name }));
+
+export const setStageEmotion = (map: JourneyMapData, stageIndex: number, emotions: string): JourneyMapData =>
+  updateStage(map, stageIndex, stage => ({ ...stage, emotions }));
+
+// A manually set score replaces the model's rationale, which no longer describes it
+export const setStageSentimentScore = (map: JourneyMapData, stageIndex: number, score: number): JourneyMapData =>
+  updateStage(map, stageIndex, stage => ({ ...stage, sentiment: { score: clampSentiment(score) } }));
+
+export const addStage = (map: JourneyMapData, name: string, atIndex = map.stages.length): JourneyMapData => {
+  const stages = [...map.stages];
+  stages.splice(Math.max(0, Math.min(atIndex, stages.length)), 0, createEmptyStage(name));
+  return { ...map, stages };
+};
+
+export const removeStage = (map: JourneyMapData, stageIndex: number): JourneyMapData => ({
+  ...map,
+  stages: map.stages.filter((_, i) => i !== stageIndex),
+});
+
+export const moveStage = (map: JourneyMapData, fromIndex: number, toIndex: number): JourneyMapData => {
+  if (toIndex < 0 || toIndex >= map.stages.length || fromIndex === toIndex) return map;
+  const stages = [...map.stages];
+  const [stage] = stages.splice(fromIndex, 1);
+  stages.splice(toIndex, 0, stage);
+  return { ...map, stages };
+};
@@ -0,0 +1,125 @@
+import { JourneyTemplate, LaneDefinition } from "../types";
+import { BLUEPRINT_LANES, DEFAULT_LANES, sanitizeLanes } from "./journeyMap";
+
+// --- Journey Templates ---
+// Templates decide which stages the AI looks for and which lanes a map has, in order.
+// Built-in templates are read-only; teams copy one to define their own.
+
+export const DEFAULT_TEMPLATE_ID = 'builtin-social-service';
+
+const lane = (key: string, label: string, description: string, tone?: LaneDefinition['tone']): LaneDefinition =>
+  ({ key, label, kind: 'items', description, ...(tone ? { tone } : {}) });
+
+const [USER_ACTIONS, TOUCHPOINTS, EMOTIONS, PAIN_POINTS, OPPORTUNITIES] = DEFAULT_LANES;
+
+export const BUILT_IN_TEMPLATES: JourneyTemplate[] = [
+  {
+    id: DEFAULT_TEMPLATE_ID,
+    name: 'Social Service (Default)',
+    description: 'General client journey through a social service agency.',
+    stages: ['Awareness', 'Consideration', 'Decision', 'Service Delivery', 'Retention/Exit'],
+    lanes: DEFAULT_LANES,
+    builtIn: true,
+  },
+  {
+    id: 'builtin-eldercare',
+    name: 'Eldercare',
+    description: 'Seniors and their caregivers moving through care services.',
+    stages: ['Recognising Needs', 'Seeking Information', 'Assessment', 'Care Arrangement', 'Ongoing Care', 'Transition'],
+    lanes: [
+      USER_ACTIONS,
+      lane('custom_caregiver', 'Caregiver Involvement', "What family members or caregivers do or decide at this stage"),
+      TOUCHPOINTS,
+      lane('custom_thoughts', 'Thoughts', "What the client is thinking or worrying about, in their own words"),
+      EMOTIONS,
+      PAIN_POINTS,
+      OPPORTUNITIES,
+    ],
+    builtIn: true,
+  },
+  {
+    id: 'builtin-disability',
+    name: 'Disability Services',
+    description: 'Persons with disabilities accessing support, schemes and employment.',
+    stages: ['Diagnosis & Early Support', 'Finding Services', 'Eligibility & Application', 'Receiving Support', 'Independence & Inclusion'],
+    lanes: [
+      USER_ACTIONS,
+      TOUCHPOINTS,
+      lane('custom_accessibility', 'Accessibility Barriers', "Physical, digital or communication barriers encountered", 'negative'),
+      EMOTIONS,
+      PAIN_POINTS,
+      OPPORTUNITIES,
+    ],
+    builtIn: true,
+  },
+  {
+    id: 'builtin-family-services',
+    name: 'Family Services',
+    description: 'Families engaging with family service centres and case workers.',
+    stages: ['Crisis or Trigger', 'Reaching Out', 'Intake & Assessment', 'Case Work', 'Case Closure', 'After Care'],
+    lanes: [
+      USER_ACTIONS,
+      TOUCHPOINTS,
+      lane('custom_policies', 'Policies', "Rules, schemes, eligibility criteria or processes that shaped the experience"),
+      lane('custom_thoughts', 'Thoughts', "What the family is thinking or worrying about, in their own words"),
+      EMOTIONS,
+      PAIN_POINTS,
+      OPPORTUNITIES,
+    ],
+    builtIn: true,
+  },
+  {
+    id: 'builtin-service-blueprint',
+    name: 'Service Blueprint',
+    description: 'Client journey plus what frontstage staff, backstage processes and support systems do at each stage. Works with client and staff interviews.',
+    stages: ['Awareness', 'Consideration', 'Decision', 'Service Delivery', 'Retention/Exit'],
+    lanes: [
+      { ...TOUCHPOINTS, label: 'Physical Evidence', zone: 'customer' },
+      { ...USER_ACTIONS, label: 'Client Actions', zone: 'customer' },
+      EMOTIONS,
+      ...BLUEPRINT_LANES,
+      PAIN_POINTS,
+      OPPORTUNITIES,
+    ],
+    builtIn: true,
+  },
+];
+
+export const findTemplate = (templates: JourneyTemplate[], id?: string): JourneyTemplate =>
+  templates.find(t => t.id === id) || BUILT_IN_TEMPLATES[0];
+
+// Copies a template into an editable team template
+export const duplicateTemplate = (template: JourneyTemplate, name?: string): JourneyTemplate => ({
+  ...template,
+  id: `template-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  name: name || `${template.name} (Copy)`,
+  stages: [...template.stages],
+  lanes: template.lanes.map(l => ({ ...l })),
+  builtIn: false,
+});
+
+export const sanitizeTemplate = (raw: any): JourneyTemplate | null => {
+  if (!raw || typeof raw.id !== 'string') return null;
+  const lanes = sanitizeLanes(raw.lanes);
+  const stages = Array.isArray(raw.stages) ? raw.stages.filter((s: any) => typeof s === 'string' && s.trim()) : [];
+  return {
+    id: raw.id,
+    name: typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : 'Untitled Template',
+    description: typeof raw.description === 'string' ? raw.description : undefined,
+    stages,
+    lanes: lanes.length > 0 ? lanes : DEFAULT_LANES,
+  };
+};
+
+// Returns a list of problems that would make the template unusable for generation
+export const validateTemplate = (template: JourneyTemplate): string[] => {
+  const problems: string[] = [];
+  if (!template.name.trim()) problems.push('Give the template a name.');
+  if (template.stages.length === 0) problems.push('Add at least one stage.');
+  if (template.stages.some(s => !s.trim())) problems.push('Stage names cannot be empty.');
+  if (template.lanes.some(l => !l.label.trim())) problems.push('Lane names cannot be empty.');
+  if (new Set(template.stages.map(s => s.trim().toLowerCase())).size !== template.stages.length) problems.push('Stage names must be unique.');
+  if (!template.lanes.some(l => l.kind !== 'emotion')) problems.push('Add at least one lane that holds items.');
+  if (template.lanes.filter(l => l.kind === 'emotion').length > 1) problems.push('Only one emotion lane is allowed.');
+  return problems;
+};
@@ -0,0 +1,58 @@
+import { LanguageCode, SessionLanguage, TranscriptItem } from "../types";
+
+// --- Interview Languages ---
+// An interview is held in one language and its maps and translations are written in another
+// (or the same). Transcript text always stays as spoken; translations are kept alongside it.
+
+export interface LanguageOption {
+  code: LanguageCode;
+  label: string; // Shown to the PM
+  name: string; // Used in prompts
+}
+
+export const LANGUAGES: LanguageOption[] = [
+  { code: 'en', label: 'English', name: 'English' },
+  { code: 'zh', label: '中文 (Mandarin)', name: 'Mandarin Chinese (written in Simplified Chinese characters)' },
+  { code: 'ms', label: 'Bahasa Melayu', name: 'Malay' },
+  { code: 'ta', label: 'தமிழ் (Tamil)', name: 'Tamil' },
+  { code: 'en-SG', label: 'Singlish', name: 'Singapore colloquial English (Singlish)' },
+];
+
+// Singlish is spoken, not written up: maps and translations use standard English instead
+export const OUTPUT_LANGUAGES = LANGUAGES.filter(l => l.code !== 'en-SG');
+
+export const DEFAULT_SESSION_LANGUAGE: SessionLanguage = { interview: 'en', output: 'en' };
+
+export const isLanguageCode = (value: unknown): value is LanguageCode =>
+  LANGUAGES.some(l => l.code === value);
+
+export const languageName = (code: LanguageCode | undefined): string =>
+  LANGUAGES.find(l => l.code === code)?.name || 'English';
+
+export const languageLabel = (code: LanguageCode | undefined): string =>
+  LANGUAGES.find(l => l.code === code)?.label || 'English';
+
+// Singlish is written up as standard English
+export const writtenLanguage = (code: LanguageCode): LanguageCode => (code === 'en-SG' ? 'en' : code);
+
+// English sessions need no language instructions or translations
+export const isEnglishOnly = (language: SessionLanguage) => language.interview === 'en' && language.output === 'en';
+
+export const needsTranslation = (language: SessionLanguage) => writtenLanguage(language.interview) !== language.output;
+
+// Translations are requested in batches of at most this many lines
+export const MAX_TRANSLATION_LINES = 30;
+
+// Lines with no translation into the output language yet. Lines already spoken in it are skipped.
+export const untranslatedLines = (transcript: TranscriptItem[], language: SessionLanguage): TranscriptItem[] =>
+  needsTranslation(language)
+    ? transcript.filter(item => writtenLanguage(item.language || language.interview) !== language.output && item.translation?.language !== language.output)
+    : [];
+
+// The other language of a bilingual export: the interview's, or English for a map written in another language
+export const secondExportLanguage = (mapLanguage: LanguageCode | undefined, language: SessionLanguage): LanguageCode | null => {
+  const written = mapLanguage || 'en';
+  const spoken = writtenLanguage(language.interview);
+  if (spoken !== written) return spoken;
+  return written !== 'en' ? 'en' : null;
+};
@@ -0,0 +1,85 @@
+import { JourneyItem, JourneyMapData, JourneyTemplate, LanguageCode, TranscriptItem } from "../types";
+import { getLaneItems, itemLaneKeys, sanitizeJourneyMap, setLaneItems } from "./journeyMap";
+
+// --- Live Map Building ---
+// During the interview, each batch of new transcript lines is turned into additions to the
+// current map. Additions are applied to the map as it stands when they arrive, so items the PM
+// edited, moved or deleted in the meantime stay as the PM left them. Nothing is ever rewritten.
+
+const LIVE_MAP_KEY = 'aims:liveMap';
+
+// Longer backlogs, e.g. when live building is switched on mid-interview, are mapped in parts
+export const MAX_LIVE_MAP_LINES = 40;
+
+export const getLiveMapEnabled = (): boolean => {
+  try {
+    return localStorage.getItem(LIVE_MAP_KEY) === 'on';
+  } catch {
+    return false;
+  }
+};
+
+export const saveLiveMapEnabled = (enabled: boolean) => {
+  try {
+    localStorage.setItem(LIVE_MAP_KEY, enabled ? 'on' : 'off');
+  } catch {
+    // Storage unavailable; the choice applies to this page load only
+  }
+};
+
+// The map the first live update starts from: the template's stages with empty lanes
+export const emptyLiveMap = (template: JourneyTemplate, language: LanguageCode = 'en'): JourneyMapData => ({
+  ...sanitizeJourneyMap({ title: 'Live Journey Map', stages: template.stages.map(name => ({ name })) }, template.lanes),
+  templateId: template.id,
+  ...(language !== 'en' ? { language } : {}),
+});
+
+// Transcript lines the live map has not seen yet. When edits removed the last mapped line,
+// mapping carries on from the end rather than adding everything a second time.
+export const unmappedLines = (transcript: TranscriptItem[], mappedThroughId?: string): TranscriptItem[] => {
+  if (!mappedThroughId) return transcript;
+  const index = transcript.findIndex(item => item.id === mappedThroughId);
+  return index === -1 ? [] : transcript.slice(index + 1);
+};
+
+const normalize = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Identifies an item on the map for the "just added" animation
+export const liveItemKey = (stageName: string, lane: string, text: string) => `${normalize(stageName)}|${lane}|${normalize(text)}`;
+
+export interface LiveMapResult {
+  map: JourneyMapData;
+  addedKeys: string[];
+}
+
+// Merges the stages of an update into the map. Stages the PM renamed or removed since the request
+// was sent are skipped; an item already in its lane is not added again. A stage's feeling is only
+// filled in while it has none, so a score the PM set by hand is never replaced.
+export const applyLiveUpdate = (map: JourneyMapData, update: JourneyMapData): LiveMapResult => {
+  const addedKeys: string[] = [];
+  const lanes = itemLaneKeys(map);
+  const stages = map.stages.map(stage => {
+    const incoming = update.stages.filter(s => normalize(s.name) === normalize(stage.name));
+    if (incoming.length === 0) return stage;
+    let next = stage;
+    lanes.forEach(lane => {
+      const existing = new Set(getLaneItems(next, lane).map(i => normalize(i.text)));
+      const fresh = incoming.flatMap(s => getLaneItems(s, lane)).filter((item: JourneyItem) => {
+        const key = normalize(item.text);
+        if (!key || existing.has(key)) return false;
+        existing.add(key);
+        return true;
+      });
+      if (fresh.length === 0) return;
+      next = setLaneItems(next, lane, [...getLaneItems(next, lane), ...fresh]);
+      fresh.forEach(item => addedKeys.push(liveItemKey(stage.name, lane, item.text)));
+    });
+    const felt = incoming.find(s => s.sentiment);
+    if (!next.sentiment && felt) {
+      next = { ...next, emotions: felt.emotions, sentiment: felt.sentiment };
+    }
+    return next;
+  });
+  const changed = stages.some((stage, i) => stage !== map.stages[i]);
+  return { map: changed ? { ...map, stages } : map, addedKeys };
+};
@@ -0,0 +1,38 @@
+import type { LiveServerMessage } from "@google/genai";
+
+// --- Live Relay Protocol ---
+// JSON frames exchanged between LiveApiService and the server's /api/live relay.
+// The browser never talks to Gemini directly, so the API key stays on the server.
+
+export const LIVE_RELAY_PATH = '/api/live';
+
+// Gemini session resumption handles are opaque tokens; anything longer is rejected by the relay
+export const MAX_RESUME_HANDLE_LENGTH = 1024;
+
+// Prebuilt Gemini Live voices offered to the PM; the relay only accepts these
+export const LIVE_VOICES = [
+  { name: 'Kore', description: 'Firm, female' },
+  { name: 'Aoede', description: 'Breezy, female' },
+  { name: 'Leda', description: 'Youthful, female' },
+  { name: 'Zephyr', description: 'Bright, female' },
+  { name: 'Puck', description: 'Upbeat, male' },
+  { name: 'Charon', description: 'Informative, male' },
+  { name: 'Fenrir', description: 'Excitable, male' },
+  { name: 'Orus', description: 'Firm, male' },
+] as const;
+
+export type LiveVoice = typeof LIVE_VOICES[number]['name'];
+
+export const DEFAULT_LIVE_VOICE: LiveVoice = 'Kore';
+
+export const isLiveVoice = (value: unknown): value is LiveVoice =>
+  LIVE_VOICES.some(v => v.name === value);
+
+export type LiveClientFrame =
+  | { type: 'audio'; data: string; mimeType: string } // base64 PCM
+  | { type: 'text'; text: string; turnComplete?: boolean }; // turnComplete false: context only, no reply
+
+export type LiveServerFrame =
+  | { type: 'open' }
+  | { type: 'message'; message: LiveServerMessage }
+  | { type: 'error'; message: string };
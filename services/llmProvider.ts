@@ -0,0 +1,92 @@
+import { GeminiProvider } from "./geminiProvider";
+import { MockProvider } from "./mockProvider";
+import { OpenAiProvider } from "./openAiProvider";
+import { apiUrl } from "./apiClient";
+
+// --- LLM Providers ---
+// Prompts and response handling live in geminiService; a provider only turns a prompt and a
+// response schema into JSON text (or an image). Swapping providers never changes the prompts.
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+// Lets providers pick a model per task, and lets the mock pick a fixture
+export type LlmTask = 'map' | 'mapMerge' | 'liveMap' | 'questions' | 'refine' | 'synthesis' | 'coverage' | 'translate';
+
+export interface JsonRequest {
+  task: LlmTask;
+  prompt: string;
+  schema: object; // Gemini-style schema built with Type.*; providers convert it as needed
+  signal?: AbortSignal; // Cancels the request, e.g. when the PM stops a long analysis
+}
+
+export interface LlmProvider {
+  id: ProviderId;
+  generateJson(request: JsonRequest): Promise<string>;
+  // Data URL of the image, or null when the provider cannot make one
+  generateImage(prompt: string): Promise<string | null>;
+}
+
+export const PROVIDER_LABELS: Record<ProviderId, string> = {
+  gemini: 'Google Gemini',
+  openai: 'OpenAI-compatible endpoint',
+  mock: 'Offline demo (mock)',
+};
+
+const PROVIDER_KEY = 'aims:llmProvider';
+
+const isProviderId = (value: unknown): value is ProviderId =>
+  typeof value === 'string' && Object.hasOwn(PROVIDER_LABELS, value);
+
+// The deployment default comes from VITE_LLM_PROVIDER; a PM can switch to the mock for a demo
+export const defaultProviderId = (): ProviderId => {
+  const configured = import.meta.env.VITE_LLM_PROVIDER;
+  return isProviderId(configured) ? configured : 'gemini';
+};
+
+// Set for the rest of the page load, even when localStorage is unavailable
+let selectedId: ProviderId | null = null;
+let activeProvider: LlmProvider | null = null;
+
+export const getProviderId = (): ProviderId => {
+  if (selectedId) return selectedId;
+  try {
+    const stored = localStorage.getItem(PROVIDER_KEY);
+    return isProviderId(stored) ? stored : defaultProviderId();
+  } catch {
+    return defaultProviderId();
+  }
+};
+
+export const setProviderId = (id: ProviderId) => {
+  selectedId = id;
+  try {
+    localStorage.setItem(PROVIDER_KEY, id);
+  } catch {
+    // Storage unavailable; the choice lasts until the page is reloaded
+  }
+};
+
+const createProvider = (id: ProviderId): LlmProvider => {
+  switch (id) {
+    case 'openai':
+      // VITE_ values are bundled into the app, so a key there would reach every visitor's browser
+      if (import.meta.env.VITE_OPENAI_API_KEY) {
+        throw new Error("VITE_OPENAI_API_KEY is bundled into the app. Remove it and set OPENAI_API_KEY on the AIMS server instead.");
+      }
+      return new OpenAiProvider({
+        baseUrl: import.meta.env.VITE_OPENAI_BASE_URL || apiUrl('/api/openai'),
+        model: import.meta.env.VITE_OPENAI_MODEL || 'gpt-4o-mini',
+        imageModel: import.meta.env.VITE_OPENAI_IMAGE_MODEL,
+      });
+    case 'mock':
+      return new MockProvider();
+    default:
+      return new GeminiProvider();
+  }
+};
+
+export const getProvider = (): LlmProvider => {
+  const id = getProviderId();
+  if (!activeProvider || activeProvider.id !== id) activeProvider = createProvider(id);
+  return activeProvider;
+};
@@ -0,0 +1,163 @@
+import { InterviewSession, JourneyItem, JourneyMapData, JourneyStage, MapRevision, MapRevisionSource } from "../types";
+import { ItemLaneKey, getLaneItems, itemLaneKeys } from "./journeyMap";
+
+// --- Map Version History ---
+
+export const MAX_REVISIONS = 100;
+
+export interface MapHistory {
+  revisions: MapRevision[];
+  index: number; // -1 when there is no map yet
+}
+
+export const EMPTY_HISTORY: MapHistory = { revisions: [], index: -1 };
+
+export const createRevision = (map: JourneyMapData, source: MapRevisionSource, label: string): MapRevision => ({
+  id: `rev-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  label,
+  source,
+  createdAt: new Date(),
+  map,
+});
+
+// Appends a revision after the current one, discarding anything that was undone
+export const pushRevision = (history: MapHistory, revision: MapRevision): MapHistory => {
+  const revisions = [...history.revisions.slice(0, history.index + 1), revision].slice(-MAX_REVISIONS);
+  return { revisions, index: revisions.length - 1 };
+};
+
+// Live map updates during an interview extend the newest live revision instead of adding one
+// per update. Anything else in between (an edit, a refinement) starts a new live revision.
+export const pushLiveRevision = (history: MapHistory, map: JourneyMapData, label: string): MapHistory => {
+  const current = history.revisions[history.index];
+  if (current?.source !== 'live' || history.index !== history.revisions.length - 1) {
+    return pushRevision(history, createRevision(map, 'live', label));
+  }
+  const revisions = [...history.revisions.slice(0, -1), { ...current, map, label }];
+  return { revisions, index: history.index };
+};
+
+export const canUndo = (history: MapHistory) => history.index > 0;
+export const canRedo = (history: MapHistory) => history.index < history.revisions.length - 1;
+
+export const currentMap = (history: MapHistory): JourneyMapData | null => history.revisions[history.index]?.map || null;
+
+// --- Diffing ---
+
+export type StageDiffStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface LaneDiff {
+  added: string[];
+  removed: string[];
+}
+
+export interface StageDiff {
+  name: string;
+  previousName?: string; // Set when the stage was renamed
+  status: StageDiffStatus;
+  emotion?: { from: string; to: string };
+  sentiment?: { from: number | null; to: number | null };
+  lanes: Record<ItemLaneKey, LaneDiff>;
+}
+
+export interface MapDiff {
+  titleChanged?: { from: string; to: string };
+  laneKeys: ItemLaneKey[];
+  stages: StageDiff[];
+  addedCount: number;
+  removedCount: number;
+}
+
+const normalize = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const diffItems = (before: JourneyItem[], after: JourneyItem[]): LaneDiff => {
+  const beforeKeys = new Set(before.map(i => normalize(i.text)));
+  const afterKeys = new Set(after.map(i => normalize(i.text)));
+  return {
+    added: after.filter(i => !beforeKeys.has(normalize(i.text))).map(i => i.text),
+    removed: before.filter(i => !afterKeys.has(normalize(i.text))).map(i => i.text),
+  };
+};
+
+const wholeStage = (stage: JourneyStage, status: 'added' | 'removed', laneKeys: ItemLaneKey[]): StageDiff => {
+  const lanes: Record<ItemLaneKey, LaneDiff> = {};
+  laneKeys.forEach(lane => {
+    lanes[lane] = { added: [], removed: [] };
+    lanes[lane][status] = getLaneItems(stage, lane).map(i => i.text);
+  });
+  return { name: stage.name, status, lanes };
+};
+
+// Stages are matched by name first; leftovers at the same position are treated as renames
+export const diffJourneyMaps = (before: JourneyMapData, after: JourneyMapData): MapDiff => {
+  // Lanes can differ when the template changed between versions
+  const laneKeys = Array.from(new Set([...itemLaneKeys(after), ...itemLaneKeys(before)]));
+  const unmatchedBefore = new Set(before.stages.map((_, i) => i));
+  const pairs: (number | null)[] = after.stages.map(stage => {
+    const match = before.stages.findIndex((b, i) => unmatchedBefore.has(i) && normalize(b.name) === normalize(stage.name));
+    if (match >= 0) unmatchedBefore.delete(match);
+    return match >= 0 ? match : null;
+  });
+  after.stages.forEach((_, i) => {
+    if (pairs[i] === null && unmatchedBefore.has(i)) {
+      pairs[i] = i;
+      unmatchedBefore.delete(i);
+    }
+  });
+
+  const stages: StageDiff[] = after.stages.map((stage, i) => {
+    const beforeIndex = pairs[i];
+    if (beforeIndex === null) return wholeStage(stage, 'added', laneKeys);
+
+    const previous = before.stages[beforeIndex];
+    const lanes: Record<ItemLaneKey, LaneDiff> = {};
+    laneKeys.forEach(lane => {
+      lanes[lane] = diffItems(getLaneItems(previous, lane), getLaneItems(stage, lane));
+    });
+    const renamed = normalize(previous.name) !== normalize(stage.name);
+    const emotionChanged = previous.emotions !== stage.emotions;
+    const sentimentChanged = previous.sentiment?.score !== stage.sentiment?.score;
+    const itemsChanged = laneKeys.some(lane => lanes[lane].added.length > 0 || lanes[lane].removed.length > 0);
+
+    return {
+      name: stage.name,
+      previousName: renamed ? previous.name : undefined,
+      status: renamed || emotionChanged || sentimentChanged || itemsChanged ? 'changed' : 'unchanged',
+      emotion: emotionChanged ? { from: previous.emotions, to: stage.emotions } : undefined,
+      sentiment: sentimentChanged ? { from: previous.sentiment?.score ?? null, to: stage.sentiment?.score ?? null } : undefined,
+      lanes,
+    };
+  });
+
+  // Removed stages are shown where they used to be
+  Array.from(unmatchedBefore).sort((a, b) => a - b).forEach(index => {
+    stages.splice(Math.min(index, stages.length), 0, wholeStage(before.stages[index], 'removed', laneKeys));
+  });
+
+  const count = (key: keyof LaneDiff) =>
+    stages.reduce((sum, s) => sum + laneKeys.reduce((n, lane) => n + s.lanes[lane][key].length, 0), 0);
+
+  return {
+    titleChanged: before.title !== after.title ? { from: before.title, to: after.title } : undefined,
+    laneKeys,
+    stages,
+    addedCount: count('added'),
+    removedCount: count('removed'),
+  };
+};
+
+export const hasChanges = (diff: MapDiff) =>
+  !!diff.titleChanged || diff.stages.some(s => s.status !== 'unchanged');
+
+// Restores a session's history, seeding it for sessions saved before history was kept
+export const historyFromSession = (session: InterviewSession): MapHistory => {
+  if (session.mapHistory && session.mapHistory.length > 0) {
+    const index = Math.min(Math.max(session.mapHistoryIndex ?? session.mapHistory.length - 1, 0), session.mapHistory.length - 1);
+    return { revisions: session.mapHistory, index };
+  }
+  if (!session.journeyMap) return EMPTY_HISTORY;
+  const seed = session.sourceSessionIds
+    ? createRevision(session.journeyMap, 'synthesis', `Synthesized from ${session.sourceSessionIds.length} interviews`)
+    : createRevision(session.journeyMap, 'generate', 'Generated map');
+  return { revisions: [seed], index: 0 };
+};
@@ -0,0 +1,164 @@
+import { ItemLaneKey, JourneyMapData, MapOperation, RejectedOperation } from "../types";
+import {
+  DEFAULT_LANES,
+  addItem,
+  addStage,
+  getLaneItems,
+  itemLaneKeys,
+  laneLabel,
+  moveItem,
+  removeItem,
+  removeStage,
+  renameStage,
+  setMapTitle,
+  setStageEmotion,
+  updateItemText,
+} from "./journeyMap";
+
+// --- Structured Map Operations ---
+// Chat refinements return a list of operations that are validated and applied here,
+// so that parts of the map the PM did not ask about are never rewritten.
+
+const OPERATION_TYPES: MapOperation['op'][] = [
+  'addItem', 'removeItem', 'updateItem', 'moveItem', 'renameStage', 'addStage', 'removeStage', 'setEmotion', 'setTitle',
+];
+
+const normalize = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const str = (value: any): string => (typeof value === 'string' ? value.trim() : '');
+
+// Lane keys are checked against the map when the operation is applied
+const isLane = (value: any): value is ItemLaneKey => typeof value === 'string' && value.trim().length > 0;
+
+// Turns the model's loosely-typed operation objects into MapOperations, dropping malformed ones
+export const sanitizeOperations = (raw: any): MapOperation[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap((o: any): MapOperation[] => {
+    if (!o || !OPERATION_TYPES.includes(o.op)) return [];
+    const stage = str(o.stage);
+    const text = str(o.text);
+    switch (o.op) {
+      case 'addItem':
+      case 'removeItem':
+        return stage && text && isLane(o.lane) ? [{ op: o.op, stage, lane: o.lane, text }] : [];
+      case 'updateItem':
+        return stage && text && str(o.newText) && isLane(o.lane) ? [{ op: 'updateItem', stage, lane: o.lane, text, newText: str(o.newText) }] : [];
+      case 'moveItem':
+        return stage && text && str(o.toStage) && isLane(o.lane)
+          ? [{ op: 'moveItem', stage, lane: o.lane, text, toStage: str(o.toStage), toLane: isLane(o.toLane) ? o.toLane : undefined }]
+          : [];
+      case 'renameStage':
+        return stage && str(o.newName) ? [{ op: 'renameStage', stage, newName: str(o.newName) }] : [];
+      case 'addStage':
+        return str(o.newName) ? [{ op: 'addStage', newName: str(o.newName), position: typeof o.position === 'number' ? o.position : undefined }] : [];
+      case 'removeStage':
+        return stage ? [{ op: 'removeStage', stage }] : [];
+      case 'setEmotion':
+        return stage && str(o.emotion) ? [{ op: 'setEmotion', stage, emotion: str(o.emotion) }] : [];
+      case 'setTitle':
+        return str(o.newTitle) ? [{ op: 'setTitle', newTitle: str(o.newTitle) }] : [];
+    }
+    return [];
+  });
+};
+
+const findStage = (map: JourneyMapData, name: string) =>
+  map.stages.findIndex(s => normalize(s.name) === normalize(name));
+
+const findItem = (map: JourneyMapData, stageIndex: number, lane: ItemLaneKey, text: string) =>
+  getLaneItems(map.stages[stageIndex], lane).findIndex(i => normalize(i.text) === normalize(text));
+
+const assertLane = (map: JourneyMapData, lane: ItemLaneKey) => {
+  if (!itemLaneKeys(map).includes(lane)) throw new Error(`This map has no "${lane}" lane`);
+};
+
+// Applies a single operation, throwing a readable reason when it does not fit the current map
+const applyOperation = (map: JourneyMapData, operation: MapOperation): JourneyMapData => {
+  if (operation.op === 'setTitle') return setMapTitle(map, operation.newTitle);
+  if (operation.op === 'addStage') {
+    if (findStage(map, operation.newName) >= 0) throw new Error(`A stage named "${operation.newName}" already exists`);
+    return addStage(map, operation.newName, operation.position);
+  }
+
+  const stageIndex = findStage(map, operation.stage);
+  if (stageIndex < 0) throw new Error(`No stage named "${operation.stage}"`);
+
+  switch (operation.op) {
+    case 'renameStage': {
+      const existing = findStage(map, operation.newName);
+      if (existing >= 0 && existing !== stageIndex) throw new Error(`A stage named "${operation.newName}" already exists`);
+      return renameStage(map, stageIndex, operation.newName);
+    }
+    case 'removeStage':
+      return removeStage(map, stageIndex);
+    case 'setEmotion':
+      return setStageEmotion(map, stageIndex, operation.emotion);
+    case 'addItem':
+      assertLane(map, operation.lane);
+      if (findItem(map, stageIndex, operation.lane, operation.text) >= 0) {
+        throw new Error(`"${operation.text}" is already in ${laneLabel(map, operation.lane)}`);
+      }
+      return addItem(map, stageIndex, operation.lane, operation.text);
+  }
+
+  assertLane(map, operation.lane);
+  const itemIndex = findItem(map, stageIndex, operation.lane, operation.text);
+  if (itemIndex < 0) throw new Error(`"${operation.text}" is not in ${laneLabel(map, operation.lane)} of "${operation.stage}"`);
+
+  switch (operation.op) {
+    case 'removeItem':
+      return removeItem(map, stageIndex, operation.lane, itemIndex);
+    case 'updateItem':
+      return updateItemText(map, stageIndex, operation.lane, itemIndex, operation.newText);
+    case 'moveItem': {
+      const toStageIndex = findStage(map, operation.toStage);
+      if (toStageIndex < 0) throw new Error(`No stage named "${operation.toStage}"`);
+      if (operation.toLane) assertLane(map, operation.toLane);
+      return moveItem(map, { stageIndex, lane: operation.lane, itemIndex }, { stageIndex: toStageIndex, lane: operation.toLane || operation.lane });
+    }
+  }
+};
+
+// Applies operations in order; each one is validated against the map as it stands after the previous ones
+export const applyMapOperations = (
+  map: JourneyMapData,
+  operations: MapOperation[]
+): { map: JourneyMapData; applied: MapOperation[]; rejected: RejectedOperation[] } => {
+  const applied: MapOperation[] = [];
+  const rejected: RejectedOperation[] = [];
+  let next = map;
+  for (const operation of operations) {
+    try {
+      next = applyOperation(next, operation);
+      applied.push(operation);
+    } catch (e: any) {
+      rejected.push({ operation, reason: e.message });
+    }
+  }
+  return { map: next, applied, rejected };
+};
+
+// Describes an operation for the chat thread, using the map's lane labels where available
+export const describeOperation = (operation: MapOperation, map?: JourneyMapData): string => {
+  const label = (lane: ItemLaneKey) => (map ? laneLabel(map, lane) : DEFAULT_LANES.find(l => l.key === lane)?.label || lane);
+  switch (operation.op) {
+    case 'addItem':
+      return `Add "${operation.text}" to ${label(operation.lane)} in ${operation.stage}`;
+    case 'removeItem':
+      return `Remove "${operation.text}" from ${label(operation.lane)} in ${operation.stage}`;
+    case 'updateItem':
+      return `Change "${operation.text}" to "${operation.newText}" in ${operation.stage}`;
+    case 'moveItem':
+      return `Move "${operation.text}" from ${operation.stage} to ${operation.toStage}${operation.toLane && operation.toLane !== operation.lane ? ` (${label(operation.toLane)})` : ''}`;
+    case 'renameStage':
+      return `Rename stage "${operation.stage}" to "${operation.newName}"`;
+    case 'addStage':
+      return `Add stage "${operation.newName}"`;
+    case 'removeStage':
+      return `Remove stage "${operation.stage}"`;
+    case 'setEmotion':
+      return `Set emotion of ${operation.stage} to ${operation.emotion}`;
+    case 'setTitle':
+      return `Rename map to "${operation.newTitle}"`;
+  }
+};
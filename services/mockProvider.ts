@@ -0,0 +1,209 @@
+import type { JsonRequest, LlmProvider } from "./llmProvider";
+
+// --- Mock Provider ---
+// Deterministic, offline answers built from fixtures, for demos and UI work without network
+// access or API quota. It reads the stage names, transcript lines and labels that the prompts
+// already contain, so the results fit the template and cite real transcript lines.
+
+const RESPONSE_DELAY_MS = 400; // Long enough for loading states to show
+
+const STAGE_FIXTURES = [
+  { name: 'Finding Help', emotions: '😟', score: -1, rationale: 'Unsure where to start and worried about being turned away.' },
+  { name: 'Applying', emotions: '😫', score: -4, rationale: 'Repeated paperwork and long waits with no updates.' },
+  { name: 'Assessment', emotions: '😐', score: -2, rationale: 'Felt questioned rather than listened to.' },
+  { name: 'Receiving Support', emotions: '🙂', score: 2, rationale: 'Relieved once a case worker followed up personally.' },
+  { name: 'Moving On', emotions: '😊', score: 3, rationale: 'More confident and knows who to call next time.' },
+];
+
+const LANE_FIXTURES: Record<string, string[]> = {
+  userActions: ['Searched online for financial help', 'Filled in the application form', 'Answered the assessment questions', 'Met the case worker weekly', 'Referred a neighbour to the centre'],
+  touchpoints: ['Agency website', 'Service counter', 'Phone call with officer', 'Case worker visit', 'SMS reminder'],
+  painPoints: ['Did not know which agency to approach', 'Had to submit the same documents twice', 'No update for three weeks', 'Letters were hard to understand', 'Worried support would end suddenly'],
+  opportunities: ['One front door for first enquiries', 'Reuse documents already submitted', 'Proactive status updates by SMS', 'Plain-language letters', 'Planned exit with a check-in call'],
+  frontstage: ['Counter officer explains eligibility', 'Officer checks the documents', 'Case worker runs the assessment', 'Case worker reviews the care plan', 'Case worker closes the case'],
+  backstage: ['Referral logged in the case system', 'Documents verified with other agencies', 'Case conference with the supervisor', 'Funding approved', 'Case file archived'],
+  support: ['Case management system', 'Inter-agency data sharing', 'Assessment guidelines', 'Grant disbursement system', 'Community partner network'],
+};
+
+const SUGGESTION_FIXTURES = [
+  { type: 'question', text: "Could you tell me more about what happened right after that?" },
+  { type: 'question', text: "How did you feel when you were waiting to hear back?" },
+  { type: 'insight', text: "They have not mentioned how the support ended yet." },
+];
+
+// The parts of a Gemini-style response schema the fixtures are shaped by
+interface SchemaNode {
+  type?: string;
+  enum?: string[];
+  items?: SchemaNode;
+  properties?: Record<string, SchemaNode>;
+}
+
+// Lanes and fields of one stage in a map schema
+const stageProperties = (schema: SchemaNode): Record<string, SchemaNode> => schema.properties?.stages?.items?.properties || {};
+
+const delay = () => new Promise(resolve => setTimeout(resolve, RESPONSE_DELAY_MS));
+
+// "[id] Speaker: text" lines, as the map prompt formats the transcript
+const transcriptLines = (prompt: string) =>
+  Array.from(prompt.matchAll(/^\s*\[([^\]]+)\] [^:\n]+: (.+)$/gm)).map(m => ({ id: m[1], text: m[2].trim() }));
+
+const stageNames = (prompt: string): string[] => {
+  const match = prompt.match(/in this order: (.+)\.\s*$/m);
+  return match ? match[1].split(',').map(s => s.trim()).filter(Boolean) : STAGE_FIXTURES.map(s => s.name);
+};
+
+const quoteFrom = (text: string) => text.split(/\s+/).slice(0, 8).join(' ');
+
+const mockMap = ({ prompt, schema }: JsonRequest, participantLabels: string[] = []) => {
+  const stageSchema = stageProperties(schema);
+  const laneKeys = Object.keys(stageSchema).filter(key => stageSchema[key].type === 'ARRAY');
+  const lines = transcriptLines(prompt);
+  let cited = 0;
+
+  const item = (lane: string, index: number) => {
+    const fixtures = LANE_FIXTURES[lane];
+    const text = fixtures ? fixtures[index % fixtures.length] : `Example ${lane} note for stage ${index + 1}`;
+    // Client-side lanes cite transcript lines in turn; staff lanes and opportunities are inferred
+    if (lines.length > 0 && (lane === 'userActions' || lane === 'painPoints')) {
+      const line = lines[cited++ % lines.length];
+      return { text, basis: 'evidenced', sourceIds: [line.id], quote: quoteFrom(line.text) };
+    }
+    return { text, basis: 'inferred', ...(participantLabels.length > 0 ? { participants: participantLabels.slice(0, (index % participantLabels.length) + 1) } : {}) };
+  };
+
+  return {
+    title: 'Demo Journey Map (mock data)',
+    stages: stageNames(prompt).map((name, index) => {
+      const fixture = STAGE_FIXTURES[index % STAGE_FIXTURES.length];
+      return {
+        name,
+        ...('emotions' in stageSchema ? { emotions: fixture.emotions } : {}),
+        ...('sentiment' in stageSchema ? { sentiment: { score: fixture.score, rationale: fixture.rationale, basis: 'inferred' } } : {}),
+        ...Object.fromEntries(laneKeys.map(lane => [lane, [item(lane, index)]])),
+      };
+    }),
+  };
+};
+
+// Adds one opportunity to the first stage so the review and undo flow can be tried out
+const mockRefinement = ({ prompt, schema }: JsonRequest) => {
+  let firstStage: string | undefined;
+  try {
+    firstStage = JSON.parse(prompt.match(/Current Journey Map: (.+)$/m)?.[1] || '{}').stages?.[0]?.name;
+  } catch {
+    firstStage = undefined;
+  }
+  const request = prompt.match(/User Request: (.+)$/m)?.[1].trim() || 'your request';
+  const root: SchemaNode = schema;
+  const laneEnum = root.properties?.operations?.items?.properties?.lane?.enum || [];
+  const lane = laneEnum.includes('opportunities') ? 'opportunities' : laneEnum[0];
+  if (!firstStage || !lane) {
+    return { explanation: 'The offline demo provider cannot change this map.', operations: [] };
+  }
+  return {
+    explanation: `Demo response: added a placeholder item to "${firstStage}" for "${request}".`,
+    operations: [{ op: 'addItem', stage: firstStage, lane, text: `Demo idea: ${request}` }],
+  };
+};
+
+// Keeps every finding of a long transcript as its own item and takes the first part's feeling
+const mockMerge = (prompt: string) => {
+  const lanes: Record<string, { text: string; refs: string[] }[]> = {};
+  let lane = '';
+  prompt.split('\n').forEach(line => {
+    const header = line.match(/^\s*(\w+) \([^)]*\):$/);
+    if (header) {
+      lane = header[1];
+      lanes[lane] = [];
+      return;
+    }
+    const finding = line.match(/^\s*- \((F\d+)\) (.+?)( \[inferred\])?$/);
+    if (finding && lane) lanes[lane].push({ text: finding[2], refs: [finding[1]] });
+  });
+  const feeling = prompt.match(/How each part felt: (\S+) (-?\d+)/);
+  return { ...lanes, ...(feeling ? { emotions: feeling[1], score: Number(feeling[2]) } : {}) };
+};
+
+// Live updates add one cited item per new line, spread over the stages by line id
+const mockLiveMap = ({ prompt, schema }: JsonRequest) => {
+  const stageSchema = stageProperties(schema);
+  const laneKeys = Object.keys(stageSchema).filter(key => stageSchema[key].type === 'ARRAY' && LANE_FIXTURES[key]);
+  const stages = prompt.match(/using the exact stage names: (.+)\.$/m)?.[1].split(', ') || [];
+  const lines = transcriptLines(prompt.split('New transcript lines:')[1] || '');
+  if (stages.length === 0 || laneKeys.length === 0) return { stages: [] };
+  const hash = (text: string) => Array.from(text).reduce((sum, c) => sum + c.charCodeAt(0), 0);
+  return {
+    stages: lines.slice(0, 2).map(line => {
+      const n = hash(line.id);
+      const lane = laneKeys[n % laneKeys.length];
+      const fixtures = LANE_FIXTURES[lane];
+      return {
+        name: stages[n % stages.length],
+        [lane]: [{ text: fixtures[n % fixtures.length], basis: 'evidenced', sourceIds: [line.id], quote: quoteFrom(line.text) }],
+      };
+    }),
+  };
+};
+
+// Marks a guide item covered when a transcript line shares two or more longer words with it
+const mockCoverage = (prompt: string) => {
+  const words = (text: string) => new Set(text.toLowerCase().match(/[a-z]{5,}/g) || []);
+  const lines = transcriptLines(prompt).map(line => ({ ...line, words: words(line.text) }));
+  const items = Array.from(prompt.matchAll(/^\s*- \(([^)]+)\) \[[^\]]*\] \w+: (.+)$/gm)).flatMap(m => {
+    const itemWords = Array.from(words(m[2]));
+    const matches = lines.filter(line => itemWords.filter(w => line.words.has(w)).length >= 2);
+    return matches.length > 0 ? [{ id: m[1], status: matches.length > 1 ? 'covered' : 'partial', sourceIds: matches.map(l => l.id) }] : [];
+  });
+  return { items };
+};
+
+// Marks each text as translated rather than translating it
+const mockTranslate = (prompt: string) => {
+  const language = prompt.match(/into (.+?)\.$/m)?.[1] || 'English';
+  const translations = Array.from(prompt.matchAll(/^\s*- \(([^)]+)\) (.+)$/gm)).map(m => ({ id: m[1], text: `[${language.split(' ')[0]}] ${m[2]}` }));
+  return { translations };
+};
+
+const mockImage = (prompt: string) => {
+  const label = prompt.replace(/^.*?context:\s*/, '').slice(0, 28).replace(/[<>&"]/g, '');
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="256" height="256"><rect width="256" height="256" fill="#ede9f4"/><circle cx="128" cy="104" r="44" fill="#5b2c83" opacity="0.25"/><text x="128" y="196" font-family="sans-serif" font-size="14" text-anchor="middle" fill="#5b2c83">${label}</text></svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+};
+
+export class MockProvider implements LlmProvider {
+  readonly id = 'mock' as const;
+
+  async generateJson(request: JsonRequest): Promise<string> {
+    await delay();
+    request.signal?.throwIfAborted();
+    switch (request.task) {
+      case 'questions': {
+        // Targets the template's stages when the prompt lists them
+        const stages = request.prompt.match(/\(one of: ([^)]+)\)/)?.[1].split(', ') || [];
+        return JSON.stringify({ suggestions: SUGGESTION_FIXTURES.map((s, i) => ({ ...s, ...(stages[i] ? { target: stages[i] } : {}) })) });
+      }
+      case 'refine':
+        return JSON.stringify(mockRefinement(request));
+      case 'coverage':
+        return JSON.stringify(mockCoverage(request.prompt));
+      case 'mapMerge':
+        return JSON.stringify(mockMerge(request.prompt));
+      case 'liveMap':
+        return JSON.stringify(mockLiveMap(request));
+      case 'translate':
+        return JSON.stringify(mockTranslate(request.prompt));
+      case 'synthesis': {
+        const labels = request.prompt.match(/Use only these labels: (.+)\.$/m)?.[1].match(/"[^"]*"/g)?.map(l => l.slice(1, -1)) || [];
+        return JSON.stringify({ ...mockMap(request, labels), title: 'Demo Consolidated Journey (mock data)' });
+      }
+      default:
+        return JSON.stringify(mockMap(request));
+    }
+  }
+
+  async generateImage(prompt: string): Promise<string | null> {
+    await delay();
+    return mockImage(prompt);
+  }
+}
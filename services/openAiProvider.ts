@@ -0,0 +1,74 @@
+import type { JsonRequest, LlmProvider } from "./llmProvider";
+
+// --- OpenAI-compatible Provider ---
+// Works with OpenAI, Azure OpenAI-style gateways and local servers that expose
+// /chat/completions (e.g. Ollama, LM Studio, vLLM).
+
+export interface OpenAiConfig {
+  baseUrl: string; // The AIMS server's /api/openai, which adds the key, or a keyless local server
+  model: string;
+  imageModel?: string; // Touchpoint images are skipped when unset
+}
+
+// Gemini schemas use upper-case type names ("OBJECT"); JSON Schema wants lower case
+export const toJsonSchema = (schema: any): any => {
+  if (Array.isArray(schema)) return schema.map(toJsonSchema);
+  if (!schema || typeof schema !== 'object') return schema;
+  return Object.fromEntries(Object.entries(schema).map(([key, value]) => {
+    if (key === 'type' && typeof value === 'string') return [key, value.toLowerCase()];
+    if (key === 'properties' && value && typeof value === 'object') {
+      return [key, Object.fromEntries(Object.entries(value).map(([name, prop]) => [name, toJsonSchema(prop)]))];
+    }
+    return [key, toJsonSchema(value)];
+  }));
+};
+
+export class OpenAiProvider implements LlmProvider {
+  readonly id = 'openai' as const;
+
+  constructor(private config: OpenAiConfig) {}
+
+  private async post(path: string, body: object, signal?: AbortSignal): Promise<any> {
+    const response = await fetch(`${this.config.baseUrl.replace(/\/$/, '')}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`AI endpoint returned ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`);
+    }
+    return response.json();
+  }
+
+  async generateJson({ task, prompt, schema, signal }: JsonRequest): Promise<string> {
+    const data = await this.post('/chat/completions', {
+      model: this.config.model,
+      messages: [
+        { role: 'system', content: 'Reply with a single JSON object that matches the given schema. No prose.' },
+        { role: 'user', content: prompt },
+      ],
+      response_format: {
+        type: 'json_schema',
+        json_schema: { name: task, schema: toJsonSchema(schema) },
+      },
+    }, signal);
+    const text = data.choices?.[0]?.message?.content;
+    if (!text) throw new Error("Empty response from AI");
+    return text;
+  }
+
+  async generateImage(prompt: string): Promise<string | null> {
+    if (!this.config.imageModel) return null;
+    const data = await this.post('/images/generations', {
+      model: this.config.imageModel,
+      prompt,
+      size: '1024x1024',
+      response_format: 'b64_json',
+    });
+    const image = data.data?.[0];
+    if (image?.b64_json) return `data:image/png;base64,${image.b64_json}`;
+    return image?.url || null;
+  }
+}
@@ -0,0 +1,57 @@
+// --- PCM Capture Worklet ---
+// Runs on the audio rendering thread, off the main thread. Converts microphone samples to
+// 16-bit PCM in fixed-size chunks and measures their level, so the UI thread only has to
+// base64-encode and send them. Loaded by MicrophoneCapture via audioWorklet.addModule.
+
+// AudioWorkletGlobalScope is not part of the DOM lib
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+}
+declare function registerProcessor(name: string, processor: typeof AudioWorkletProcessor): void;
+
+export interface CaptureChunk {
+  pcm: ArrayBuffer; // Int16, little-endian
+  rms: number;
+  peak: number;
+}
+
+// 2048 samples at 16 kHz = 128 ms per message
+const CHUNK_SAMPLES = 2048;
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  private samples = new Int16Array(CHUNK_SAMPLES);
+  private length = 0;
+  private sumSquares = 0;
+  private peak = 0;
+
+  process(inputs: Float32Array[][]): boolean {
+    const channel = inputs[0]?.[0];
+    if (!channel) return true; // No input yet (e.g. while the device is switching)
+    for (let i = 0; i < channel.length; i++) {
+      // Clamp values to [-1, 1] range to prevent distortion before scaling
+      const s = Math.max(-1, Math.min(1, channel[i]));
+      this.samples[this.length++] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+      this.sumSquares += s * s;
+      const magnitude = Math.abs(s);
+      if (magnitude > this.peak) this.peak = magnitude;
+      if (this.length === CHUNK_SAMPLES) this.flush();
+    }
+    return true;
+  }
+
+  private flush() {
+    const chunk: CaptureChunk = {
+      pcm: this.samples.buffer,
+      rms: Math.sqrt(this.sumSquares / this.length),
+      peak: this.peak,
+    };
+    // Transferred, not copied; a fresh buffer is started for the next chunk
+    this.port.postMessage(chunk, [chunk.pcm]);
+    this.samples = new Int16Array(CHUNK_SAMPLES);
+    this.length = 0;
+    this.sumSquares = 0;
+    this.peak = 0;
+  }
+}
+
+registerProcessor('pcm-capture', PcmCaptureProcessor);
@@ -0,0 +1,312 @@
+import { AuditEntry, InterviewRecording, InterviewSession, JourneyTemplate, Project, RecordingTake } from "../types";
+import { sanitizeJourneyMap } from "./journeyMap";
+import { BUILT_IN_TEMPLATES, sanitizeTemplate } from "./journeyTemplates";
+import { hydrateSuggestions } from "./suggestions";
+import { isExpired, purgeTranscript } from "./retention";
+
+// --- IndexedDB Project Store ---
+// Projects and their interview sessions are kept in the browser so that a refresh
+// or an accidental tab close does not lose an interview.
+
+const DB_NAME = 'aims-journey-mapper';
+const DB_VERSION = 4;
+const PROJECTS_STORE = 'projects';
+const SESSIONS_STORE = 'sessions';
+const TEMPLATES_STORE = 'templates';
+const RECORDINGS_STORE = 'recordings';
+const AUDIT_STORE = 'auditLog';
+const LAST_SESSION_KEY = 'aims:lastSessionId';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+        db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+        const sessions = db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+        sessions.createIndex('projectId', 'projectId', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(TEMPLATES_STORE)) {
+        db.createObjectStore(TEMPLATES_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(RECORDINGS_STORE)) {
+        db.createObjectStore(RECORDINGS_STORE, { keyPath: 'sessionId' });
+      }
+      if (!db.objectStoreNames.contains(AUDIT_STORE)) {
+        const audit = db.createObjectStore(AUDIT_STORE, { keyPath: 'id' });
+        audit.createIndex('projectId', 'projectId', { unique: false });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      // Allow a later call to retry opening the database
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  const tx = db.transaction(storeName, mode);
+  return promisifyRequest(run(tx.objectStore(storeName)));
+};
+
+const newId = (prefix: string) => `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const byMostRecent = <T extends { updatedAt: Date }>(a: T, b: T) =>
+  new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime();
+
+// --- Projects ---
+
+export const listProjects = async (): Promise<Project[]> => {
+  const projects = await withStore<Project[]>(PROJECTS_STORE, 'readonly', store => store.getAll());
+  return projects.sort(byMostRecent);
+};
+
+export const createProject = async (name: string): Promise<Project> => {
+  const now = new Date();
+  const project: Project = { id: newId('project'), name: name.trim() || 'Untitled Project', createdAt: now, updatedAt: now };
+  await withStore(PROJECTS_STORE, 'readwrite', store => store.put(project));
+  return project;
+};
+
+export const saveProject = async (project: Project): Promise<Project> => {
+  const updated = { ...project, updatedAt: new Date() };
+  await withStore(PROJECTS_STORE, 'readwrite', store => store.put(updated));
+  return updated;
+};
+
+export const deleteProject = async (projectId: string): Promise<void> => {
+  const sessions = await listSessions(projectId);
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS_STORE, SESSIONS_STORE, RECORDINGS_STORE], 'readwrite');
+  sessions.forEach(s => {
+    tx.objectStore(SESSIONS_STORE).delete(s.id);
+    tx.objectStore(RECORDINGS_STORE).delete(s.id);
+  });
+  tx.objectStore(PROJECTS_STORE).delete(projectId);
+
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+// --- Interview Sessions ---
+
+// Brings sessions saved by older versions of the app up to the current shape
+const hydrateSession = (session: InterviewSession): InterviewSession => ({
+  ...session,
+  journeyMap: session.journeyMap ? sanitizeJourneyMap(session.journeyMap) : null,
+  mapHistory: session.mapHistory?.map(revision => ({ ...revision, map: sanitizeJourneyMap(revision.map) })),
+  suggestions: hydrateSuggestions(session.suggestions),
+});
+
+export const listSessions = async (projectId: string): Promise<InterviewSession[]> => {
+  const sessions = await withStore<InterviewSession[]>(SESSIONS_STORE, 'readonly', store =>
+    store.index('projectId').getAll(IDBKeyRange.only(projectId))
+  );
+  return sessions.map(hydrateSession).sort(byMostRecent);
+};
+
+export const getSession = async (sessionId: string): Promise<InterviewSession | null> => {
+  const session = await withStore<InterviewSession | undefined>(SESSIONS_STORE, 'readonly', store => store.get(sessionId));
+  return session ? hydrateSession(session) : null;
+};
+
+export const createSession = async (
+  projectId: string,
+  title?: string,
+  initial: Partial<Pick<InterviewSession, 'journeyMap' | 'sourceSessionIds'>> = {}
+): Promise<InterviewSession> => {
+  const now = new Date();
+  const session: InterviewSession = {
+    id: newId('session'),
+    projectId,
+    title: title?.trim() || `Interview ${now.toLocaleDateString()} ${now.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`,
+    createdAt: now,
+    updatedAt: now,
+    transcript: [],
+    journeyMap: null,
+    suggestions: [],
+    images: {},
+    ...initial,
+  };
+  await withStore(SESSIONS_STORE, 'readwrite', store => store.put(session));
+  return session;
+};
+
+export const saveSession = async (session: InterviewSession): Promise<InterviewSession> => {
+  const updated = { ...session, updatedAt: new Date() };
+  await withStore(SESSIONS_STORE, 'readwrite', store => store.put(updated));
+
+  // Touch the parent project so it sorts to the top of the list
+  const project = await withStore<Project | undefined>(PROJECTS_STORE, 'readonly', store => store.get(session.projectId));
+  if (project) {
+    await withStore(PROJECTS_STORE, 'readwrite', store => store.put({ ...project, updatedAt: updated.updatedAt }));
+  }
+  return updated;
+};
+
+export const deleteSession = async (sessionId: string): Promise<void> => {
+  await withStore(SESSIONS_STORE, 'readwrite', store => store.delete(sessionId));
+  await deleteRecording(sessionId);
+  if (getLastSessionId() === sessionId) {
+    try {
+      localStorage.removeItem(LAST_SESSION_KEY);
+    } catch {
+      // Storage unavailable; reopening falls back to the most recent session
+    }
+  }
+};
+
+// --- Interview Recordings ---
+// Kept out of the session record so transcripts load without megabytes of audio
+
+export const getRecording = async (sessionId: string): Promise<InterviewRecording | null> => {
+  const recording = await withStore<InterviewRecording | undefined>(RECORDINGS_STORE, 'readonly', store => store.get(sessionId));
+  return recording || null;
+};
+
+// Adds the take, or replaces the earlier save of the same take while it is still recording
+export const saveRecordingTake = async (sessionId: string, take: RecordingTake): Promise<InterviewRecording> => {
+  const existing = await getRecording(sessionId);
+  const others = (existing?.takes || []).filter(t => t.id !== take.id);
+  const recording: InterviewRecording = { sessionId, takes: [...others, take] };
+  await withStore(RECORDINGS_STORE, 'readwrite', store => store.put(recording));
+  return recording;
+};
+
+export const deleteRecording = async (sessionId: string): Promise<void> => {
+  await withStore(RECORDINGS_STORE, 'readwrite', store => store.delete(sessionId));
+};
+
+// --- Retention ---
+
+export interface PurgedData {
+  project: Project;
+  session: InterviewSession; // As stored after the purge
+  transcript: boolean;
+  audio: boolean;
+}
+
+// Applies every project's retention policy. Runs on startup, before an interview is opened.
+export const purgeExpiredData = async (now = new Date()): Promise<PurgedData[]> => {
+  const purged: PurgedData[] = [];
+  for (const project of await listProjects()) {
+    const { transcriptDays, audioDays } = project.retention || {};
+    if (transcriptDays === undefined && audioDays === undefined) continue;
+    for (const session of await listSessions(project.id)) {
+      const cleared = isExpired(session, transcriptDays, now) ? purgeTranscript(session, now) : null;
+      if (cleared) await withStore(SESSIONS_STORE, 'readwrite', store => store.put(cleared));
+      // Audio never outlives its transcript
+      const audio = (isExpired(session, audioDays, now) || isExpired(session, transcriptDays, now)) && !!(await getRecording(session.id));
+      if (audio) await deleteRecording(session.id);
+      if (cleared || audio) purged.push({ project, session: cleared || session, transcript: !!cleared, audio });
+    }
+  }
+  return purged;
+};
+
+// --- Audit Log ---
+// Append-only: entries are never changed, and deleting a project or interview keeps its entries
+
+export const appendAuditEntry = async (entry: Omit<AuditEntry, 'id'>): Promise<AuditEntry> => {
+  const saved: AuditEntry = { ...entry, id: newId('audit') };
+  await withStore(AUDIT_STORE, 'readwrite', store => store.add(saved));
+  return saved;
+};
+
+// Newest first; every project's entries when no project is given
+export const listAuditEntries = async (projectId?: string): Promise<AuditEntry[]> => {
+  const entries = await withStore<AuditEntry[]>(AUDIT_STORE, 'readonly', store =>
+    projectId ? store.index('projectId').getAll(IDBKeyRange.only(projectId)) : store.getAll()
+  );
+  return entries.sort((a, b) => new Date(b.at).getTime() - new Date(a.at).getTime());
+};
+
+// --- Journey Templates ---
+
+// Built-in templates first, then the team's own templates by name
+export const listTemplates = async (): Promise<JourneyTemplate[]> => {
+  const stored = await withStore<any[]>(TEMPLATES_STORE, 'readonly', store => store.getAll());
+  const custom = stored.map(sanitizeTemplate).filter((t): t is JourneyTemplate => t !== null);
+  return [...BUILT_IN_TEMPLATES, ...custom.sort((a, b) => a.name.localeCompare(b.name))];
+};
+
+export const saveTemplate = async (template: JourneyTemplate): Promise<JourneyTemplate> => {
+  if (template.builtIn) {
+    throw new Error("Built-in templates cannot be changed. Duplicate it first.");
+  }
+  const cleaned = { ...template, name: template.name.trim(), stages: template.stages.map(s => s.trim()) };
+  await withStore(TEMPLATES_STORE, 'readwrite', store => store.put(cleaned));
+  return cleaned;
+};
+
+export const deleteTemplate = async (templateId: string): Promise<void> => {
+  await withStore(TEMPLATES_STORE, 'readwrite', store => store.delete(templateId));
+};
+
+// --- Last Opened Session ---
+
+export const getLastSessionId = (): string | null => {
+  try {
+    return localStorage.getItem(LAST_SESSION_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const setLastSessionId = (sessionId: string) => {
+  try {
+    localStorage.setItem(LAST_SESSION_KEY, sessionId);
+  } catch {
+    // Storage may be unavailable (e.g., private browsing); reopening is best-effort
+  }
+};
+
+// Reopens the last session, falling back to the most recent one, or creates a first project.
+export const restoreOrCreateSession = async (): Promise<{ project: Project; session: InterviewSession }> => {
+  const lastId = getLastSessionId();
+  let session = lastId ? await getSession(lastId) : null;
+  const projects = await listProjects();
+
+  if (!session && projects.length > 0) {
+    const sessions = await listSessions(projects[0].id);
+    session = sessions[0] || await createSession(projects[0].id);
+  }
+
+  if (!session) {
+    const project = await createProject('My First Project');
+    session = await createSession(project.id);
+    return { project, session };
+  }
+
+  const project = projects.find(p => p.id === session!.projectId) || await createProject('Recovered Project');
+  if (project.id !== session.projectId) {
+    session = await saveSession({ ...session, projectId: project.id });
+  }
+  return { project, session };
+};
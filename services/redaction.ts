@@ -0,0 +1,183 @@
+import { Participant, TranscriptItem } from "../types";
+
+// --- PII Redaction ---
+// Every prompt is redacted before it is sent to the model. Personal data is replaced by
+// placeholders such as [NRIC_1], and placeholders in the model's response are swapped back
+// locally, so the real values never leave the browser.
+
+export type RedactionRule = 'nric' | 'phone' | 'email' | 'postal' | 'names';
+
+export interface RedactionSettings {
+  enabled: boolean;
+  rules: Record<RedactionRule, boolean>;
+  customTerms: string[]; // e.g. children's names, case numbers, school names
+}
+
+export const REDACTION_RULE_LABELS: Record<RedactionRule, string> = {
+  nric: 'NRIC / FIN numbers',
+  phone: 'Singapore phone numbers',
+  email: 'Email addresses',
+  postal: 'Postal codes',
+  names: 'Speaker names',
+};
+
+export const DEFAULT_REDACTION_SETTINGS: RedactionSettings = {
+  enabled: true,
+  rules: { nric: true, phone: true, email: true, postal: true, names: true },
+  customTerms: [],
+};
+
+const SETTINGS_KEY = 'aims:redactionSettings';
+
+type PlaceholderKind = 'NRIC' | 'PHONE' | 'EMAIL' | 'POSTAL' | 'NAME' | 'TERM';
+
+// Order matters: emails go first, before names and digits inside them can be matched on their own.
+// Custom terms and names run after emails and before the number patterns, so a listed address
+// keeps its postal code.
+const PATTERNS: { rule: Exclude<RedactionRule, 'names'>; kind: PlaceholderKind; pattern: RegExp }[] = [
+  { rule: 'email', kind: 'EMAIL', pattern: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g },
+  { rule: 'nric', kind: 'NRIC', pattern: /\b[STFGM]\d{7}[A-Z]\b/gi },
+  { rule: 'phone', kind: 'PHONE', pattern: /(?<![\w+])(?:\+?65[\s-]?)?[3689]\d{3}[\s-]?\d{4}(?!\d)/g },
+  // Six digits that are not an amount such as "$120000", "SGD 120000" or "120000.50"
+  { rule: 'postal', kind: 'POSTAL', pattern: /(?<![\w$£€¥.,-])(?<!(?:[$£€¥]|\b(?:SGD|USD))\s)\d{6}(?![\w-]|[.,]\d)/gi },
+];
+
+// Parts of a name that are also everyday words, so they are not redacted on their own
+const NAME_PARTICLES = new Set(['bin', 'binte', 'binti', 'van', 'von', 'der', 'den', 'del', 'd/o', 's/o']);
+
+const CAPITALISED = /^\p{Lu}/u;
+
+const PLACEHOLDER = /\[(?:NRIC|PHONE|EMAIL|POSTAL|NAME|TERM)_\d+\]/g;
+
+// Splits redacted text into plain runs and placeholders (odd indexes) for highlighting
+export const splitPlaceholders = (text: string): string[] => text.split(/(\[(?:NRIC|PHONE|EMAIL|POSTAL|NAME|TERM)_\d+\])/);
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const termPattern = (term: string) => new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(term)}(?![\\p{L}\\p{N}])`, 'giu');
+
+export interface RedactionFinding {
+  placeholder: string;
+  value: string;
+}
+
+export class Redactor {
+  private placeholders = new Map<string, string>(); // lower-cased value -> placeholder
+  private values = new Map<string, string>(); // placeholder -> original value
+  private counters: Partial<Record<PlaceholderKind, number>> = {};
+  private terms: { kind: PlaceholderKind; pattern: RegExp; capitalisedOnly?: boolean }[];
+
+  constructor(private settings: RedactionSettings, participants: Participant[] = [], transcript: TranscriptItem[] = []) {
+    const names = settings.rules.names
+      ? [
+          ...participants.filter(p => p.role !== 'copilot').map(p => p.name),
+          ...transcript.map(t => t.speakerName).filter((n): n is string => !!n),
+        ]
+      : [];
+    // Longer terms first so "Mary Tan" wins over "Mary"
+    const byLength = (a: string, b: string) => b.length - a.length;
+    const fullNames = Array.from(new Set(names.map(n => n.trim()).filter(n => n.length > 1))).sort(byLength);
+    this.terms = [
+      ...Array.from(new Set(settings.customTerms.map(t => t.trim()).filter(Boolean))).sort(byLength).map(term => ({ kind: 'TERM' as const, pattern: termPattern(term) })),
+      ...fullNames.map(name => ({ kind: 'NAME' as const, pattern: termPattern(name) })),
+      // A name part on its own is only taken as a name when capitalised, so "I may go" keeps its "may".
+      // Each part gets its own placeholder, so it comes back exactly as it was written.
+      ...this.nameParts(fullNames).map(part => ({ kind: 'NAME' as const, pattern: termPattern(part), capitalisedOnly: true })),
+    ];
+    // Seeding with the speakers and transcript keeps placeholder numbers stable between requests
+    names.forEach(name => this.redact(name));
+    transcript.forEach(item => this.redact(item.text));
+  }
+
+  // Parts of a name such as "Mary" or "Tan", for when a speaker is called by one of them
+  private nameParts(fullNames: string[]): string[] {
+    const parts = new Map<string, string>();
+    fullNames.forEach(name => name.split(/\s+/).forEach(part => {
+      const key = part.toLowerCase();
+      if (part.length <= 2 || NAME_PARTICLES.has(key) || fullNames.some(n => n.toLowerCase() === key)) return;
+      if (!parts.has(key)) parts.set(key, part);
+    }));
+    return Array.from(parts.values()).sort((a, b) => b.length - a.length);
+  }
+
+  private placeholderFor(kind: PlaceholderKind, value: string): string {
+    const key = `${kind}:${value.toLowerCase()}`;
+    const existing = this.placeholders.get(key);
+    if (existing) return existing;
+    const count = (this.counters[kind] || 0) + 1;
+    this.counters[kind] = count;
+    const placeholder = `[${kind}_${count}]`;
+    this.placeholders.set(key, placeholder);
+    this.values.set(placeholder, value);
+    return placeholder;
+  }
+
+  redact(text: string): string {
+    if (!this.settings.enabled || !text) return text;
+    const replace = (input: string, kind: PlaceholderKind, pattern: RegExp) =>
+      input.replace(pattern, match => this.placeholderFor(kind, match));
+    const [emails, ...numbers] = PATTERNS;
+    let result = this.settings.rules.email ? replace(text, emails.kind, emails.pattern) : text;
+    this.terms.forEach(({ kind, pattern, capitalisedOnly }) => {
+      result = capitalisedOnly
+        ? result.replace(pattern, match => CAPITALISED.test(match) ? this.placeholderFor(kind, match) : match)
+        : replace(result, kind, pattern);
+    });
+    numbers.forEach(({ rule, kind, pattern }) => {
+      if (this.settings.rules[rule]) result = replace(result, kind, pattern);
+    });
+    return result;
+  }
+
+  rehydrate(text: string): string {
+    if (!this.settings.enabled || !text) return text;
+    return text.replace(PLACEHOLDER, placeholder => this.values.get(placeholder) ?? placeholder);
+  }
+
+  // Restores every string inside a parsed model response (maps, operations, lists)
+  rehydrateDeep<T>(value: T): T {
+    if (typeof value === 'string') return this.rehydrate(value) as T;
+    if (Array.isArray(value)) return value.map(v => this.rehydrateDeep(v)) as T;
+    if (value && typeof value === 'object' && !(value instanceof Date)) {
+      return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, this.rehydrateDeep(v)])) as T;
+    }
+    return value;
+  }
+
+  redactDeep<T>(value: T): T {
+    if (typeof value === 'string') return this.redact(value) as T;
+    if (Array.isArray(value)) return value.map(v => this.redactDeep(v)) as T;
+    if (value && typeof value === 'object' && !(value instanceof Date)) {
+      return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, this.redactDeep(v)])) as T;
+    }
+    return value;
+  }
+
+  get findings(): RedactionFinding[] {
+    return Array.from(this.values.entries()).map(([placeholder, value]) => ({ placeholder, value }));
+  }
+}
+
+// --- Settings ---
+
+export const getRedactionSettings = (): RedactionSettings => {
+  try {
+    const raw = JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null');
+    if (!raw) return DEFAULT_REDACTION_SETTINGS;
+    return {
+      enabled: raw.enabled !== false,
+      rules: { ...DEFAULT_REDACTION_SETTINGS.rules, ...raw.rules },
+      customTerms: Array.isArray(raw.customTerms) ? raw.customTerms.filter((t: any) => typeof t === 'string') : [],
+    };
+  } catch {
+    return DEFAULT_REDACTION_SETTINGS;
+  }
+};
+
+export const saveRedactionSettings = (settings: RedactionSettings) => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch {
+    // Storage unavailable; settings apply to this page load only
+  }
+};
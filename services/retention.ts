@@ -0,0 +1,53 @@
+import { InterviewSession, JourneyMapData, RetentionPolicy } from "../types";
+import { mapAllItems } from "./journeyMap";
+
+// --- Retention ---
+// A project can purge interview data a set number of days after each interview. The map stays;
+// the transcript, the suggestions drawn from it and the verbatim quotes on the map do not.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const RETENTION_OPTIONS: { days?: number; label: string }[] = [
+  { label: 'Keep' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 180, label: '6 months' },
+  { days: 365, label: '1 year' },
+];
+
+export const retentionLabel = (days?: number) => RETENTION_OPTIONS.find(o => o.days === days)?.label || `${days} days`;
+
+export const isExpired = (session: InterviewSession, days: number | undefined, now = new Date()) =>
+  days !== undefined && now.getTime() - new Date(session.createdAt).getTime() >= days * DAY_MS;
+
+// Evidence is removed along with the transcript it pointed into
+const withoutQuotes = (map: JourneyMapData): JourneyMapData => {
+  const stripped = mapAllItems(map, ({ quote, sourceIds, ...item }) => item);
+  return {
+    ...stripped,
+    stages: stripped.stages.map(stage => {
+      if (!stage.sentiment) return stage;
+      const { quote, sourceIds, ...sentiment } = stage.sentiment;
+      return { ...stage, sentiment };
+    }),
+  };
+};
+
+// Null when there is nothing left to purge
+export const purgeTranscript = (session: InterviewSession, now = new Date()): InterviewSession | null => {
+  if (session.purgedAt && session.transcript.length === 0) return null;
+  return {
+    ...session,
+    transcript: [],
+    suggestions: [],
+    refinementThread: [],
+    journeyMap: session.journeyMap ? withoutQuotes(session.journeyMap) : null,
+    mapHistory: session.mapHistory?.map(revision => ({ ...revision, map: withoutQuotes(revision.map) })),
+    guideCoverage: undefined,
+    liveMapThroughId: undefined,
+    purgedAt: now,
+  };
+};
+
+export const hasRetention = (policy: RetentionPolicy | undefined) =>
+  policy?.transcriptDays !== undefined || policy?.audioDays !== undefined;
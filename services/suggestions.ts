@@ -0,0 +1,87 @@
+import { InterviewGuide, Participant, Suggestion, TranscriptItem } from "../types";
+import { guideEntries } from "./interviewGuide";
+import { speakerOf } from "./transcript";
+
+// --- Co-Pilot Suggestions ---
+// Every suggestion is kept: the panel shows the open ones, the rest form the session's history.
+
+const DEFAULT_QUESTIONS = [
+  "Could you walk me through your first experience with us?",
+  "What were you feeling when you first sought help?",
+  "Were there any obstacles in the application process?"
+];
+
+// Older suggestions beyond this are dropped, oldest first
+const MAX_SUGGESTIONS = 200;
+
+export const createSuggestion = (text: string, fields: Partial<Suggestion> = {}): Suggestion => ({
+  id: `suggestion-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  type: 'question',
+  text,
+  status: 'open',
+  createdAt: new Date(),
+  ...fields,
+});
+
+// Before the interview starts: the guide's first questions, or general openers
+export const openingSuggestions = (guide: InterviewGuide | undefined, count = 3): Suggestion[] => {
+  const questions = guideEntries(guide).filter(e => e.item.kind === 'question').slice(0, count);
+  return questions.length > 0
+    ? questions.map(({ item, section }) => createSuggestion(item.text, { target: section.stage || section.title || undefined }))
+    : DEFAULT_QUESTIONS.map(text => createSuggestion(text));
+};
+
+// Sessions saved before suggestions had a status stored plain strings
+export const hydrateSuggestions = (raw: unknown): Suggestion[] =>
+  Array.isArray(raw)
+    ? raw.map(s => (typeof s === 'string' ? createSuggestion(s, { status: 'superseded' }) : s as Suggestion))
+    : [];
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+// A new batch replaces the open suggestions that are not pinned; repeats of current ones are dropped
+export const applySuggestionBatch = (suggestions: Suggestion[], batch: Suggestion[]): Suggestion[] => {
+  const kept = suggestions.map(s => (s.status === 'open' && !s.pinned ? { ...s, status: 'superseded' as const } : s));
+  const taken = new Set(kept.filter(s => s.status === 'open' || s.status === 'asked').map(s => normalize(s.text)));
+  const fresh = batch.filter(s => !taken.has(normalize(s.text)));
+  return [...kept, ...fresh].slice(-MAX_SUGGESTIONS);
+};
+
+export const updateSuggestion = (suggestions: Suggestion[], id: string, changes: Partial<Suggestion>): Suggestion[] =>
+  suggestions.map(s => (s.id === id ? { ...s, ...changes } : s));
+
+// --- Detecting Asked Questions ---
+
+const STOP_WORDS = new Set(['about', 'after', 'again', 'could', 'would', 'should', 'there', 'their', 'these', 'those', 'what', 'when', 'where', 'which', 'while', 'with', 'were', 'that', 'this', 'your', 'from', 'have', 'they', 'them', 'then', 'than', 'into', 'does', 'tell', 'more']);
+// Share of the question's content words that must appear in one line
+const ASKED_WORD_OVERLAP = 0.6;
+const MIN_CONTENT_WORDS = 3;
+
+const contentWords = (text: string) => normalize(text).split(' ').filter(w => w.length >= 4 && !STOP_WORDS.has(w));
+
+// Interviewee and caregiver lines answer questions rather than ask them
+const isAskingSide = (item: TranscriptItem, participants: Participant[]) => {
+  const role = speakerOf(item, participants)?.role;
+  return role ? role === 'interviewer' || role === 'copilot' : true;
+};
+
+// Marks open questions as asked when a later interviewer or co-pilot line says much the same thing.
+// Returns the same array when nothing changed, so it can run on every transcript update.
+export const detectAskedSuggestions = (suggestions: Suggestion[], transcript: TranscriptItem[], participants: Participant[]): Suggestion[] => {
+  let changed = false;
+  const next = suggestions.map(suggestion => {
+    if (suggestion.status !== 'open' || suggestion.type !== 'question') return suggestion;
+    const words = contentWords(suggestion.text);
+    if (words.length < MIN_CONTENT_WORDS) return suggestion;
+    const since = new Date(suggestion.createdAt).getTime();
+    const line = transcript.find(item =>
+      new Date(item.timestamp).getTime() >= since &&
+      isAskingSide(item, participants) &&
+      words.filter(w => contentWords(item.text).includes(w)).length / words.length >= ASKED_WORD_OVERLAP
+    );
+    if (!line) return suggestion;
+    changed = true;
+    return { ...suggestion, status: 'asked' as const, askedId: line.id, askedVia: suggestion.askedVia || (line.speaker === 'model' ? 'copilot' : 'interviewer') };
+  });
+  return changed ? next : suggestions;
+};
@@ -0,0 +1,107 @@
+import { Participant, ParticipantRole, TranscriptItem } from "../types";
+
+// --- Speakers & Transcript Editing ---
+// All helpers are immutable so they can be used directly with React state setters.
+
+export const ROLE_LABELS: Record<ParticipantRole, string> = {
+  interviewer: 'Interviewer',
+  interviewee: 'Interviewee',
+  caregiver: 'Caregiver',
+  copilot: 'Co-Pilot',
+};
+
+// Whose experience the journey map describes
+export const isSubjectRole = (role: ParticipantRole) => role === 'interviewee' || role === 'caregiver';
+
+export const COPILOT_PARTICIPANT: Participant = { id: 'copilot', name: 'AI Co-Pilot', role: 'copilot' };
+
+export const newParticipantId = () => `participant-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const createParticipant = (name: string, role: ParticipantRole = 'interviewee'): Participant =>
+  ({ id: newParticipantId(), name: name.trim(), role });
+
+// The co-pilot is always available; everyone else is added by the PM or from an imported transcript
+export const withCopilot = (participants: Participant[] = []): Participant[] =>
+  participants.some(p => p.id === COPILOT_PARTICIPANT.id) ? participants : [COPILOT_PARTICIPANT, ...participants];
+
+// Model turns always belong to the co-pilot; human turns only once they are assigned
+export const speakerOf = (item: TranscriptItem, participants: Participant[]): Participant | null => {
+  if (item.speaker === 'model') return participants.find(p => p.role === 'copilot') || COPILOT_PARTICIPANT;
+  return participants.find(p => p.id === item.participantId) || null;
+};
+
+export const speakerLabel = (item: TranscriptItem, participants: Participant[]): string => {
+  const speaker = speakerOf(item, participants);
+  if (speaker) return `${speaker.name} (${ROLE_LABELS[speaker.role]})`;
+  return item.speakerName || 'Human (Microphone)';
+};
+
+export const hasUnassignedTurns = (transcript: TranscriptItem[], participants: Participant[]): boolean =>
+  transcript.some(item => !speakerOf(item, participants));
+
+// Creates participants for speaker names found in an imported transcript and links the turns to them
+export const linkImportedSpeakers = (
+  items: TranscriptItem[],
+  participants: Participant[]
+): { items: TranscriptItem[]; participants: Participant[] } => {
+  const next = [...participants];
+  const linked = items.map(item => {
+    if (!item.speakerName || item.participantId) return item;
+    let participant = next.find(p => p.name.toLowerCase() === item.speakerName!.toLowerCase());
+    if (!participant) {
+      // Roles cannot be known from a file; the PM sets them in the transcript editor
+      participant = createParticipant(item.speakerName, 'interviewee');
+      next.push(participant);
+    }
+    return { ...item, participantId: participant.id };
+  });
+  return { items: linked, participants: next };
+};
+
+// --- Turn Editing ---
+
+export const assignSpeaker = (transcript: TranscriptItem[], itemId: string, participantId: string | null): TranscriptItem[] =>
+  transcript.map(item => {
+    if (item.id !== itemId) return item;
+    const { participantId: _previous, ...rest } = item;
+    return participantId ? { ...rest, participantId } : rest;
+  });
+
+export const updateTurnText = (transcript: TranscriptItem[], itemId: string, text: string): TranscriptItem[] =>
+  transcript.map(item => (item.id === itemId ? { ...item, text, translation: undefined } : item));
+
+export const deleteTurn = (transcript: TranscriptItem[], itemId: string): TranscriptItem[] =>
+  transcript.filter(item => item.id !== itemId);
+
+// The first part keeps the original id so map evidence pointing at it stays valid
+export const splitTurn = (transcript: TranscriptItem[], itemId: string, offset: number): TranscriptItem[] =>
+  transcript.flatMap(item => {
+    if (item.id !== itemId) return [item];
+    const first = item.text.slice(0, offset).trim();
+    const second = item.text.slice(offset).trim();
+    if (!first || !second) return [item];
+    // Where the split falls in the recording, taking the words as spoken at an even pace
+    const splitTime = item.startTime !== undefined && item.endTime !== undefined
+      ? item.startTime + (item.endTime - item.startTime) * (offset / item.text.length)
+      : undefined;
+    return [
+      { ...item, text: first, ...(splitTime !== undefined ? { endTime: splitTime } : {}), translation: undefined },
+      { ...item, id: `${item.id}-split-${Date.now().toString(36)}`, text: second, startTime: splitTime, translation: undefined },
+    ];
+  });
+
+export const mergeWithNext = (transcript: TranscriptItem[], itemId: string): TranscriptItem[] => {
+  const index = transcript.findIndex(item => item.id === itemId);
+  if (index < 0 || index === transcript.length - 1) return transcript;
+  const current = transcript[index];
+  const next = transcript[index + 1];
+  const merged: TranscriptItem = { ...current, text: `${current.text} ${next.text}`, endTime: next.endTime ?? current.endTime, translation: undefined };
+  return [...transcript.slice(0, index), merged, ...transcript.slice(index + 2)];
+};
+
+// Ids of turns containing the query, case-insensitive
+export const searchTranscript = (transcript: TranscriptItem[], query: string): string[] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+  return transcript.filter(item => item.text.toLowerCase().includes(needle)).map(item => item.id);
+};
@@ -0,0 +1,195 @@
+import { TranscriptItem } from "../types";
+
+// --- Transcript Import ---
+// Turns transcript files from meeting tools into individual TranscriptItems, keeping speaker
+// names and timings so map items can cite the exact line they came from.
+
+export type TranscriptFormat = 'webvtt' | 'srt' | 'otter' | 'speaker-lines' | 'plain';
+
+export interface ImportedTranscript {
+  format: TranscriptFormat;
+  items: TranscriptItem[];
+  speakers: string[];
+}
+
+export const TRANSCRIPT_FORMAT_LABELS: Record<TranscriptFormat, string> = {
+  webvtt: 'WebVTT (Teams / Zoom)',
+  srt: 'SRT subtitles',
+  otter: 'Otter / Teams text export',
+  'speaker-lines': '"Speaker: text" lines',
+  plain: 'Plain text',
+};
+
+export const TRANSCRIPT_FILE_ACCEPT = '.vtt,.srt,.txt,text/vtt,text/plain';
+
+// Consecutive cues from the same speaker are merged, up to roughly a paragraph
+const MAX_MERGED_CHARS = 600;
+
+const TIMING_LINE = /^\s*((?:\d+:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?)\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?)/;
+// "Jane Tan  0:01" on its own line, as exported by Otter and copied from Teams
+const OTTER_HEADER = /^(\S.{0,59}?)\s+(\d{1,2}:\d{2}(?::\d{2})?)\s*$/;
+// Optional "[00:01:02]" or "00:01:02" before a speaker line
+const LEADING_TIME = /^\[?((?:\d+:)?\d{1,2}:\d{2})\]?\s+/;
+const SPEAKER_PREFIX = /^([\p{L}][\p{L}\p{N} .'’()&-]{0,39}):\s+(.+)$/u;
+const BRACKET_SPEAKER = /^\[([^\]\d][^\]]{0,39})\]\s*(.+)$/;
+
+// "01:02:03.500", "1:02:03,500" or "02:03" to seconds
+export const parseTimestamp = (value: string): number | undefined => {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{2})(?:[.,](\d{1,3}))?$/);
+  if (!match) return undefined;
+  const [, h, m, s, ms] = match;
+  return Number(h || 0) * 3600 + Number(m) * 60 + Number(s) + (ms ? Number(ms.padEnd(3, '0')) / 1000 : 0);
+};
+
+export const formatOffset = (seconds: number): string => {
+  const total = Math.floor(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
+
+// A speaker label is a short name, not the start of a sentence that happens to contain a colon
+const looksLikeName = (name: string) => name.trim().split(/\s+/).length <= 5;
+
+const splitSpeaker = (text: string): { speakerName?: string; text: string } => {
+  const match = text.match(SPEAKER_PREFIX) || text.match(BRACKET_SPEAKER);
+  if (match && looksLikeName(match[1])) return { speakerName: match[1].trim(), text: match[2].trim() };
+  return { text };
+};
+
+interface Segment {
+  speakerName?: string;
+  text: string;
+  startTime?: number;
+  endTime?: number;
+}
+
+const stripTags = (text: string) => text.replace(/<[^>]+>/g, '').replace(/&amp;/g, '&').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&nbsp;/g, ' ');
+
+// WebVTT and SRT share the same block structure: optional cue id, a timing line, then text
+const parseCues = (text: string): Segment[] =>
+  text.split(/\n\s*\n/).flatMap((block): Segment[] => {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(l => TIMING_LINE.test(l));
+    if (timingIndex < 0) return []; // Header, NOTE, STYLE and REGION blocks
+    const [, start, end] = lines[timingIndex].match(TIMING_LINE)!;
+    const raw = lines.slice(timingIndex + 1).join(' ').trim();
+    if (!raw) return [];
+    // Teams puts the speaker in a voice tag: <v Jane Tan>Hello</v>
+    const voice = raw.match(/<v(?:\.[^\s>]+)*\s+([^>]+)>/);
+    const cueText = stripTags(raw).replace(/\s+/g, ' ').trim();
+    if (!cueText) return [];
+    const segment = voice ? { speakerName: voice[1].trim(), text: cueText } : splitSpeaker(cueText);
+    return [{ ...segment, startTime: parseTimestamp(start), endTime: parseTimestamp(end) }];
+  });
+
+const parseOtter = (lines: string[]): Segment[] => {
+  const segments: Segment[] = [];
+  lines.forEach(line => {
+    const header = line.match(OTTER_HEADER);
+    if (header && looksLikeName(header[1])) {
+      segments.push({ speakerName: header[1].trim(), text: '', startTime: parseTimestamp(header[2]) });
+    } else if (line.trim() && segments.length > 0) {
+      const last = segments[segments.length - 1];
+      last.text = last.text ? `${last.text} ${line.trim()}` : line.trim();
+    }
+  });
+  return segments.filter(s => s.text);
+};
+
+const parseSpeakerLines = (lines: string[]): Segment[] => {
+  const segments: Segment[] = [];
+  lines.forEach(line => {
+    const trimmed = line.trim();
+    if (!trimmed) return;
+    const time = trimmed.match(LEADING_TIME);
+    const rest = time ? trimmed.slice(time[0].length) : trimmed;
+    const { speakerName, text } = splitSpeaker(rest);
+    if (speakerName || segments.length === 0) {
+      segments.push({ speakerName, text, startTime: time ? parseTimestamp(time[1]) : undefined });
+    } else {
+      // Continuation of the previous speaker's turn
+      segments[segments.length - 1].text += ` ${rest}`;
+    }
+  });
+  return segments;
+};
+
+const mergeSameSpeaker = (segments: Segment[]): Segment[] =>
+  segments.reduce<Segment[]>((merged, segment) => {
+    const last = merged[merged.length - 1];
+    if (last && last.speakerName === segment.speakerName && last.text.length + segment.text.length < MAX_MERGED_CHARS) {
+      last.text = `${last.text} ${segment.text}`;
+      last.endTime = segment.endTime ?? last.endTime;
+    } else {
+      merged.push({ ...segment });
+    }
+    return merged;
+  }, []);
+
+const detectFormat = (text: string, lines: string[]): TranscriptFormat => {
+  if (/^WEBVTT/.test(text)) return 'webvtt';
+  if (lines.some(l => TIMING_LINE.test(l))) return 'srt';
+  const nonEmpty = lines.filter(l => l.trim());
+  const otterHeaders = nonEmpty.filter(l => { const m = l.match(OTTER_HEADER); return !!m && looksLikeName(m[1]); });
+  if (otterHeaders.length > 0 && otterHeaders.length < nonEmpty.length) return 'otter';
+  const speakerLines = nonEmpty.filter(l => !!splitSpeaker(l.trim().replace(LEADING_TIME, '')).speakerName);
+  // Require a clear majority so prose with the odd colon stays plain text
+  if (speakerLines.length >= 2 && speakerLines.length >= nonEmpty.length / 3) return 'speaker-lines';
+  return 'plain';
+};
+
+export const parseTranscript = (rawText: string, startedAt: Date = new Date()): ImportedTranscript => {
+  const text = rawText.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').trim();
+  const lines = text.split('\n');
+  const format = detectFormat(text, lines);
+
+  let segments: Segment[];
+  switch (format) {
+    case 'webvtt':
+    case 'srt':
+      segments = mergeSameSpeaker(parseCues(text));
+      break;
+    case 'otter':
+      segments = parseOtter(lines);
+      break;
+    case 'speaker-lines':
+      segments = parseSpeakerLines(lines);
+      break;
+    default:
+      // Paragraphs keep evidence citations reasonably precise
+      segments = text.split(/\n\s*\n/).map(p => ({ text: p.replace(/\s+/g, ' ').trim() })).filter(s => s.text);
+  }
+
+  const batch = Date.now().toString();
+  const items: TranscriptItem[] = segments.map((segment, i) => {
+    const item: TranscriptItem = {
+      id: `${batch}-import-${i}`,
+      speaker: 'user',
+      text: segment.text,
+      timestamp: new Date(startedAt.getTime() + (segment.startTime || 0) * 1000),
+    };
+    if (segment.speakerName) item.speakerName = segment.speakerName;
+    if (segment.startTime !== undefined) item.startTime = segment.startTime;
+    if (segment.endTime !== undefined) item.endTime = segment.endTime;
+    return item;
+  });
+
+  return {
+    format,
+    items,
+    speakers: Array.from(new Set(items.map(i => i.speakerName).filter((n): n is string => !!n))),
+  };
+};
+
+export const readTranscriptFile = async (file: File): Promise<ImportedTranscript> => {
+  if (/\.docx?$/i.test(file.name)) {
+    throw new Error("Word transcripts are not supported. In Teams, download the transcript as .vtt instead.");
+  }
+  const result = parseTranscript(await file.text());
+  if (result.items.length === 0) {
+    throw new Error(`No transcript lines were found in "${file.name}".`);
+  }
+  return result;
+};
@@ -1,33 +1,300 @@
+// Languages an interview can be held in and a map written in: English, Mandarin, Malay, Tamil and Singlish
+export type LanguageCode = 'en' | 'zh' | 'ms' | 'ta' | 'en-SG';
+
+// A session's spoken language and the language its maps and translations are written in
+export interface SessionLanguage {
+  interview: LanguageCode;
+  output: LanguageCode;
+}
+
+export interface TranscriptTranslation {
+  language: LanguageCode;
+  text: string;
+}
+
 export interface TranscriptItem {
   id: string;
   speaker: 'user' | 'agent' | 'model';
   text: string;
   timestamp: Date;
+  speakerName?: string; // Name from an imported transcript, e.g. "Jane Tan"
+  participantId?: string; // Who said it; unassigned human turns fall back to the analysis heuristic
+  startTime?: number; // Seconds from the start of the recording, when known
+  endTime?: number;
+  recordingTakeId?: string; // Live turns: the recording take that startTime/endTime refer to
+  language?: LanguageCode; // Language the text was spoken in; the session's interview language when absent
+  translation?: TranscriptTranslation; // The text in the session's output language; dropped when the text is edited
+}
+
+export type ParticipantRole = 'interviewer' | 'interviewee' | 'caregiver' | 'copilot';
+
+// A named person (or the AI co-pilot) taking part in an interview
+export interface Participant {
+  id: string;
+  name: string;
+  role: ParticipantRole;
+}
+
+// 'evidenced' items are backed by a verbatim transcript quote; 'inferred' items are the model's interpretation
+export type EvidenceBasis = 'evidenced' | 'inferred';
+
+export interface JourneyItem {
+  text: string;
+  participants?: string[]; // Synthesized maps only: which interviews mentioned this item
+  basis?: EvidenceBasis;
+  sourceIds?: string[]; // TranscriptItem ids the item was derived from
+  quote?: string; // Verbatim supporting quote from the transcript
+}
+
+export type BuiltInItemLane = 'userActions' | 'touchpoints' | 'painPoints' | 'opportunities' | BlueprintLane;
+
+// Service blueprint lanes: what staff do in front of the client, behind the scenes, and the systems supporting them
+export type BlueprintLane = 'frontstage' | 'backstage' | 'support';
+
+// Where a lane sits in a service blueprint; the lines of interaction, visibility and internal interaction fall between zones
+export type BlueprintZone = 'customer' | 'frontstage' | 'backstage' | 'support';
+
+// A built-in item lane, or the key of a custom lane defined by a journey template
+export type ItemLaneKey = string;
+
+export type LaneKind = 'items' | 'touchpoints' | 'emotion';
+
+export interface LaneDefinition {
+  key: string;
+  label: string; // e.g., "Thoughts", "Policies"
+  kind: LaneKind;
+  tone?: 'neutral' | 'negative' | 'positive'; // Colours item lanes like pain points / opportunities
+  description?: string; // Tells the AI what belongs in this lane
+  zone?: BlueprintZone; // Only set on service blueprint lanes
+}
+
+// A team-defined journey shape: which stages to look for and which lanes to fill, in order
+export interface JourneyTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  stages: string[];
+  lanes: LaneDefinition[];
+  builtIn?: boolean;
+}
+
+// How the client felt at a stage, on a scale from -5 (very negative) to +5 (very positive)
+export interface StageSentiment {
+  score: number;
+  rationale?: string;
+  basis?: EvidenceBasis;
+  sourceIds?: string[];
+  quote?: string;
 }
 
 export interface JourneyStage {
   name: string; // e.g., Awareness, Consideration
-  userActions: string[];
-  touchpoints: string[];
+  userActions: JourneyItem[];
+  touchpoints: JourneyItem[];
   emotions: string; // Emoji or description
-  painPoints: string[];
-  opportunities: string[];
+  sentiment?: StageSentiment; // Drives the emotion curve
+  painPoints: JourneyItem[];
+  opportunities: JourneyItem[];
+  frontstage?: JourneyItem[]; // Staff actions the client sees (blueprint maps only)
+  backstage?: JourneyItem[]; // Staff actions and processes hidden from the client
+  support?: JourneyItem[]; // Systems, IT and partner processes supporting staff
+  customLanes?: Record<string, JourneyItem[]>; // Items for template-defined lanes, keyed by lane key
 }
 
 export interface JourneyMapData {
   title: string;
   stages: JourneyStage[];
+  participants?: string[]; // Synthesized maps only: every interview that fed into the map
+  lanes?: LaneDefinition[]; // Lane set and order to render; the default lanes when absent
+  templateId?: string;
+  language?: LanguageCode; // Language the items are written in; English when absent
 }
 
+export type MapRevisionSource = 'generate' | 'live' | 'refine' | 'edit' | 'synthesis';
+
+// How far a map analysis has got. Long transcripts are read in parts, then the parts are merged stage by stage.
+export interface AnalysisProgress {
+  phase: 'reading' | 'merging';
+  done: number;
+  total: number;
+}
+
+// One entry in a session's map version history
+export interface MapRevision {
+  id: string;
+  label: string;
+  source: MapRevisionSource;
+  createdAt: Date;
+  map: JourneyMapData;
+}
+
+// A single structured change proposed by a chat refinement. Stages and items are
+// referenced by name/text so the model never has to reproduce the whole map.
+export type MapOperation =
+  | { op: 'addItem'; stage: string; lane: ItemLaneKey; text: string }
+  | { op: 'removeItem'; stage: string; lane: ItemLaneKey; text: string }
+  | { op: 'updateItem'; stage: string; lane: ItemLaneKey; text: string; newText: string }
+  | { op: 'moveItem'; stage: string; lane: ItemLaneKey; text: string; toStage: string; toLane?: ItemLaneKey }
+  | { op: 'renameStage'; stage: string; newName: string }
+  | { op: 'addStage'; newName: string; position?: number }
+  | { op: 'removeStage'; stage: string }
+  | { op: 'setEmotion'; stage: string; emotion: string }
+  | { op: 'setTitle'; newTitle: string };
+
+export interface RejectedOperation {
+  operation: MapOperation;
+  reason: string;
+}
+
+export interface RefinementMessage {
+  id: string;
+  role: 'user' | 'model';
+  text: string; // The PM's request, or the model's explanation
+  createdAt: Date;
+  operations?: MapOperation[]; // Model messages: the changes that validated against the map
+  rejected?: RejectedOperation[]; // Model messages: proposed changes that could not be applied
+  status?: 'pending' | 'applied' | 'discarded';
+}
+
+// open: on the co-pilot panel; superseded: replaced by a newer batch without being used
+export type SuggestionStatus = 'open' | 'asked' | 'skipped' | 'superseded';
+
+// A co-pilot suggestion: a question to ask, or an insight for the PM to keep in mind
 export interface Suggestion {
   id: string;
   type: 'question' | 'insight';
   text: string;
+  target?: string; // Journey stage or guide gap it goes after
+  status: SuggestionStatus;
+  pinned?: boolean; // Stays on the panel when new suggestions arrive
+  createdAt: Date;
+  sourceId?: string; // Latest transcript line when it was suggested, i.e. the moment that prompted it
+  askedId?: string; // Transcript line where it was asked, when detected
+  askedVia?: 'copilot' | 'interviewer';
 }
 
 export enum ConnectionState {
   DISCONNECTED,
   CONNECTING,
   CONNECTED,
+  RECONNECTING, // Connection dropped mid-interview; audio is buffered until it is back
   ERROR
 }
+
+export type GuideItemKind = 'question' | 'topic'; // A topic is something the interview must cover, however it is asked
+
+export interface GuideItem {
+  id: string;
+  kind: GuideItemKind;
+  text: string;
+}
+
+export interface GuideSection {
+  id: string;
+  title: string;
+  stage?: string; // Journey stage the section explores, from the project's template
+  items: GuideItem[];
+}
+
+// The PM's plan for every interview in a project
+export interface InterviewGuide {
+  sections: GuideSection[];
+}
+
+export type CoverageStatus = 'covered' | 'partial';
+
+export interface GuideItemCoverage {
+  status: CoverageStatus;
+  sourceIds?: string[]; // Transcript lines where it was addressed
+  manual?: boolean; // Set by the PM rather than detected
+}
+
+// Which guide items an interview has addressed so far; items not listed have not come up
+export interface GuideCoverage {
+  items: Record<string, GuideItemCoverage>;
+  checkedThroughId?: string; // Last transcript line already checked, so only new lines are sent
+}
+
+// What the interviewee agreed to: having the interview transcribed, the audio recorded on this
+// device, and the transcript sent to the AI provider for analysis
+export type ConsentScope = 'transcription' | 'recording' | 'aiAnalysis';
+
+export interface ConsentRecord {
+  scopes: ConsentScope[];
+  method: 'verbal' | 'written';
+  intervieweeName?: string;
+  recordedBy: string; // Who took the consent
+  recordedAt: Date;
+  note?: string; // e.g. where a signed form is filed
+}
+
+// Days after the interview before its data is purged; kept until deleted by hand when absent
+export interface RetentionPolicy {
+  transcriptDays?: number; // Transcript, suggestions and the verbatim quotes on its maps
+  audioDays?: number; // Audio goes with the transcript at the latest
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  templateId?: string; // Journey template used when generating maps in this project
+  guide?: InterviewGuide;
+  retention?: RetentionPolicy;
+  googleDriveFolderId?: string; // Drive folder that Google Workspace exports go to, once created
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// A single interview within a project, including everything generated from it.
+export interface InterviewSession {
+  id: string;
+  projectId: string;
+  title: string;
+  createdAt: Date;
+  updatedAt: Date;
+  transcript: TranscriptItem[];
+  journeyMap: JourneyMapData | null;
+  suggestions: Suggestion[];
+  images: Record<string, string>; // Stage name -> data URL of the generated touchpoint image
+  sourceSessionIds?: string[]; // Set when this session is a synthesis of other interviews
+  mapHistory?: MapRevision[];
+  mapHistoryIndex?: number; // Revision currently shown; later entries are available for redo
+  refinementThread?: RefinementMessage[];
+  participants?: Participant[];
+  guideCoverage?: GuideCoverage;
+  recordingConsent?: boolean; // Recording is switched on; only ever with 'recording' consent
+  consent?: ConsentRecord;
+  purgedAt?: Date; // The retention policy removed the transcript
+  liveMapThroughId?: string; // Last transcript line the live map has been built from
+  language?: SessionLanguage; // English throughout when absent
+}
+
+// One continuous stretch of recorded interview audio; each Start Interview with recording on adds one
+export interface RecordingTake {
+  id: string;
+  startedAt: Date;
+  duration: number; // Seconds
+  mimeType: string;
+  blob: Blob;
+}
+
+// Local audio of an interview, stored apart from the session so it can be deleted on its own
+export interface InterviewRecording {
+  sessionId: string;
+  takes: RecordingTake[];
+}
+
+export type AuditAction = 'consent' | 'generate' | 'refine' | 'export' | 'delete' | 'purge' | 'retention';
+
+// One line of the append-only audit log: who did what to which interview, and when
+export interface AuditEntry {
+  id: string;
+  at: Date;
+  actor: string;
+  action: AuditAction;
+  summary: string; // e.g. 'Generated the journey map of "Interview 3"'
+  projectId?: string;
+  sessionId?: string;
+}
+
+export type SaveStatus = 'idle' | 'saving' | 'saved' | 'error';
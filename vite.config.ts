@@ -4,16 +4,23 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // Every VITE_ value ends up in the bundle; API keys belong to the server
+    if (env.VITE_OPENAI_API_KEY) {
+      throw new Error('VITE_OPENAI_API_KEY would be bundled into the app. Remove it and set OPENAI_API_KEY for the API server instead.');
+    }
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // The API server (npm run server) holds the Gemini key; nothing secret is bundled
+        proxy: {
+          '/api': {
+            target: `http://localhost:${env.PORT || 8787}`,
+            ws: true,
+          },
+        },
       },
       plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
-      },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),